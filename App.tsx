@@ -1,118 +1,164 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet } from 'react-native';
-import { CometChat } from '@cometchat-pro/react-native-chat';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { NavigationContainer } from '@react-navigation/native';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { AuthTokenProvider, HttpAuthTokenProvider } from './src/auth/AuthTokenProvider';
+import { messageCache } from './src/cache/appMessageCache';
+import { chatClient } from './src/chat/appChatClient';
+import { ChatClientProvider } from './src/chat/ChatClientProvider';
+import { ConnectionBanner } from './src/components/ConnectionBanner';
+import { attachmentUploads } from './src/media/appAttachments';
+import { outbox, startOutbox, stopOutbox } from './src/outbox/appOutbox';
+import { appConfig } from './src/config';
+import { RootStackParamList } from './src/navigation/types';
+import { ChatScreen } from './src/screens/ChatScreen';
+import { ChatsScreen } from './src/screens/ChatsScreen';
+import { LoginScreen } from './src/screens/LoginScreen';
+import { ThreadScreen } from './src/screens/ThreadScreen';
+import { UsersScreen } from './src/screens/UsersScreen';
+import { clearSession, getLastSessionUid, saveSession } from './src/session';
 
-const appID = "277685c7a469b0dd";
-const region = "in";
-const authKey = "58fa19025a302eb2caddac9b140e18624a9c9a99";
+const defaultAuthTokenProvider = new HttpAuthTokenProvider(appConfig.authTokenUrl);
 
-const App = () => {
-  const [users, setUsers] = useState([]);
-  const [messages, setMessages] = useState([]);
-  const [selectedUser, setSelectedUser] = useState(null);
+const Stack = createNativeStackNavigator<RootStackParamList>();
 
+interface AppProps {
+  /**
+   * Source of auth tokens used to log in. Defaults to the HTTP endpoint from
+   * the app config.
+   */
+  authTokenProvider?: AuthTokenProvider;
+}
+
+const App = ({ authTokenProvider = defaultAuthTokenProvider }: AppProps) => {
+  const [initializing, setInitializing] = useState(true);
+  const [currentUser, setCurrentUser] = useState<CometChat.User | null>(null);
+  const [loggingIn, setLoggingIn] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [lastSessionUid, setLastSessionUid] = useState<string | null>(null);
+
+  useEffect(() => {
+    chatClient
+      .init()
+      .then(async () => {
+        console.log('CometChat initialized');
+        // Reuse the SDK's own session first, then fall back to the last UID we
+        // logged in with.
+        const user = await chatClient.getLoggedInUser();
+        if (user) {
+          setCurrentUser(user);
+          return;
+        }
+        const uid = await getLastSessionUid();
+        setLastSessionUid(uid);
+        if (uid) login(uid);
+      })
+      .catch(error => {
+        console.log("Initialization failed", error);
+      })
+      .finally(() => {
+        setInitializing(false);
+      });
+  }, []);
+
+  // Send queued messages while someone is logged in.
   useEffect(() => {
-    const appSetting = new CometChat.AppSettingsBuilder()
-      .subscribePresenceForAllUsers()
-      .setRegion(region)
-      .build();
+    if (!currentUser) return;
+    startOutbox();
+    return stopOutbox;
+  }, [currentUser]);
 
-    CometChat.init(appID, appSetting).then(() => {
-      console.log('CometChat initialized');
-      CometChat.login("cometchat-uid-1", authKey).then(
+  const login = (uid: string) => {
+    setLoggingIn(true);
+    setLoginError(null);
+    authTokenProvider
+      .getAuthToken(uid)
+      .then(authToken => chatClient.login(authToken))
+      .then(
         user => {
           console.log("Login successful", user);
-          fetchUsers();
+          saveSession(uid);
+          setLoggingIn(false);
+          setCurrentUser(user);
         },
         error => {
           console.log("Login failed", error);
+          setLoginError(error?.message || 'Login failed');
+          setLoggingIn(false);
         }
       );
-    });
-  }, []);
-
-  const fetchUsers = () => {
-  const limit = 30;
-  const usersRequest = new CometChat.UsersRequestBuilder()
-    .setLimit(limit)
-    .build();
-
-  usersRequest.fetchNext().then(userList => {
-    console.log("Fetched Users:", userList);
-    setUsers(userList);
-  }).catch(error => {
-    console.log("User fetch error:", error);
-  });
-};
-
-  const openChat = (user) => {
-    setSelectedUser(user);
-
-    const messagesRequest = new CometChat.MessagesRequestBuilder()
-      .setUID(user.getUid())
-      .setLimit(30)
-      .build();
+  };
 
-    messagesRequest.fetchPrevious().then(msgs => {
-      setMessages(msgs);
-    });
+  const logout = () => {
+    chatClient
+      .logout()
+      .then(() => {
+        clearSession();
+        // Cached conversations and unsent messages belong to the user that
+        // just logged out.
+        messageCache.clear().catch(error => console.log("Message cache clear error:", error));
+        outbox.clear();
+        attachmentUploads.clear();
+        setLastSessionUid(currentUser?.getUid() ?? null);
+        setCurrentUser(null);
+      })
+      .catch(error => {
+        console.log("Logout failed", error);
+      });
   };
 
-  if (selectedUser) {
+  if (initializing) {
     return (
-      <View style={styles.container}>
-        <Text style={styles.header}>Chat with {selectedUser.getName()}</Text>
-        <FlatList
-          data={messages}
-          keyExtractor={(item) => item.id.toString()}
-          renderItem={({ item }) => (
-            <Text>{item.sender.uid}: {item.text}</Text>
-          )}
-        />
-        <TouchableOpacity onPress={() => setSelectedUser(null)} style={styles.back}>
-          <Text style={{ color: 'white' }}>Back to Users</Text>
-        </TouchableOpacity>
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" />
       </View>
     );
   }
 
-  return (
-    <View style={styles.container}>
-      <Text style={styles.header}>Select a User to Chat</Text>
-      <FlatList
-        data={users}
-        keyExtractor={(item) => item.uid}
-        renderItem={({ item }) => (
-          <TouchableOpacity onPress={() => openChat(item)} style={styles.userItem}>
-            <Text>{item.name}</Text>
-          </TouchableOpacity>
-        )}
+  if (!currentUser) {
+    return (
+      <LoginScreen
+        key={lastSessionUid ?? ''}
+        onLogin={login}
+        loading={loggingIn}
+        error={loginError}
+        initialUid={lastSessionUid ?? ''}
       />
-    </View>
+    );
+  }
+
+  return (
+    <ChatClientProvider client={chatClient}>
+      <SafeAreaProvider>
+        {/* Keyed by user so logging in as someone else starts from a fresh stack. */}
+        <NavigationContainer key={currentUser.getUid()}>
+          <Stack.Navigator initialRouteName="Chats">
+            <Stack.Screen name="Chats" options={{ headerShown: false }}>
+              {props => <ChatsScreen {...props} onLogout={logout} />}
+            </Stack.Screen>
+            <Stack.Screen name="Users" component={UsersScreen} options={{ title: 'New Chat' }} />
+            <Stack.Screen
+              name="Chat"
+              component={ChatScreen}
+              options={({ route }) => ({ title: route.params.name })}
+            />
+            <Stack.Screen
+              name="Thread"
+              component={ThreadScreen}
+              options={({ route }) => ({ title: `Thread · ${route.params.name}` })}
+            />
+          </Stack.Navigator>
+        </NavigationContainer>
+        <ConnectionBanner />
+      </SafeAreaProvider>
+    </ChatClientProvider>
   );
 };
 
 const styles = StyleSheet.create({
-  container: { flex: 1, padding: 20, marginTop: 30 },
-  header: { fontSize: 18, fontWeight: 'bold', marginBottom: 10 },
-  userItem: {
-  padding: 12,
-  marginBottom: 10,
-  backgroundColor: '#87CEEB',
-  borderRadius: 12,
-  shadowColor: '#000',
-  shadowOffset: { width: 0, height: 2 },
-  shadowOpacity: 0.1,
-  shadowRadius: 4,
-  elevation: 3,
-  },
-  back: {
-    marginTop: 20,
-    backgroundColor: '#2196F3',
-    padding: 10,
-    alignItems: 'center',
-    borderRadius: 8,
-  }
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center' },
 });
 
 export default App;
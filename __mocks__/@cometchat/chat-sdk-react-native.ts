@@ -0,0 +1,4 @@
+/*
+ * Jest mock for the CometChat SDK. See testing/fakeCometChat.
+ */
+export { CometChat } from '../../testing/fakeCometChat';
@@ -3,11 +3,159 @@
  */
 
 import React from 'react';
-import ReactTestRenderer from 'react-test-renderer';
+import { TextInput } from 'react-native';
+import ReactTestRenderer, { ReactTestRenderer as Renderer } from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import App from '../App';
+import { AuthTokenProvider } from '../src/auth/AuthTokenProvider';
+import { ReactionDetailsSheet } from '../src/components/ReactionDetailsSheet';
+import { ChatScreen } from '../src/screens/ChatScreen';
+import { fakeCometChat, TextMessage } from '../testing/fakeCometChat';
+import { getByText, longPress, press, run } from '../testing/renderHelpers';
 
-test('renders correctly', async () => {
-  await ReactTestRenderer.act(() => {
-    ReactTestRenderer.create(<App />);
+// The conversation list is tested on its own; here it is a plain list of rows.
+jest.mock('../cometchat-uikit-react-native/src/CometChatConversations');
+
+const { act } = ReactTestRenderer;
+
+const authTokenProvider: AuthTokenProvider = {
+  getAuthToken: uid => Promise.resolve(fakeCometChat.createAuthToken(uid)),
+};
+
+const renderApp = async () => {
+  let renderer: Renderer;
+  await run(() => {
+    renderer = ReactTestRenderer.create(<App authTokenProvider={authTokenProvider} />);
+  });
+  return renderer!;
+};
+
+let renderer: Renderer | null = null;
+
+beforeEach(async () => {
+  fakeCometChat.reset();
+  await AsyncStorage.clear();
+  fakeCometChat.addUser({ uid: 'alice', name: 'Alice' });
+  fakeCometChat.addUser({ uid: 'bob', name: 'Bob' });
+  fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Hi Alice' });
+});
+
+afterEach(async () => {
+  await act(() => renderer?.unmount());
+  renderer = null;
+});
+
+test('asks who to log in as when there is no session', async () => {
+  renderer = await renderApp();
+
+  expect(getByText(renderer.root, 'Log in to CometChat')).toBeTruthy();
+});
+
+test('logs in and lists the conversations of the user', async () => {
+  renderer = await renderApp();
+
+  await run(() => renderer!.root.findByType(TextInput).props.onChangeText('alice'));
+  await press(getByText(renderer.root, 'Log in'));
+
+  expect(getByText(renderer.root, 'Bob')).toBeTruthy();
+  expect(getByText(renderer.root, 'Hi Alice')).toBeTruthy();
+});
+
+test('shows the login error when the token is rejected', async () => {
+  renderer = await renderApp();
+
+  await run(() => renderer!.root.findByType(TextInput).props.onChangeText('carol'));
+  await press(getByText(renderer.root, 'Log in'));
+
+  expect(getByText(renderer.root, 'Invalid auth token.')).toBeTruthy();
+});
+
+test('opens a chat and shows live messages', async () => {
+  fakeCometChat.setLoggedInUser('alice');
+  renderer = await renderApp();
+
+  await press(getByText(renderer.root, 'Bob'));
+  const chat = renderer.root.findByType(ChatScreen);
+  expect(getByText(chat, 'Hi Alice')).toBeTruthy();
+
+  let reply: ReturnType<typeof fakeCometChat.receiveTextMessage>;
+  await run(() => {
+    reply = fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Are you there?' });
   });
+
+  expect(getByText(chat, 'Are you there?')).toBeTruthy();
+  expect(fakeCometChat.receipts).toContainEqual({ type: 'delivered', messageId: reply!.getId() });
+});
+
+test('sends a message typed in the chat', async () => {
+  fakeCometChat.setLoggedInUser('alice');
+  renderer = await renderApp();
+  await press(getByText(renderer.root, 'Bob'));
+
+  const chat = renderer.root.findByType(ChatScreen);
+
+  const composer = chat.findByProps({ placeholder: 'Type a message' });
+  await run(() => composer.props.onChangeText('Hello Bob'));
+  await press(getByText(chat, 'Send'));
+
+  const [sent] = fakeCometChat.sentMessages as TextMessage[];
+  expect(sent.getText()).toBe('Hello Bob');
+  expect(sent.getReceiverId()).toBe('bob');
+  expect(getByText(chat, 'Hello Bob')).toBeTruthy();
+});
+
+test('shows the connection state while the socket is down', async () => {
+  fakeCometChat.setLoggedInUser('alice');
+  renderer = await renderApp();
+
+  await run(() => fakeCometChat.setConnectionStatus('disconnected'));
+  expect(getByText(renderer.root, 'Offline')).toBeTruthy();
+
+  await run(() => fakeCometChat.setConnectionStatus('connecting'));
+  expect(getByText(renderer.root, 'Connecting…')).toBeTruthy();
+
+  await run(() => fakeCometChat.setConnectionStatus('connected'));
+  expect(() => getByText(renderer!.root, 'Connecting…')).toThrow();
+});
+
+test('catches up on chat messages missed while offline', async () => {
+  fakeCometChat.setLoggedInUser('alice');
+  renderer = await renderApp();
+  await press(getByText(renderer.root, 'Bob'));
+  const chat = renderer.root.findByType(ChatScreen);
+
+  await run(() => {
+    fakeCometChat.setConnectionStatus('disconnected');
+    fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'While you were away' });
+  });
+  expect(() => getByText(chat, 'While you were away')).toThrow();
+
+  await run(() => fakeCometChat.setConnectionStatus('connected'));
+
+  expect(getByText(chat, 'Hi Alice')).toBeTruthy();
+  expect(getByText(chat, 'While you were away')).toBeTruthy();
+});
+
+test('reacts to messages and shows reactions from others', async () => {
+  fakeCometChat.setLoggedInUser('alice');
+  renderer = await renderApp();
+  await press(getByText(renderer.root, 'Bob'));
+  const chat = renderer.root.findByType(ChatScreen);
+  const [message] = fakeCometChat.getMessages();
+
+  await longPress(getByText(chat, 'Hi Alice'));
+  await press(getByText(chat, '👍'));
+  expect(getByText(chat, '👍 1')).toBeTruthy();
+
+  await run(() => fakeCometChat.receiveReaction({ messageId: message.getId(), sender: 'bob', emoji: '👍' }));
+  expect(getByText(chat, '👍 2')).toBeTruthy();
+
+  await longPress(getByText(chat, '👍 2'));
+  const details = chat.findByType(ReactionDetailsSheet);
+  expect(getByText(details, 'Bob')).toBeTruthy();
+  expect(getByText(details, 'Alice')).toBeTruthy();
+
+  await press(getByText(chat, '👍 2'));
+  expect(getByText(chat, '👍 1')).toBeTruthy();
+  expect(fakeCometChat.reactionsFor(message.getId()).map(reaction => reaction.getUid())).toEqual(['bob']);
 });
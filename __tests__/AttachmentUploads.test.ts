@@ -0,0 +1,167 @@
+import { AttachmentUploadEvent, AttachmentUploads } from '../src/media/AttachmentUploads';
+import { AttachmentKind, MediaPicker, PickedFile } from '../src/media/MediaPicker';
+import { MediaPermissions } from '../src/media/MediaPermissions';
+import {
+  MediaUploader,
+  MediaUploadRequest,
+  UploadCancelledError,
+} from '../src/media/MediaUploader';
+
+const target = { conversationId: 'user_bob', receiverId: 'bob', receiverType: 'user' };
+const photo: PickedFile = { uri: 'file:///photo.jpg', name: 'photo.jpg', mimeType: 'image/jpeg' };
+
+class FakePicker implements MediaPicker {
+  file: PickedFile | null = photo;
+  pick = jest.fn((_kind: AttachmentKind) => Promise.resolve(this.file));
+}
+
+class FakePermissions implements MediaPermissions {
+  granted = true;
+  ensureAccess = jest.fn((_kind: AttachmentKind) => Promise.resolve(this.granted));
+}
+
+interface FakeUpload {
+  request: MediaUploadRequest;
+  progress: (progress?: number) => void;
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  cancel: jest.Mock;
+}
+
+class FakeUploader implements MediaUploader<string> {
+  uploads: FakeUpload[] = [];
+  cancellable = true;
+  abortable = true;
+  upload(request: MediaUploadRequest, onProgress: (progress?: number) => void) {
+    let resolve!: (result: string) => void;
+    let reject!: (error: Error) => void;
+    const result = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const cancel = jest.fn(() => {
+      if (!this.cancellable) return false;
+      reject(new UploadCancelledError());
+      return true;
+    });
+    this.uploads.push({ request, progress: onProgress, resolve, reject, cancel });
+    return { result, cancel, cancellable: this.abortable };
+  }
+}
+
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('AttachmentUploads', () => {
+  let picker: FakePicker;
+  let permissions: FakePermissions;
+  let uploader: FakeUploader;
+  let uploads: AttachmentUploads<string>;
+  let events: AttachmentUploadEvent<string>[];
+
+  beforeEach(() => {
+    picker = new FakePicker();
+    permissions = new FakePermissions();
+    uploader = new FakeUploader();
+    uploads = new AttachmentUploads(picker, permissions, uploader);
+    events = [];
+    uploads.subscribe(event => events.push(event));
+  });
+
+  test('uploads the picked file with progress and reports the sent message', async () => {
+    const outcome = await uploads.pickAndSend('image', target);
+
+    expect(outcome.type).toBe('started');
+    expect(permissions.ensureAccess).toHaveBeenCalledWith('image');
+    expect(uploader.uploads[0].request).toEqual({
+      receiverId: 'bob',
+      receiverType: 'user',
+      kind: 'image',
+      file: photo,
+    });
+    expect(uploads.getEntries('user_bob')).toEqual([
+      expect.objectContaining({ status: 'uploading', progress: undefined }),
+    ]);
+
+    uploader.uploads[0].progress(0.5);
+    expect(uploads.getEntries('user_bob')[0].progress).toBe(0.5);
+
+    uploader.uploads[0].resolve('message 1');
+    await settle();
+    expect(uploads.getEntries()).toEqual([]);
+    expect(events).toContainEqual({
+      type: 'sent',
+      entry: expect.objectContaining({ conversationId: 'user_bob', kind: 'image' }),
+      result: 'message 1',
+    });
+  });
+
+  test('does not open the picker without media access', async () => {
+    permissions.granted = false;
+    await expect(uploads.pickAndSend('video', target)).resolves.toEqual({ type: 'denied' });
+    expect(picker.pick).not.toHaveBeenCalled();
+  });
+
+  test('does nothing when the picker is closed', async () => {
+    picker.file = null;
+    await expect(uploads.pickAndSend('file', target)).resolves.toEqual({ type: 'cancelled' });
+    expect(uploader.uploads).toEqual([]);
+  });
+
+  test('cancelling removes the upload without reporting a failure', async () => {
+    await uploads.pickAndSend('image', target);
+    const [entry] = uploads.getEntries();
+
+    uploads.cancel(entry.id);
+    await settle();
+
+    expect(uploader.uploads[0].cancel).toHaveBeenCalled();
+    expect(uploads.getEntries()).toEqual([]);
+    expect(events.some(event => event.type === 'sent')).toBe(false);
+  });
+
+  test('keeps an upload that is too far along to cancel and reports it as sent', async () => {
+    uploader.cancellable = false;
+    await uploads.pickAndSend('image', target);
+    const [entry] = uploads.getEntries();
+
+    expect(uploads.cancel(entry.id)).toBe(false);
+    expect(uploads.getEntries()).toEqual([expect.objectContaining({ id: entry.id, status: 'uploading' })]);
+
+    uploader.uploads[0].resolve('message 1');
+    await settle();
+    expect(uploads.getEntries()).toEqual([]);
+    expect(events).toContainEqual({ type: 'sent', entry: expect.objectContaining({ id: entry.id }), result: 'message 1' });
+  });
+
+  test('marks uploads the uploader cannot stop as not cancellable', async () => {
+    await uploads.pickAndSend('image', target);
+    uploader.abortable = false;
+    await uploads.pickAndSend('file', target);
+
+    expect(uploads.getEntries()).toEqual([
+      expect.objectContaining({ kind: 'image', cancellable: true }),
+      expect.objectContaining({ kind: 'file', cancellable: false }),
+    ]);
+  });
+
+  test('keeps failed uploads until they are retried', async () => {
+    await uploads.pickAndSend('audio', target);
+    const [entry] = uploads.getEntries();
+
+    uploader.uploads[0].reject(new Error('Network down'));
+    await settle();
+    expect(uploads.getEntries()).toEqual([
+      expect.objectContaining({ id: entry.id, status: 'failed', error: 'Network down' }),
+    ]);
+
+    uploads.retry(entry.id);
+    expect(uploader.uploads).toHaveLength(2);
+    expect(uploads.getEntries()[0].status).toBe('uploading');
+
+    uploader.uploads[1].resolve('message 2');
+    await settle();
+    expect(uploads.getEntries()).toEqual([]);
+  });
+});
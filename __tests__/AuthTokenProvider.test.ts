@@ -0,0 +1,80 @@
+import { AuthTokenError, HttpAuthTokenProvider } from '../src/auth/AuthTokenProvider';
+import { loadAppConfig, AppConfigError } from '../src/config';
+
+const { createMockTokenServer, tokenPath } = require('../scripts/mock-token-server');
+
+const startServer = async (options?: { tokens?: Record<string, string> }) => {
+  const server = createMockTokenServer(options);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  return { server, url: `http://127.0.0.1:${port}${tokenPath}` };
+};
+
+describe('HttpAuthTokenProvider', () => {
+  let server: any;
+
+  afterEach(done => {
+    server ? server.close(() => done()) : done();
+    server = undefined;
+  });
+
+  test('fetches a token from the mock server', async () => {
+    const started = await startServer();
+    server = started.server;
+    const provider = new HttpAuthTokenProvider(started.url);
+    await expect(provider.getAuthToken('cometchat-uid-1')).resolves.toBe(
+      'mock-token-cometchat-uid-1'
+    );
+  });
+
+  test('returns configured tokens and rejects unknown UIDs', async () => {
+    const started = await startServer({ tokens: { alice: 'token-alice' } });
+    server = started.server;
+    const provider = new HttpAuthTokenProvider(started.url);
+    await expect(provider.getAuthToken('alice')).resolves.toBe('token-alice');
+    await expect(provider.getAuthToken('bob')).rejects.toMatchObject({
+      name: 'AuthTokenError',
+      status: 404,
+      message: 'No auth token for bob',
+    });
+  });
+
+  test('reports network failures as AuthTokenError', async () => {
+    const provider = new HttpAuthTokenProvider('http://example.invalid', () =>
+      Promise.reject(new Error('Network request failed'))
+    );
+    await expect(provider.getAuthToken('alice')).rejects.toBeInstanceOf(AuthTokenError);
+  });
+
+  test('rejects responses without an authToken', async () => {
+    const provider = new HttpAuthTokenProvider('http://example.invalid', async () =>
+      new Response(JSON.stringify({}), { status: 200 })
+    );
+    await expect(provider.getAuthToken('alice')).rejects.toThrow(
+      'Auth token response did not contain an authToken'
+    );
+  });
+});
+
+describe('loadAppConfig', () => {
+  test('returns typed settings', () => {
+    expect(
+      loadAppConfig({ appId: 'app', region: 'us', authTokenUrl: 'http://localhost/token' })
+    ).toEqual({ appId: 'app', region: 'us', authTokenUrl: 'http://localhost/token' });
+  });
+
+  test('keeps the optional media upload URL when set', () => {
+    const source = { appId: 'app', region: 'us', authTokenUrl: 'http://localhost/token' };
+    expect(loadAppConfig({ ...source, mediaUploadUrl: 'http://localhost/media' })).toEqual({
+      ...source,
+      mediaUploadUrl: 'http://localhost/media',
+    });
+    expect(loadAppConfig({ ...source, mediaUploadUrl: ' ' })).toEqual(source);
+  });
+
+  test('lists missing settings', () => {
+    expect(() => loadAppConfig({ appId: 'app', region: '' })).toThrow(
+      new AppConfigError(['region', 'authTokenUrl'])
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { CometChatV4Client } from '../src/chat/CometChatV4Client';
+import { fakeCometChat } from '../testing/fakeCometChat';
+
+describe('CometChatV4Client', () => {
+  const client = new CometChatV4Client({ appId: 'app', region: 'us' });
+
+  beforeEach(() => {
+    fakeCometChat.reset();
+    fakeCometChat.addUser({ uid: 'alice', name: 'Alice' });
+    fakeCometChat.addUser({ uid: 'bob', name: 'Bob' });
+  });
+
+  test('logs in to the same session the v4 SDK sees', async () => {
+    await client.init();
+    await client.login(fakeCometChat.createAuthToken('alice'));
+
+    expect((await CometChat.getLoggedinUser())?.getUid()).toBe('alice');
+    expect((await client.getLoggedInUser())?.getUid()).toBe('alice');
+
+    await client.logout();
+    expect(await CometChat.getLoggedinUser()).toBeNull();
+  });
+
+  test('delivers events to handlers registered by id until removed', async () => {
+    fakeCometChat.setLoggedInUser('alice');
+    const onTextMessageReceived = jest.fn();
+    client.addMessageListener('test', { onTextMessageReceived });
+
+    fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'one' });
+    client.removeMessageListener('test');
+    fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'two' });
+
+    expect(onTextMessageReceived).toHaveBeenCalledTimes(1);
+    expect(onTextMessageReceived.mock.calls[0][0].getText()).toBe('one');
+  });
+});
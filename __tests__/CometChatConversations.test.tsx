@@ -0,0 +1,415 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import { FlatList, SectionList, Text } from 'react-native';
+import ReactTestRenderer, { ReactTestRenderer as Renderer } from 'react-test-renderer';
+import {
+  CometChatConversations,
+  ConversationInterface,
+} from '../cometchat-uikit-react-native/src/CometChatConversations';
+import { ChatClientProvider } from '../src/chat/ChatClientProvider';
+import { CometChatV4Client } from '../src/chat/CometChatV4Client';
+import { ConversationMuteStore } from '../src/conversations/ConversationMutes';
+import { ConversationPinStore } from '../src/conversations/ConversationPins';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+import { fakeCometChat } from '../testing/fakeCometChat';
+import { CometChatList, CometChatListItem, CometChatSoundManager, initFakeUIKit } from '../testing/fakeUIKit';
+import { getByText, longPress, press, queryAllByText, run, textOf } from '../testing/renderHelpers';
+
+// The UI kit modules the component imports aren't in this repository; each
+// one is replaced with the fakes in testing/fakeUIKit.
+jest.mock('../cometchat-uikit-react-native/shared', () => require('../testing/fakeUIKit'), { virtual: true });
+jest.mock(
+  '../cometchat-uikit-react-native/shared/constants/UIKitConstants',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/events/CometChatUIEventHandler/CometChatUIEventHandler',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/helper/helperFunctions',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock('../cometchat-uikit-react-native/shared/icons/Icon', () => require('../testing/fakeUIKit'), {
+  virtual: true,
+});
+jest.mock(
+  '../cometchat-uikit-react-native/shared/icons/components/delete',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock('../cometchat-uikit-react-native/shared/utils/CommonUtils', () => require('../testing/fakeUIKit'), {
+  virtual: true,
+});
+jest.mock(
+  '../cometchat-uikit-react-native/shared/utils/MessageUtils',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/CometChatBadge',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/CometChatConfirmDialog',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/CometChatDate',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/CometChatReceipt',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/CometChatTooltipMenu',
+  () => require('../testing/fakeUIKit'),
+  { virtual: true }
+);
+jest.mock(
+  '../cometchat-uikit-react-native/shared/views/ErrorEmptyView/ErrorEmptyView',
+  () => require('../testing/fakeUIKit'),
+  {
+    virtual: true,
+  }
+);
+jest.mock('../cometchat-uikit-react-native/theme', () => require('../testing/fakeUIKit'), { virtual: true });
+jest.mock('../cometchat-uikit-react-native/src/Skeleton', () => require('../testing/fakeUIKit'), {
+  virtual: true,
+});
+jest.mock('../cometchat-uikit-react-native/src/style', () => require('../testing/fakeUIKit'), {
+  virtual: true,
+});
+
+const chatClient = new CometChatV4Client({ appId: 'app', region: 'us' });
+
+let renderer: Renderer | null = null;
+
+const renderConversations = async (props: ConversationInterface = {}) => {
+  await run(() => {
+    renderer = ReactTestRenderer.create(
+      <ChatClientProvider client={chatClient}>
+        <CometChatConversations {...props} />
+      </ChatClientProvider>
+    );
+  });
+  return renderer!;
+};
+
+// Names of the listed conversations, top first.
+const rowNames = () =>
+  renderer!.root
+    .findAll(node => node.type === Text && ['Bob', 'Carol', 'Dave', 'Eve'].includes(textOf(node)))
+    .map(textOf);
+
+beforeEach(() => {
+  fakeCometChat.reset();
+  initFakeUIKit();
+  CometChatSoundManager.play.mockClear();
+  fakeCometChat.addUser({ uid: 'alice', name: 'Alice' });
+  fakeCometChat.addUser({ uid: 'bob', name: 'Bob' });
+  fakeCometChat.addUser({ uid: 'carol', name: 'Carol' });
+  fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Hi Alice', sentAt: 100 });
+  fakeCometChat.seedTextMessage({ sender: 'carol', receiverId: 'alice', text: 'Hi from Carol', sentAt: 200 });
+  fakeCometChat.setLoggedInUser('alice');
+});
+
+afterEach(async () => {
+  await ReactTestRenderer.act(() => renderer?.unmount());
+  renderer = null;
+});
+
+test('lists the conversations of the first page, newest first', async () => {
+  const onItemPress = jest.fn();
+  await renderConversations({ onItemPress });
+
+  expect(getByText(renderer!.root, 'Chats')).toBeTruthy();
+  expect(rowNames()).toEqual(['Carol', 'Bob']);
+  expect(getByText(renderer!.root, 'Hi Alice')).toBeTruthy();
+
+  await press(getByText(renderer!.root, 'Bob'));
+  expect(onItemPress.mock.calls[0][0].getConversationWith().getUid()).toBe('bob');
+});
+
+test('moves a conversation to the top when a message arrives', async () => {
+  await renderConversations();
+
+  let message: ReturnType<typeof fakeCometChat.receiveTextMessage>;
+  await run(() => {
+    message = fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Still there?' });
+  });
+
+  expect(rowNames()).toEqual(['Bob', 'Carol']);
+  expect(getByText(renderer!.root, 'Still there?')).toBeTruthy();
+  expect(fakeCometChat.receipts).toContainEqual({ type: 'delivered', messageId: message!.getId() });
+  expect(CometChatSoundManager.play).toHaveBeenCalled();
+});
+
+test('catches up on conversations missed while offline without reloading the list', async () => {
+  fakeCometChat.addUser({ uid: 'dave', name: 'Dave' });
+  fakeCometChat.addUser({ uid: 'eve', name: 'Eve' });
+  fakeCometChat.seedTextMessage({ sender: 'eve', receiverId: 'alice', text: 'Hi from Eve', sentAt: 50 });
+  await renderConversations({
+    conversationsRequestBuilder: chatClient.conversationsRequestBuilder().setLimit(2),
+  });
+  const list = renderer!.root.findByType(CometChatList).findByType(FlatList);
+  await run(() => list.props.onEndReached());
+  expect(rowNames()).toEqual(['Carol', 'Bob', 'Eve']);
+
+  await run(() => {
+    fakeCometChat.setConnectionStatus('disconnected');
+    fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Are you there?' });
+    fakeCometChat.receiveTextMessage({ sender: 'dave', receiverId: 'alice', text: 'Missed me?' });
+  });
+  expect(rowNames()).toEqual(['Carol', 'Bob', 'Eve']);
+
+  await run(() => fakeCometChat.setConnectionStatus('connected'));
+
+  // The missed conversations are merged in; the second page and the list,
+  // with its scroll position, stay.
+  expect(rowNames()).toEqual(['Dave', 'Bob', 'Carol', 'Eve']);
+  expect(getByText(renderer!.root, 'Missed me?')).toBeTruthy();
+  expect(getByText(renderer!.root, 'Are you there?')).toBeTruthy();
+  expect(renderer!.root.findByType(CometChatList).findByType(FlatList).instance).toBe(list.instance);
+});
+
+test('searches loaded conversations right away and the server after a pause', async () => {
+  fakeCometChat.addUser({ uid: 'bobby', name: 'Bobby' });
+  fakeCometChat.seedTextMessage({ sender: 'bobby', receiverId: 'alice', text: 'Old news', sentAt: 1 });
+  // Newer conversations push Bobby off the first page.
+  for (let i = 0; i < 30; i++) {
+    fakeCometChat.addUser({ uid: `user${i}`, name: `User ${i}` });
+    fakeCometChat.seedTextMessage({ sender: `user${i}`, receiverId: 'alice', text: 'Hello', sentAt: 10 + i });
+  }
+  const onItemPress = jest.fn();
+  await renderConversations({ showSearch: true, searchPlaceholderText: 'Search chats', onItemPress });
+
+  const search = renderer!.root.findByProps({ placeholder: 'Search chats' });
+  await run(() => search.props.onChangeText('bob'));
+
+  const results = () => renderer!.root.findByType(SectionList);
+  expect(getByText(results(), 'Loaded')).toBeTruthy();
+  expect(getByText(results(), 'Bob')).toBeTruthy();
+  expect(queryAllByText(results(), 'Carol')).toHaveLength(0);
+  expect(queryAllByText(results(), 'More results')).toHaveLength(0);
+  const resultsList = results().instance;
+
+  await ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 350)));
+  await run();
+
+  expect(getByText(results(), 'More results')).toBeTruthy();
+  // The results update in place instead of remounting.
+  expect(results().instance).toBe(resultsList);
+  await press(getByText(results(), 'Bobby'));
+  expect(onItemPress.mock.calls[0][0].getConversationWith().getUid()).toBe('bobby');
+
+  await run(() => search.props.onChangeText(''));
+  expect(renderer!.root.findAllByType(SectionList)).toHaveLength(0);
+});
+
+describe('pins', () => {
+  // Section headers and names of the listed conversations, top first.
+  const sections = () =>
+    renderer!.root
+      .findAll(
+        node => node.type === Text && ['Pinned', 'All chats', 'Bob', 'Carol', 'Dave'].includes(textOf(node))
+      )
+      .map(textOf);
+
+  const openMenu = async (name: string) => longPress(getByText(renderer!.root, name));
+
+  test('keeps pinned conversations in their own section across messages and restarts', async () => {
+    const pinStorage = new InMemoryStorage();
+    await renderConversations({ pinStorage });
+
+    await openMenu('Bob');
+    await press(getByText(renderer!.root, 'Pin'));
+    expect(sections()).toEqual(['Pinned', 'Bob', 'All chats', 'Carol']);
+
+    await run(() => {
+      fakeCometChat.receiveTextMessage({ sender: 'carol', receiverId: 'alice', text: 'Still me' });
+    });
+    expect(sections()).toEqual(['Pinned', 'Bob', 'All chats', 'Carol']);
+    expect(getByText(renderer!.root, 'Still me')).toBeTruthy();
+
+    await ReactTestRenderer.act(() => renderer!.unmount());
+    await renderConversations({ pinStorage });
+    expect(sections()).toEqual(['Pinned', 'Bob', 'All chats', 'Carol']);
+  });
+
+  test('orders pins newest first and moves them up on request', async () => {
+    await renderConversations({ pinStorage: new InMemoryStorage() });
+
+    await openMenu('Bob');
+    await press(getByText(renderer!.root, 'Pin'));
+    await openMenu('Carol');
+    await press(getByText(renderer!.root, 'Pin'));
+    expect(sections()).toEqual(['Pinned', 'Carol', 'Bob', 'All chats']);
+
+    await openMenu('Bob');
+    await press(getByText(renderer!.root, 'Move up'));
+    expect(sections()).toEqual(['Pinned', 'Bob', 'Carol', 'All chats']);
+  });
+
+  test('puts an unpinned conversation back in its place', async () => {
+    await renderConversations({ pinStorage: new InMemoryStorage() });
+
+    await openMenu('Bob');
+    await press(getByText(renderer!.root, 'Pin'));
+    await openMenu('Bob');
+    await press(getByText(renderer!.root, 'Unpin'));
+
+    expect(sections()).toEqual(['Carol', 'Bob']);
+  });
+
+  test('fetches pinned conversations that are not on the loaded pages', async () => {
+    fakeCometChat.addUser({ uid: 'dave', name: 'Dave' });
+    fakeCometChat.seedTextMessage({ sender: 'dave', receiverId: 'alice', text: 'Long ago', sentAt: 1 });
+    const pinStorage = new InMemoryStorage();
+    await new ConversationPinStore(pinStorage).set('alice', [
+      { conversationId: 'alice_user_dave', conversationWith: 'dave', conversationType: 'user' },
+    ]);
+
+    await renderConversations({
+      pinStorage,
+      conversationsRequestBuilder: chatClient.conversationsRequestBuilder().setLimit(2),
+    });
+
+    expect(sections()).toEqual(['Pinned', 'Dave', 'All chats', 'Carol', 'Bob']);
+  });
+});
+
+describe('mutes', () => {
+  const rowOf = (conversationId: string) =>
+    renderer!.root.find(node => node.type === CometChatListItem && node.props.id === conversationId);
+  // Rendered views with the test id in the conversation's row.
+  const inRow = (conversationId: string, testID: string) =>
+    rowOf(conversationId).findAll(node => typeof node.type === 'string' && node.props.testID === testID);
+  const badgeColor = (conversationId: string) =>
+    inRow(conversationId, 'badge')[0].props.style.backgroundColor;
+
+  test('silences a muted conversation and greys its unread count', async () => {
+    await renderConversations({ muteStorage: new InMemoryStorage() });
+    await longPress(getByText(renderer!.root, 'Bob'));
+    await press(getByText(renderer!.root, 'Mute'));
+    await press(getByText(renderer!.root, 'Forever'));
+    expect(inRow('alice_user_bob', 'icon-notifications-off-fill')).toHaveLength(1);
+
+    await run(() => {
+      fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Quiet please' });
+    });
+    expect(getByText(renderer!.root, 'Quiet please')).toBeTruthy();
+    expect(CometChatSoundManager.play).not.toHaveBeenCalled();
+    expect(badgeColor('alice_user_bob')).toBe('#A1A1A1');
+
+    await run(() => {
+      fakeCometChat.receiveTextMessage({ sender: 'carol', receiverId: 'alice', text: 'Loud and clear' });
+    });
+    expect(CometChatSoundManager.play).toHaveBeenCalled();
+    expect(badgeColor('alice_user_carol')).toBe('#6852D6');
+  });
+
+  test('lifts a mute when it ends', async () => {
+    const muteStorage = new InMemoryStorage();
+    await new ConversationMuteStore(muteStorage).set('alice', { alice_user_bob: Date.now() + 200 });
+    await renderConversations({ muteStorage });
+    expect(inRow('alice_user_bob', 'icon-notifications-off-fill')).toHaveLength(1);
+
+    await ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 300)));
+
+    expect(inRow('alice_user_bob', 'icon-notifications-off-fill')).toHaveLength(0);
+  });
+});
+
+describe('archive', () => {
+  // Names of the conversations in the list, top first.
+  const listedNames = () =>
+    renderer!.root
+      .findByType(CometChatList)
+      .findAll(node => node.type === Text && ['Bob', 'Carol'].includes(textOf(node)))
+      .map(textOf);
+
+  const archive = async (name: string) => {
+    await longPress(getByText(renderer!.root.findByType(CometChatList), name));
+    await press(getByText(renderer!.root, 'Archive'));
+  };
+
+  test('moves archived conversations behind the Archived row and back', async () => {
+    const archiveStorage = new InMemoryStorage();
+    await renderConversations({ archiveStorage });
+
+    await archive('Bob');
+    expect(listedNames()).toEqual(['Carol']);
+
+    await ReactTestRenderer.act(() => renderer!.unmount());
+    await renderConversations({ archiveStorage });
+    expect(listedNames()).toEqual(['Carol']);
+
+    await press(getByText(renderer!.root, 'Archived (1)'));
+    await longPress(getByText(renderer!.root, 'Bob'));
+    await press(getByText(renderer!.root, 'Unarchive'));
+    expect(getByText(renderer!.root, 'No archived conversations')).toBeTruthy();
+
+    await press(getByText(renderer!.root, 'Archived'));
+    expect(listedNames()).toEqual(['Carol', 'Bob']);
+    expect(queryAllByText(renderer!.root, 'Archived (1)')).toHaveLength(0);
+  });
+
+  test('keeps archived conversations out of the list after a reconnect', async () => {
+    await renderConversations({ archiveStorage: new InMemoryStorage() });
+    await archive('Bob');
+
+    await run(() => fakeCometChat.setConnectionStatus('disconnected'));
+    await run(() => fakeCometChat.setConnectionStatus('connected'));
+
+    expect(listedNames()).toEqual(['Carol']);
+    expect(getByText(renderer!.root, 'Archived (1)')).toBeTruthy();
+  });
+
+  test('brings an archived conversation back when a message arrives', async () => {
+    await renderConversations({ archiveStorage: new InMemoryStorage() });
+    await archive('Bob');
+
+    await run(() => {
+      fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Back again' });
+    });
+
+    expect(listedNames()).toEqual(['Bob', 'Carol']);
+    expect(queryAllByText(renderer!.root, 'Archived (1)')).toHaveLength(0);
+  });
+
+  test('keeps muted conversations archived when the policy says so', async () => {
+    await renderConversations({
+      archiveStorage: new InMemoryStorage(),
+      muteStorage: new InMemoryStorage(),
+      archivePolicy: 'keepArchivedWhenMuted',
+    });
+    await longPress(getByText(renderer!.root, 'Bob'));
+    await press(getByText(renderer!.root, 'Mute'));
+    await press(getByText(renderer!.root, 'Forever'));
+    await archive('Bob');
+    await archive('Carol');
+    expect(getByText(renderer!.root, 'Archived (2)')).toBeTruthy();
+
+    await run(() => {
+      fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'Muted news' });
+      fakeCometChat.receiveTextMessage({ sender: 'carol', receiverId: 'alice', text: 'Loud news' });
+    });
+
+    expect(listedNames()).toEqual(['Carol']);
+    expect(getByText(renderer!.root, 'Archived (1)')).toBeTruthy();
+    await press(getByText(renderer!.root, 'Archived (1)'));
+    expect(getByText(renderer!.root, 'Muted news')).toBeTruthy();
+  });
+});
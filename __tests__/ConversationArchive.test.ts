@@ -0,0 +1,66 @@
+import {
+  archiveConversation,
+  ConversationArchiveStore,
+  shouldUnarchiveOnMessage,
+  unarchiveConversation,
+} from '../src/conversations/ConversationArchive';
+import { ConversationRef } from '../src/conversations/ConversationRef';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+
+const ref = (conversationWith: string): ConversationRef => ({
+  conversationId: `alice_user_${conversationWith}`,
+  conversationWith,
+  conversationType: 'user',
+});
+const [a, b, c] = ['a', 'b', 'c'].map(ref);
+
+describe('ConversationArchiveStore', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+  });
+
+  test('keeps archived conversations per user', async () => {
+    const store = new ConversationArchiveStore(storage);
+    const team: ConversationRef = {
+      conversationId: 'group_team',
+      conversationWith: 'team',
+      conversationType: 'group',
+    };
+    await store.set('alice', [team]);
+
+    await expect(store.get('alice')).resolves.toEqual([team]);
+    await expect(store.get('bob')).resolves.toEqual([]);
+  });
+
+  test('treats an unreadable archive as empty', async () => {
+    await storage.setItem('conversation_archive:alice', '{oops');
+
+    await expect(new ConversationArchiveStore(storage).get('alice')).resolves.toEqual([]);
+  });
+
+  test('leaves out entries it cannot fetch again', async () => {
+    await storage.setItem('conversation_archive:alice', JSON.stringify([a, 'group_team']));
+
+    await expect(new ConversationArchiveStore(storage).get('alice')).resolves.toEqual([a]);
+  });
+});
+
+describe('archive', () => {
+  test('archives latest first, once per conversation', () => {
+    expect(archiveConversation([a, b], c)).toEqual([c, a, b]);
+    expect(archiveConversation([a, b], b)).toEqual([b, a]);
+  });
+
+  test('unarchives a conversation', () => {
+    expect(unarchiveConversation([a, b], a.conversationId)).toEqual([b]);
+  });
+
+  test('unarchives on new messages according to the policy', () => {
+    expect(shouldUnarchiveOnMessage('unarchiveOnMessage', true)).toBe(true);
+    expect(shouldUnarchiveOnMessage('unarchiveOnMessage', false)).toBe(true);
+    expect(shouldUnarchiveOnMessage('keepArchivedWhenMuted', true)).toBe(false);
+    expect(shouldUnarchiveOnMessage('keepArchivedWhenMuted', false)).toBe(true);
+  });
+});
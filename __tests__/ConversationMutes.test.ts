@@ -0,0 +1,70 @@
+import {
+  ConversationMuteStore,
+  getNextMuteExpiry,
+  isConversationMuted,
+  muteConversation,
+  removeExpiredMutes,
+  unmuteConversation,
+} from '../src/conversations/ConversationMutes';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+
+const hour = 60 * 60 * 1000;
+
+describe('ConversationMuteStore', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+  });
+
+  test('keeps mutes per user, including ones without an end', async () => {
+    const store = new ConversationMuteStore(storage);
+    await store.set('alice', { group_team: 1000, alice_user_bob: null });
+
+    await expect(store.get('alice')).resolves.toEqual({ group_team: 1000, alice_user_bob: null });
+    await expect(store.get('bob')).resolves.toEqual({});
+  });
+
+  test('ignores unreadable entries', async () => {
+    await storage.setItem('conversation_mutes:alice', JSON.stringify({ group_team: 'soon', group_ops: 5 }));
+    await storage.setItem('conversation_mutes:bob', '[1, 2]');
+
+    const store = new ConversationMuteStore(storage);
+    await expect(store.get('alice')).resolves.toEqual({ group_ops: 5 });
+    await expect(store.get('bob')).resolves.toEqual({});
+  });
+});
+
+describe('mutes', () => {
+  const now = 10 * hour;
+
+  test('mute for a while until it expires', () => {
+    const mutes = muteConversation({}, 'group_team', hour, now);
+
+    expect(isConversationMuted(mutes, 'group_team', now + hour - 1)).toBe(true);
+    expect(isConversationMuted(mutes, 'group_team', now + hour)).toBe(false);
+    expect(isConversationMuted(mutes, 'group_ops', now)).toBe(false);
+  });
+
+  test('mute forever', () => {
+    const mutes = muteConversation({}, 'group_team', null, now);
+
+    expect(isConversationMuted(mutes, 'group_team', now + 1000 * hour)).toBe(true);
+    expect(getNextMuteExpiry(mutes)).toBeNull();
+  });
+
+  test('unmute', () => {
+    const mutes = muteConversation({}, 'group_team', null, now);
+
+    expect(unmuteConversation(mutes, 'group_team')).toEqual({});
+  });
+
+  test('drops expired mutes and finds the next expiry', () => {
+    const mutes = { a: now - 1, b: now + hour, c: now + 8 * hour, d: null };
+
+    expect(removeExpiredMutes(mutes, now)).toEqual({ b: now + hour, c: now + 8 * hour, d: null });
+    expect(getNextMuteExpiry(removeExpiredMutes(mutes, now))).toBe(now + hour);
+    const active = { b: now + hour };
+    expect(removeExpiredMutes(active, now)).toBe(active);
+  });
+});
@@ -0,0 +1,67 @@
+import { ConversationRef } from '../src/conversations/ConversationRef';
+import {
+  ConversationPinStore,
+  movePinUp,
+  pinConversation,
+  unpinConversation,
+} from '../src/conversations/ConversationPins';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+
+const ref = (conversationWith: string): ConversationRef => ({
+  conversationId: `alice_user_${conversationWith}`,
+  conversationWith,
+  conversationType: 'user',
+});
+const [a, b, c] = ['a', 'b', 'c'].map(ref);
+
+describe('ConversationPinStore', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+  });
+
+  test('keeps pins per user', async () => {
+    const store = new ConversationPinStore(storage);
+    const team: ConversationRef = {
+      conversationId: 'group_team',
+      conversationWith: 'team',
+      conversationType: 'group',
+    };
+    await store.set('alice', [team, a]);
+
+    await expect(store.get('alice')).resolves.toEqual([team, a]);
+    await expect(store.get('bob')).resolves.toEqual([]);
+  });
+
+  test('treats unreadable pins as none', async () => {
+    await storage.setItem('conversation_pins:alice', '{oops');
+
+    await expect(new ConversationPinStore(storage).get('alice')).resolves.toEqual([]);
+  });
+
+  test('leaves out pins it cannot fetch again', async () => {
+    await storage.setItem(
+      'conversation_pins:alice',
+      JSON.stringify(['group_team', a, { conversationId: 'x' }])
+    );
+
+    await expect(new ConversationPinStore(storage).get('alice')).resolves.toEqual([a]);
+  });
+});
+
+describe('pin list', () => {
+  test('pins new conversations on top and moves them when pinned again', () => {
+    expect(pinConversation([a, b], c)).toEqual([c, a, b]);
+    expect(pinConversation([a, b], b)).toEqual([b, a]);
+  });
+
+  test('unpins a conversation', () => {
+    expect(unpinConversation([a, b, c], b.conversationId)).toEqual([a, c]);
+  });
+
+  test('moves a pin up one place', () => {
+    expect(movePinUp([a, b, c], c.conversationId)).toEqual([a, c, b]);
+    expect(movePinUp([a, b, c], a.conversationId)).toEqual([a, b, c]);
+  });
+});
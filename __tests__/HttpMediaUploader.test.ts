@@ -0,0 +1,151 @@
+import { HttpMediaUploader, MediaUploadError } from '../src/media/HttpMediaUploader';
+import { MediaUploadRequest, UploadCancelledError } from '../src/media/MediaUploader';
+
+const request: MediaUploadRequest = {
+  receiverId: 'bob',
+  receiverType: 'user',
+  kind: 'image',
+  file: { uri: 'file:///photo.jpg', name: 'photo.jpg', mimeType: 'image/jpeg' },
+};
+
+class FakeXhr {
+  upload: { onprogress?: (event: { lengthComputable: boolean; loaded: number; total: number }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  status = 0;
+  responseText = '';
+  opened?: [string, string];
+  body?: FormData;
+  open = jest.fn((method: string, url: string) => {
+    this.opened = [method, url];
+  });
+  send = jest.fn((body: FormData) => {
+    this.body = body;
+  });
+  abort = jest.fn();
+
+  respond(status: number, body: unknown) {
+    this.status = status;
+    this.responseText = JSON.stringify(body);
+    this.onload?.();
+  }
+}
+
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('HttpMediaUploader', () => {
+  let xhr: FakeXhr;
+  let send: jest.Mock;
+  let uploader: HttpMediaUploader<string>;
+
+  beforeEach(() => {
+    xhr = new FakeXhr();
+    send = jest.fn(() => Promise.resolve('message 1'));
+    uploader = new HttpMediaUploader('http://localhost/media', send, () => xhr as unknown as XMLHttpRequest);
+  });
+
+  test('reports upload progress, then sends the stored file', async () => {
+    const progress: Array<number | undefined> = [];
+    const upload = uploader.upload(request, value => progress.push(value));
+
+    expect(xhr.opened).toEqual(['POST', 'http://localhost/media']);
+    xhr.upload.onprogress?.({ lengthComputable: true, loaded: 25, total: 100 });
+    xhr.upload.onprogress?.({ lengthComputable: false, loaded: 50, total: 0 });
+    xhr.upload.onprogress?.({ lengthComputable: true, loaded: 100, total: 100 });
+    xhr.respond(201, { url: 'https://cdn.example/photo.jpg' });
+
+    await expect(upload.result).resolves.toBe('message 1');
+    expect(progress).toEqual([0.25, 1, 1]);
+    expect(send).toHaveBeenCalledWith(request, {
+      url: 'https://cdn.example/photo.jpg',
+      name: 'photo.jpg',
+      mimeType: 'image/jpeg',
+    });
+  });
+
+  test('aborts a cancelled upload before anything is sent', async () => {
+    const upload = uploader.upload(request, () => {});
+
+    expect(upload.cancel()).toBe(true);
+    await expect(upload.result).rejects.toBeInstanceOf(UploadCancelledError);
+    expect(xhr.abort).toHaveBeenCalled();
+
+    xhr.respond(201, { url: 'https://cdn.example/photo.jpg' });
+    await settle();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('cannot be cancelled once the message is being sent', async () => {
+    send.mockReturnValue(new Promise(() => {}));
+    const upload = uploader.upload(request, () => {});
+
+    xhr.respond(201, { url: 'https://cdn.example/photo.jpg' });
+    await settle();
+
+    expect(send).toHaveBeenCalled();
+    expect(upload.cancel()).toBe(false);
+    expect(xhr.abort).not.toHaveBeenCalled();
+  });
+
+  test('rejects on server errors and responses without a url', async () => {
+    const failed = uploader.upload(request, () => {});
+    xhr.respond(413, { error: 'File too large' });
+    await expect(failed.result).rejects.toEqual(new MediaUploadError('File too large', 413));
+
+    xhr = new FakeXhr();
+    const missing = uploader.upload(request, () => {});
+    xhr.respond(200, {});
+    await expect(missing.result).rejects.toMatchObject({
+      name: 'MediaUploadError',
+      message: 'Upload response did not contain a url',
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('mock media server', () => {
+  const { createMockMediaServer, mediaPath } = require('../scripts/mock-media-server');
+  let server: any;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createMockMediaServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}${mediaPath}`;
+  });
+
+  afterEach(done => {
+    server.close(() => done());
+  });
+
+  test('stores an uploaded file and serves it from the returned url', async () => {
+    const body = [
+      '--boundary',
+      'Content-Disposition: form-data; name="file"; filename="note.txt"',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--boundary--',
+      '',
+    ].join('\r\n');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'multipart/form-data; boundary=boundary' },
+      body,
+    });
+    const { url: fileUrl } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(fileUrl).toMatch(new RegExp(`^${url}/.+note\\.txt$`));
+    const file = await fetch(fileUrl);
+    expect(file.headers.get('content-type')).toBe('text/plain');
+    await expect(file.text()).resolves.toBe('hello');
+  });
+
+  test('rejects uploads without a file', async () => {
+    const response = await fetch(url, { method: 'POST', body: 'hello' });
+    expect(response.status).toBe(400);
+  });
+});
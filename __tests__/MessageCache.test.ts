@@ -0,0 +1,110 @@
+import { MessageAdapter, MessageCache, reconcileMessages } from '../src/cache/MessageCache';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+
+type Message = { id: number; text: string; deletedAt?: number };
+
+const adapter: MessageAdapter<Message> = {
+  getId: message => message.id,
+  serialize: message => message,
+  deserialize: raw => raw as Message,
+};
+
+const message = (id: number, text = `message ${id}`): Message => ({ id, text });
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => message(from + i));
+const getId = (item: Message) => item.id;
+
+describe('MessageCache', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage();
+  });
+
+  test('returns what was put for a conversation', async () => {
+    const cache = new MessageCache(storage, adapter);
+    await cache.put('user_alice', range(1, 3));
+    await expect(cache.get('user_alice')).resolves.toEqual(range(1, 3));
+    await expect(cache.get('user_bob')).resolves.toEqual([]);
+  });
+
+  test('keeps only the newest messages of a conversation', async () => {
+    const cache = new MessageCache(storage, adapter, { maxMessagesPerConversation: 2 });
+    await cache.put('user_alice', range(1, 5));
+    await expect(cache.get('user_alice')).resolves.toEqual(range(4, 5));
+  });
+
+  test('evicts the least recently used conversation', async () => {
+    const cache = new MessageCache(storage, adapter, { maxConversations: 2 });
+    await cache.put('user_alice', range(1, 1));
+    await cache.put('user_bob', range(2, 2));
+    // Reading alice makes bob the least recently used.
+    await cache.get('user_alice');
+    await cache.put('group_team', range(3, 3));
+
+    await expect(cache.get('user_bob')).resolves.toEqual([]);
+    await expect(cache.get('user_alice')).resolves.toEqual(range(1, 1));
+    await expect(cache.get('group_team')).resolves.toEqual(range(3, 3));
+  });
+
+  test('survives concurrent writes without losing conversations', async () => {
+    const cache = new MessageCache(storage, adapter);
+    await Promise.all(['a', 'b', 'c'].map((id, i) => cache.put(id, range(i, i))));
+    await expect(cache.get('a')).resolves.toEqual(range(0, 0));
+    await expect(cache.get('b')).resolves.toEqual(range(1, 1));
+    await expect(cache.get('c')).resolves.toEqual(range(2, 2));
+  });
+
+  test('drops corrupt entries', async () => {
+    const cache = new MessageCache(storage, adapter);
+    await storage.setItem('message_cache:conversation:user_alice', '{not json');
+    await expect(cache.get('user_alice')).resolves.toEqual([]);
+    await expect(storage.getItem('message_cache:conversation:user_alice')).resolves.toBeNull();
+  });
+
+  test('clear removes every conversation', async () => {
+    const cache = new MessageCache(storage, adapter);
+    await cache.put('user_alice', range(1, 2));
+    await cache.put('user_bob', range(3, 4));
+    await cache.clear();
+    expect(storage.keys()).toEqual([]);
+  });
+});
+
+describe('reconcileMessages', () => {
+  test('replaces cached copies with fetched ones', () => {
+    const edited = { ...message(2), text: 'edited' };
+    const deleted = { ...message(3), deletedAt: 100 };
+    expect(reconcileMessages(range(1, 3), [message(1), edited, deleted], getId)).toEqual([
+      message(1),
+      edited,
+      deleted,
+    ]);
+  });
+
+  test('drops cached messages the server no longer returns within the page', () => {
+    expect(reconcileMessages(range(1, 5), [message(2), message(4)], getId)).toEqual([
+      message(1),
+      message(2),
+      message(4),
+      message(5),
+    ]);
+  });
+
+  test('keeps older cached messages and newer live ones', () => {
+    const current = [...range(1, 3), message(10)];
+    expect(reconcileMessages(current, range(3, 5), getId)).toEqual([
+      ...range(1, 5),
+      message(10),
+    ]);
+  });
+
+  test('drops older cached messages when the page reaches the start', () => {
+    expect(reconcileMessages(range(1, 4), range(3, 4), getId, true)).toEqual(range(3, 4));
+    expect(reconcileMessages(range(1, 4), [], getId, true)).toEqual([]);
+  });
+
+  test('keeps everything when an incomplete page is empty', () => {
+    expect(reconcileMessages(range(1, 2), [], getId)).toEqual(range(1, 2));
+  });
+});
@@ -0,0 +1,125 @@
+import { Outbox, OutboxEntry, OutboxEvent } from '../src/outbox/Outbox';
+import { InMemoryStorage } from '../src/storage/KeyValueStorage';
+
+const input = {
+  conversationId: 'user_bob',
+  receiverId: 'bob',
+  receiverType: 'user',
+  text: 'hello',
+};
+
+// Lets pending promise callbacks run between fake timer steps.
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('Outbox', () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    storage = new InMemoryStorage();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('sends queued messages and reports the result', async () => {
+    const send = jest.fn((entry: OutboxEntry) => Promise.resolve(`sent ${entry.muid}`));
+    const outbox = new Outbox(storage, send);
+    const events: OutboxEvent<string>[] = [];
+    outbox.subscribe(event => events.push(event));
+
+    const entry = await outbox.enqueue(input);
+    await settle();
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ ...input, muid: entry.muid }));
+    expect(events).toContainEqual({
+      type: 'sent',
+      entry: expect.objectContaining({ muid: entry.muid }),
+      result: `sent ${entry.muid}`,
+    });
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  test('retries with exponential backoff and then gives up', async () => {
+    const send = jest.fn(() => Promise.reject(new Error('offline')));
+    const outbox = new Outbox(storage, send, { baseDelay: 1000, maxAttempts: 3 });
+
+    await outbox.enqueue(input);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getEntries()[0]).toMatchObject({ status: 'pending', error: 'offline' });
+
+    jest.advanceTimersByTime(999);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(2000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(outbox.getEntries()[0]).toMatchObject({ status: 'failed', attempts: 3 });
+
+    jest.advanceTimersByTime(60000);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  test('retry sends a failed entry again', async () => {
+    const send = jest
+      .fn<Promise<string>, [OutboxEntry]>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('ok');
+    const outbox = new Outbox(storage, send, { maxAttempts: 1 });
+
+    const entry = await outbox.enqueue(input);
+    await settle();
+    expect(outbox.getEntries()[0].status).toBe('failed');
+
+    outbox.retry(entry.muid);
+    await settle();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  test('flush skips the backoff delay', async () => {
+    const send = jest
+      .fn<Promise<string>, [OutboxEntry]>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('ok');
+    const outbox = new Outbox(storage, send, { baseDelay: 30000 });
+
+    await outbox.enqueue(input);
+    await settle();
+    outbox.flush();
+    await settle();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.getEntries()).toEqual([]);
+  });
+
+  test('persists unsent entries across instances', async () => {
+    const offline = new Outbox(storage, () => Promise.reject(new Error('offline')), {
+      maxAttempts: 1,
+    });
+    const entry = await offline.enqueue(input);
+    await settle();
+
+    const send = jest.fn(() => Promise.resolve('ok'));
+    const restored = new Outbox(storage, send);
+    await restored.load();
+    expect(restored.getEntries('user_bob')).toEqual([
+      expect.objectContaining({ muid: entry.muid, text: 'hello', status: 'failed' }),
+    ]);
+    expect(restored.getEntries('user_alice')).toEqual([]);
+
+    restored.flush();
+    await settle();
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ muid: entry.muid }));
+    await expect(storage.getItem('outbox')).resolves.toBe('[]');
+  });
+});
@@ -0,0 +1,61 @@
+import { TypingNotifier } from '../src/typing/TypingNotifier';
+
+describe('TypingNotifier', () => {
+  let now: number;
+  let signals: { start: jest.Mock; end: jest.Mock };
+  let notifier: TypingNotifier;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    signals = { start: jest.fn(), end: jest.fn() };
+    notifier = new TypingNotifier(signals, { throttle: 3000, idleTimeout: 5000, now: () => now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const typeAt = (time: number, text = 'hi') => {
+    now = time;
+    notifier.onTextChanged(text);
+  };
+
+  test('throttles start signals while typing', () => {
+    typeAt(0);
+    typeAt(1000);
+    typeAt(2000);
+    expect(signals.start).toHaveBeenCalledTimes(1);
+
+    typeAt(3000);
+    expect(signals.start).toHaveBeenCalledTimes(2);
+    expect(signals.end).not.toHaveBeenCalled();
+  });
+
+  test('ends typing after the idle timeout', () => {
+    typeAt(0);
+    jest.advanceTimersByTime(4999);
+    expect(signals.end).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(signals.end).toHaveBeenCalledTimes(1);
+
+    typeAt(6000);
+    expect(signals.start).toHaveBeenCalledTimes(2);
+  });
+
+  test('ends typing when the composer is cleared, once', () => {
+    typeAt(0);
+    typeAt(500, '');
+    notifier.stop();
+    jest.runAllTimers();
+    expect(signals.end).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not end typing that never started', () => {
+    notifier.stop();
+    typeAt(0, '   ');
+    expect(signals.start).not.toHaveBeenCalled();
+    expect(signals.end).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { getTypingText, TypingTracker, TypingUser } from '../src/typing/TypingTracker';
+
+const alice = { uid: 'alice', name: 'Alice' };
+const bob = { uid: 'bob', name: 'Bob' };
+
+describe('TypingTracker', () => {
+  let tracker: TypingTracker;
+  let updates: TypingUser[][];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new TypingTracker({ timeout: 8000 });
+    updates = [];
+    tracker.subscribe(users => updates.push(users));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('tracks start and end events', () => {
+    tracker.started(alice);
+    tracker.started(bob);
+    tracker.started(alice);
+    expect(tracker.getUsers()).toEqual([alice, bob]);
+
+    tracker.ended('alice');
+    expect(tracker.getUsers()).toEqual([bob]);
+    expect(updates).toHaveLength(3);
+  });
+
+  test('drops a user when no end event arrives', () => {
+    tracker.started(alice);
+    jest.advanceTimersByTime(7000);
+    tracker.started(alice);
+    jest.advanceTimersByTime(7000);
+    expect(tracker.getUsers()).toEqual([alice]);
+
+    jest.advanceTimersByTime(1000);
+    expect(tracker.getUsers()).toEqual([]);
+    expect(updates[updates.length - 1]).toEqual([]);
+  });
+});
+
+describe('getTypingText', () => {
+  test('describes who is typing', () => {
+    expect(getTypingText([], true)).toBeNull();
+    expect(getTypingText([alice], false)).toBe('typing…');
+    expect(getTypingText([alice], true)).toBe('Alice is typing…');
+    expect(getTypingText([alice, bob], true)).toBe('Alice and Bob are typing…');
+    expect(getTypingText([alice, bob, { uid: 'carol', name: 'Carol' }], true)).toBe(
+      '3 people are typing…'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { getConversationSearchSections, matchesConversationName } from '../src/utils/conversationSearch';
+
+class FakeConversation {
+  constructor(private id: string, private name: string) {}
+  getConversationId() {
+    return this.id;
+  }
+  getConversationWith() {
+    return { getName: () => this.name };
+  }
+}
+
+const conversation = (id: string, name: string) =>
+  new FakeConversation(id, name) as unknown as CometChat.Conversation;
+
+const ids = (conversations: CometChat.Conversation[]) =>
+  conversations.map(item => item.getConversationId());
+
+describe('matchesConversationName', () => {
+  test('matches part of the name ignoring case and surrounding spaces', () => {
+    expect(matchesConversationName(conversation('1', 'Design Team'), ' team ')).toBe(true);
+    expect(matchesConversationName(conversation('1', 'Design Team'), 'ops')).toBe(false);
+  });
+});
+
+describe('getConversationSearchSections', () => {
+  const bob = conversation('bob', 'Bob');
+  const bobby = conversation('bobby', 'Bobby');
+  const carol = conversation('carol', 'Carol');
+  const robert = conversation('robert', 'Robert');
+
+  test('filters loaded conversations before the server answers', () => {
+    const sections = getConversationSearchSections([carol, bob, bobby], [], 'bob');
+
+    expect(ids(sections.loaded)).toEqual(['bob', 'bobby']);
+    expect(sections.more).toEqual([]);
+  });
+
+  test('lists server results that are not loaded separately', () => {
+    const sections = getConversationSearchSections([carol, bob], [bobby, bob], 'bob');
+
+    expect(ids(sections.loaded)).toEqual(['bob']);
+    expect(ids(sections.more)).toEqual(['bobby']);
+  });
+
+  test('keeps loaded conversations the server matched on more than the name', () => {
+    const sections = getConversationSearchSections([robert, carol], [robert], 'bob');
+
+    expect(ids(sections.loaded)).toEqual(['robert']);
+    expect(sections.more).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { BaseMessage, CometChat, TextMessage, fakeCometChat } from '../testing/fakeCometChat';
+
+beforeEach(() => {
+  fakeCometChat.reset();
+  fakeCometChat.addUser({ uid: 'alice', name: 'Alice' });
+  fakeCometChat.addUser({ uid: 'bob', name: 'Bob' });
+  fakeCometChat.addUser({ uid: 'carol', name: 'Carol' });
+  fakeCometChat.setLoggedInUser('alice');
+});
+
+const texts = (messages: BaseMessage[]) => messages.map(message => (message as TextMessage).getText());
+
+test('pages through a chat from the newest messages back', async () => {
+  for (let i = 1; i <= 5; i++) {
+    fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: `m${i}`, sentAt: i });
+  }
+  fakeCometChat.seedTextMessage({ sender: 'carol', receiverId: 'alice', text: 'other chat' });
+
+  const request = new CometChat.MessagesRequestBuilder().setUID('bob').setLimit(2).build();
+
+  expect(texts(await request.fetchPrevious())).toEqual(['m4', 'm5']);
+  expect(texts(await request.fetchPrevious())).toEqual(['m2', 'm3']);
+  expect(texts(await request.fetchPrevious())).toEqual(['m1']);
+  expect(await request.fetchPrevious()).toEqual([]);
+});
+
+test('keeps replies out of the main chat and counts them on the parent', async () => {
+  const parent = fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: 'parent' });
+  fakeCometChat.seedTextMessage({
+    sender: 'alice',
+    receiverId: 'bob',
+    text: 'reply',
+    parentMessageId: parent.getId(),
+  });
+
+  const chat = new CometChat.MessagesRequestBuilder().setUID('bob').hideReplies(true).build();
+  const thread = new CometChat.MessagesRequestBuilder().setParentMessageId(parent.getId()).build();
+
+  const [loadedParent] = await chat.fetchPrevious();
+  expect(texts([loadedParent])).toEqual(['parent']);
+  expect(loadedParent.getReplyCount()).toBe(1);
+  expect(texts(await thread.fetchPrevious())).toEqual(['reply']);
+});
+
+test('lists conversations newest first with unread counts', async () => {
+  fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: 'from bob', sentAt: 1 });
+  const fromCarol = fakeCometChat.seedTextMessage({
+    sender: 'carol',
+    receiverId: 'alice',
+    text: 'from carol',
+    sentAt: 2,
+  });
+  fakeCometChat.seedTextMessage({ sender: 'carol', receiverId: 'bob', text: 'not for alice', sentAt: 3 });
+
+  await CometChat.markAsRead(fromCarol);
+  const conversations = await new CometChat.ConversationsRequestBuilder().build().fetchNext();
+
+  expect(conversations.map(item => item.getConversationWith().getName())).toEqual(['Carol', 'Bob']);
+  expect(conversations.map(item => item.getUnreadMessageCount())).toEqual([0, 1]);
+});
+
+test('delivers live messages to listeners and builds their conversation', async () => {
+  const received: BaseMessage[] = [];
+  CometChat.addMessageListener(
+    'test',
+    new CometChat.MessageListener({ onTextMessageReceived: (message: BaseMessage) => received.push(message) })
+  );
+
+  const message = fakeCometChat.receiveTextMessage({ sender: 'bob', receiverId: 'alice', text: 'hello' });
+  const conversation = await CometChat.CometChatHelper.getConversationFromMessage(message);
+
+  expect(texts(received)).toEqual(['hello']);
+  expect(conversation.getConversationWith().getName()).toBe('Bob');
+  expect(conversation.getUnreadMessageCount()).toBe(1);
+});
+
+test('sends messages as the logged in user', async () => {
+  const sent = await CometChat.sendMessage(
+    new CometChat.TextMessage('bob', 'hi bob', CometChat.RECEIVER_TYPE.USER)
+  );
+
+  expect(sent.getSender().getUid()).toBe('alice');
+  expect(sent.hasOwnProperty('sentAt')).toBe(true);
+  expect(sent.hasOwnProperty('deliveredAt')).toBe(false);
+  expect(fakeCometChat.sentMessages).toHaveLength(1);
+});
+
+test('fails the next call when told to', async () => {
+  fakeCometChat.failNext('sendMessage');
+  const message = new CometChat.TextMessage('bob', 'hi', CometChat.RECEIVER_TYPE.USER);
+
+  await expect(CometChat.sendMessage(message)).rejects.toMatchObject({ code: 'ERR_FAKE' });
+  await expect(CometChat.sendMessage(message)).resolves.toBeTruthy();
+});
+
+test('keeps reactions per user and reports them to listeners', async () => {
+  const message = fakeCometChat.seedTextMessage({ sender: 'bob', receiverId: 'alice', text: 'hi' });
+  const onMessageReactionAdded = jest.fn();
+  const onMessageReactionRemoved = jest.fn();
+  CometChat.addMessageListener('test', new CometChat.MessageListener({ onMessageReactionAdded, onMessageReactionRemoved }));
+
+  fakeCometChat.receiveReaction({ messageId: message.getId(), sender: 'bob', emoji: '👍' });
+  const reacted = await CometChat.addReaction(message.getId(), '👍');
+  const counts = reacted.getReactions().map(count => [count.getReaction(), count.getCount(), count.getReactedByMe()]);
+  const reactors = await new CometChat.ReactionsRequestBuilder().setMessageId(message.getId()).build().fetchNext();
+  const unreacted = await CometChat.removeReaction(message.getId(), '👍');
+
+  expect(counts).toEqual([['👍', 2, true]]);
+  expect(reactors.map(reaction => reaction.getReactedBy().getName())).toEqual(['Bob', 'Alice']);
+  expect(unreacted.getReactions()[0].getReactedByMe()).toBe(false);
+  expect(onMessageReactionAdded).toHaveBeenCalledTimes(2);
+  expect(onMessageReactionAdded.mock.calls[1][0].getReaction().getUid()).toBe('alice');
+  expect(onMessageReactionRemoved).toHaveBeenCalledTimes(1);
+});
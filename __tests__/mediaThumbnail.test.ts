@@ -0,0 +1,40 @@
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { getMediaThumbnail, getMediaUrl } from '../src/utils/mediaThumbnail';
+
+const media = (type: string, url?: string, metadata?: object) =>
+  ({
+    getType: () => type,
+    getAttachment: () => (url ? { getUrl: () => url } : undefined),
+    getURL: () => undefined,
+    getMetadata: () => metadata,
+  } as unknown as CometChat.MediaMessage);
+
+const generated = (attachment: object) => ({
+  '@injected': { extensions: { 'thumbnail-generation': { attachments: [attachment] } } },
+});
+
+describe('getMediaThumbnail', () => {
+  test('uses an image as its own thumbnail', () => {
+    const image = media('image', 'https://cdn.example/photo.jpg');
+    expect(getMediaUrl(image)).toBe('https://cdn.example/photo.jpg');
+    expect(getMediaThumbnail(image)).toBe('https://cdn.example/photo.jpg');
+  });
+
+  test('uses the generated thumbnail of a video', () => {
+    const video = media(
+      'video',
+      'https://cdn.example/clip.mp4',
+      generated({ data: { thumbnails: { url_small: 'https://cdn.example/clip_small.jpg' } } })
+    );
+    expect(getMediaThumbnail(video)).toBe('https://cdn.example/clip_small.jpg');
+  });
+
+  test('has no thumbnail for videos without a generated one, audio and files', () => {
+    expect(getMediaThumbnail(media('video', 'https://cdn.example/clip.mp4'))).toBeUndefined();
+    expect(
+      getMediaThumbnail(media('video', 'https://cdn.example/clip.mp4', generated({ error: { code: 'ERR' } })))
+    ).toBeUndefined();
+    expect(getMediaThumbnail(media('audio', 'https://cdn.example/song.mp3'))).toBeUndefined();
+    expect(getMediaThumbnail(media('file', 'https://cdn.example/doc.pdf'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import {
+  buildMessageRows,
+  getDateSeparatorLabel,
+  incrementReplyCount,
+  replaceMessage,
+} from '../src/utils/messageList';
+
+// Local noon on 2024-05-10, in seconds.
+const day = new Date(2024, 4, 10, 12).getTime() / 1000;
+
+const message = (id: number, uid: string, sentAt: number, category = 'message') =>
+  ({
+    getId: () => id,
+    getSentAt: () => sentAt,
+    getCategory: () => category,
+    getSender: () => ({ getUid: () => uid }),
+  } as unknown as CometChat.BaseMessage);
+
+const summarize = (messages: CometChat.BaseMessage[]) =>
+  buildMessageRows(messages, 'me').map(row =>
+    row.kind === 'date'
+      ? 'date'
+      : `${row.message.getId()}${row.outgoing ? '>' : '<'}${row.firstInGroup ? 'F' : ''}${row.lastInGroup ? 'L' : ''}`
+  );
+
+describe('buildMessageRows', () => {
+  test('groups consecutive messages from the same sender', () => {
+    expect(
+      summarize([
+        message(1, 'alice', day),
+        message(2, 'alice', day + 60),
+        message(3, 'me', day + 120),
+        message(4, 'alice', day + 180),
+      ])
+    ).toEqual(['date', '1<F', '2<L', '3>FL', '4<FL']);
+  });
+
+  test('starts a new group after a pause', () => {
+    expect(summarize([message(1, 'alice', day), message(2, 'alice', day + 10 * 60)])).toEqual([
+      'date',
+      '1<FL',
+      '2<FL',
+    ]);
+  });
+
+  test('adds a separator for each new day', () => {
+    expect(
+      summarize([message(1, 'me', day), message(2, 'me', day + 60), message(3, 'me', day + 24 * 60 * 60)])
+    ).toEqual(['date', '1>F', '2>L', 'date', '3>FL']);
+  });
+
+  test('never groups action messages', () => {
+    expect(
+      summarize([message(1, 'alice', day), message(2, 'alice', day + 1, 'action'), message(3, 'alice', day + 2)])
+    ).toEqual(['date', '1<FL', '2<FL', '3<FL']);
+  });
+});
+
+describe('getDateSeparatorLabel', () => {
+  test('names today and yesterday', () => {
+    const now = (day + 60) * 1000;
+    expect(getDateSeparatorLabel(day, now)).toBe('Today');
+    expect(getDateSeparatorLabel(day - 24 * 60 * 60, now)).toBe('Yesterday');
+    expect(getDateSeparatorLabel(day - 3 * 24 * 60 * 60, now)).not.toMatch(/Today|Yesterday/);
+  });
+});
+
+describe('replaceMessage', () => {
+  test('swaps in the message with the same id', () => {
+    const messages = [message(1, 'alice', day), message(2, 'me', day)];
+    const edited = message(2, 'me', day + 5);
+
+    expect(replaceMessage(messages, edited)).toEqual([messages[0], edited]);
+    expect(replaceMessage(messages, message(3, 'me', day))).toBe(messages);
+  });
+});
+
+describe('incrementReplyCount', () => {
+  test('counts a new reply on a copy of the parent', () => {
+    class Parent {
+      replyCount?: number;
+      getId() {
+        return 1;
+      }
+      getReplyCount() {
+        return this.replyCount;
+      }
+      setReplyCount(count: number) {
+        this.replyCount = count;
+      }
+    }
+    const parent = new Parent() as unknown as CometChat.BaseMessage;
+    const messages = [parent];
+
+    const once = incrementReplyCount(messages, 1);
+    const twice = incrementReplyCount(once, 1);
+    expect(twice[0].getReplyCount()).toBe(2);
+    expect(parent.getReplyCount()).toBeUndefined();
+    expect(incrementReplyCount(messages, 5)).toBe(messages);
+  });
+});
@@ -0,0 +1,81 @@
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import {
+  applyReceipt,
+  getMessageReceipt,
+  getMessageToMarkRead,
+  MessageReceipt,
+} from '../src/utils/messageReceipt';
+
+// Mirrors how SDK messages only get `deliveredAt`/`readAt` once set.
+class FakeMessage {
+  sentAt = 100;
+  deliveredAt?: number;
+  readAt?: number;
+  constructor(private id: number, private uid: string) {}
+  getId() {
+    return this.id;
+  }
+  getSender() {
+    return { getUid: () => this.uid };
+  }
+  getReadAt() {
+    return this.readAt;
+  }
+  setDeliveredAt(deliveredAt: number) {
+    this.deliveredAt = deliveredAt;
+  }
+  setReadAt(readAt: number) {
+    this.readAt = readAt;
+  }
+}
+
+const message = (id: number, uid: string) => {
+  const item = new FakeMessage(id, uid);
+  delete item.deliveredAt;
+  delete item.readAt;
+  return item as unknown as CometChat.BaseMessage;
+};
+
+describe('applyReceipt', () => {
+  test('marks own messages up to the receipt as delivered, then read', () => {
+    const messages = [message(1, 'me'), message(2, 'bob'), message(3, 'me'), message(4, 'me')];
+
+    const delivered = applyReceipt(messages, { type: 'delivered', messageId: 3, timestamp: 200 }, 'me');
+    expect(delivered.map(getMessageReceipt)).toEqual([
+      MessageReceipt.DELIVERED,
+      MessageReceipt.SENT,
+      MessageReceipt.DELIVERED,
+      MessageReceipt.SENT,
+    ]);
+    // The previous list is left untouched.
+    expect(getMessageReceipt(messages[0])).toBe(MessageReceipt.SENT);
+    expect(delivered[0]).toBeInstanceOf(FakeMessage);
+
+    const read = applyReceipt(delivered, { type: 'read', messageId: 4, timestamp: 300 }, 'me');
+    expect(read.map(getMessageReceipt)).toEqual([
+      MessageReceipt.READ,
+      MessageReceipt.SENT,
+      MessageReceipt.READ,
+      MessageReceipt.READ,
+    ]);
+  });
+
+  test('returns the same list when nothing changes', () => {
+    const messages = applyReceipt([message(1, 'me')], { type: 'read', messageId: 1, timestamp: 1 }, 'me');
+    expect(applyReceipt(messages, { type: 'delivered', messageId: 1, timestamp: 2 }, 'me')).toBe(messages);
+  });
+});
+
+describe('getMessageToMarkRead', () => {
+  test('picks the newest unread incoming message', () => {
+    const visible = [message(5, 'bob'), message(7, 'bob'), message(8, 'me')];
+    expect(getMessageToMarkRead(visible, 'me', 0)?.getId()).toBe(7);
+    expect(getMessageToMarkRead(visible, 'me', 7)).toBeNull();
+  });
+
+  test('skips messages that were already read', () => {
+    const read = message(9, 'bob');
+    read.setReadAt(10);
+    expect(getMessageToMarkRead([message(6, 'bob'), read], 'me', 0)?.getId()).toBe(6);
+  });
+});
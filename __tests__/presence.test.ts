@@ -0,0 +1,76 @@
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { applyPresence, formatRelativeTime, getPresenceText } from '../src/utils/presence';
+
+class FakeUser {
+  constructor(
+    private uid: string,
+    private status: string,
+    private lastActiveAt = 0,
+    private blockedByMe = false,
+    private hasBlockedMe = false
+  ) {}
+  getUid() {
+    return this.uid;
+  }
+  getStatus() {
+    return this.status;
+  }
+  setStatus(status: string) {
+    this.status = status;
+  }
+  getLastActiveAt() {
+    return this.lastActiveAt;
+  }
+  setLastActiveAt(lastActiveAt: number) {
+    this.lastActiveAt = lastActiveAt;
+  }
+  getBlockedByMe() {
+    return this.blockedByMe;
+  }
+  getHasBlockedMe() {
+    return this.hasBlockedMe;
+  }
+}
+
+const user = (...args: ConstructorParameters<typeof FakeUser>) =>
+  new FakeUser(...args) as unknown as CometChat.User;
+
+// 2024-05-10 12:00 UTC, in milliseconds.
+const now = Date.UTC(2024, 4, 10, 12);
+const secondsAgo = (seconds: number) => now / 1000 - seconds;
+
+describe('getPresenceText', () => {
+  test('shows online or when the user was last seen', () => {
+    expect(getPresenceText(user('bob', 'online'), now)).toBe('online');
+    expect(getPresenceText(user('bob', 'offline', secondsAgo(5 * 60)), now)).toBe(
+      'last seen 5 min ago'
+    );
+    expect(getPresenceText(user('bob', 'offline'), now)).toBeNull();
+  });
+
+  test('hides presence when either side blocked the other', () => {
+    expect(getPresenceText(user('bob', 'online', 0, true), now)).toBeNull();
+    expect(getPresenceText(user('bob', 'online', 0, false, true), now)).toBeNull();
+  });
+});
+
+describe('formatRelativeTime', () => {
+  test('uses the largest fitting unit', () => {
+    expect(formatRelativeTime(secondsAgo(30), now)).toBe('just now');
+    expect(formatRelativeTime(secondsAgo(2 * 60 * 60), now)).toBe('2 h ago');
+    expect(formatRelativeTime(secondsAgo(30 * 60 * 60), now)).toBe('yesterday');
+    expect(formatRelativeTime(secondsAgo(3 * 24 * 60 * 60), now)).toBe('3 days ago');
+  });
+});
+
+describe('applyPresence', () => {
+  test('takes status and last activity from the update only', () => {
+    const blocked = user('bob', 'offline', 100, true);
+    const updated = applyPresence(blocked, user('bob', 'online', 200));
+
+    expect(updated.getStatus()).toBe('online');
+    expect(updated.getLastActiveAt()).toBe(200);
+    expect(updated.getBlockedByMe()).toBe(true);
+    expect(blocked.getStatus()).toBe('offline');
+  });
+});
@@ -0,0 +1,59 @@
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { applyReactionChange, getMessageReactions } from '../src/reactions/reactions';
+
+const message = (counts: Array<[string, number, boolean]> = []) => {
+  const textMessage = new CometChat.TextMessage('me', 'hi', CometChat.RECEIVER_TYPE.USER);
+  textMessage.setReactions(counts.map(([emoji, count, byMe]) => new CometChat.ReactionCount(emoji, count, byMe)));
+  return textMessage;
+};
+
+const summaries = (reacted: CometChat.BaseMessage) =>
+  getMessageReactions(reacted).map(({ emoji, count, reactedByMe }) => [emoji, count, reactedByMe]);
+
+describe('getMessageReactions', () => {
+  test('lists reactions per emoji, most used first', () => {
+    expect(
+      getMessageReactions(
+        message([
+          ['👍', 1, false],
+          ['❤️', 2, true],
+          ['😮', 0, false],
+        ])
+      )
+    ).toEqual([
+      { emoji: '❤️', count: 2, reactedByMe: true },
+      { emoji: '👍', count: 1, reactedByMe: false },
+    ]);
+  });
+
+  test('handles messages without reactions', () => {
+    expect(getMessageReactions(message())).toEqual([]);
+  });
+});
+
+describe('applyReactionChange', () => {
+  test('adds and removes reactions without touching the original', () => {
+    const original = message([['👍', 1, false]]);
+
+    const added = applyReactionChange(original, '👍', true, true);
+    expect(summaries(added)).toEqual([['👍', 2, true]]);
+    expect(summaries(original)).toEqual([['👍', 1, false]]);
+
+    const other = applyReactionChange(added, '😂', false, true);
+    expect(summaries(other)).toEqual([
+      ['👍', 2, true],
+      ['😂', 1, false],
+    ]);
+
+    const removed = applyReactionChange(other, '👍', false, false);
+    const cleared = applyReactionChange(removed, '👍', true, false);
+    expect(summaries(cleared)).toEqual([['😂', 1, false]]);
+  });
+
+  test("counts the user's own reaction only once", () => {
+    const reacted = applyReactionChange(message(), '👍', true, true);
+
+    expect(applyReactionChange(reacted, '👍', true, true)).toBe(reacted);
+    expect(applyReactionChange(message(), '👍', true, false)).toEqual(message());
+  });
+});
@@ -1,5 +1,6 @@
 package com.cometchatapp
 
+import android.os.Bundle
 import com.facebook.react.ReactActivity
 import com.facebook.react.ReactActivityDelegate
 import com.facebook.react.defaults.DefaultNewArchitectureEntryPoint.fabricEnabled
@@ -13,6 +14,14 @@ class MainActivity : ReactActivity() {
    */
   override fun getMainComponentName(): String = "CometChatApp"
 
+  /**
+   * react-native-screens restores its own fragments, so the saved instance state must not be
+   * handed to the activity, otherwise the app crashes when Android recreates it.
+   */
+  override fun onCreate(savedInstanceState: Bundle?) {
+    super.onCreate(null)
+  }
+
   /**
    * Returns the instance of the [ReactActivityDelegate]. We use [DefaultReactActivityDelegate]
    * which allows you to enable New Architecture with a single boolean flags [fabricEnabled]
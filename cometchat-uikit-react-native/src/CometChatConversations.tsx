@@ -11,13 +11,23 @@
  */
 import { CometChat } from "@cometchat/chat-sdk-react-native";
 import React, { useCallback, useMemo } from "react";
-import { Text, View, GestureResponderEvent } from "react-native";
+import {
+  ActivityIndicator,
+  FlatList,
+  GestureResponderEvent,
+  SectionList,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import {
   ChatConfigurator,
   CometChatAvatar,
   CometChatConversationEvents,
   CometChatList,
   CometChatListActionsInterface,
+  CometChatListItem,
   CometChatMentionsFormatter,
   CometChatSoundManager,
   CometChatStatusIndicator,
@@ -56,6 +66,36 @@ import { DeepPartial } from "../shared/helper/types";
 import { CometChatTheme } from "../theme/type";
 import { MenuItemInterface } from "../shared/views/CometChatTooltipMenu/CometChatTooltipMenu";
 import { JSX } from "react";
+import { useChatClient } from "../../src/chat/ChatClientProvider";
+import { HighlightedText } from "../../src/components/HighlightedText";
+import {
+  ConversationPinStore,
+  movePinUp,
+  pinConversation,
+  unpinConversation,
+} from "../../src/conversations/ConversationPins";
+import {
+  ConversationMutes,
+  ConversationMuteStore,
+  getNextMuteExpiry,
+  isConversationMuted,
+  muteConversation,
+  muteDurations,
+  removeExpiredMutes,
+  unmuteConversation,
+} from "../../src/conversations/ConversationMutes";
+import {
+  ArchivePolicy,
+  archiveConversation,
+  ConversationArchiveStore,
+  shouldUnarchiveOnMessage,
+  unarchiveConversation,
+} from "../../src/conversations/ConversationArchive";
+import { useConnectionStatus } from "../../src/hooks/useConnectionStatus";
+import { useDebouncedValue } from "../../src/hooks/useDebouncedValue";
+import { ConversationRef, toConversationRef } from "../../src/conversations/ConversationRef";
+import { KeyValueStorage } from "../../src/storage/KeyValueStorage";
+import { getConversationSearchSections } from "../../src/utils/conversationSearch";
 
 // Unique listener IDs for conversation, user, group, message and call events.
 const conversationListenerId = "chatlist_" + new Date().getTime();
@@ -64,6 +104,9 @@ const groupListenerId = "chatlist_group_" + new Date().getTime();
 const messageListenerId = "chatlist_message_" + new Date().getTime();
 const callListenerId = "call_" + new Date().getTime();
 
+// How long typing has to pause before the server is searched, in milliseconds.
+const searchDebounce = 300;
+
 /**
  * Interface defining props for the CometChatConversations component.
  */
@@ -219,6 +262,65 @@ export interface ConversationInterface {
    * Toggle delete conversation option  visibilty.
    */
   deleteConversationOptionVisibility?: boolean;
+  /**
+   * Show a search bar above the list. Typing filters the loaded conversations
+   * by name right away and, once typing pauses, searches the server for
+   * conversations that aren't loaded yet. The server search uses the default
+   * request builder with a search keyword, not `conversationsRequestBuilder`.
+   */
+  showSearch?: boolean;
+  /**
+   * Placeholder text of the search bar.
+   */
+  searchPlaceholderText?: string;
+  /**
+   * The pinned conversations, the first one on top. Pinned conversations stay
+   * in a section above the rest in this order, whatever messages arrive. When
+   * set, the app owns the pins: the menu only reports changes through
+   * `onPinChange` and `pinStorage` isn't used.
+   */
+  pinned?: ConversationRef[];
+  /**
+   * Called with the new pinned conversations when the user pins, unpins or
+   * moves up a conversation.
+   */
+  onPinChange?: (pinned: ConversationRef[]) => void;
+  /**
+   * Storage for the pins of each logged in user, e.g. AsyncStorage. Without
+   * it, pins only last as long as the component.
+   */
+  pinStorage?: KeyValueStorage;
+  /**
+   * Toggle the pin, unpin and move up options.
+   */
+  pinOptionVisibility?: boolean;
+  /**
+   * Storage for the mutes of each logged in user, e.g. AsyncStorage. Without
+   * it, mutes only last as long as the component.
+   */
+  muteStorage?: KeyValueStorage;
+  /**
+   * Toggle the mute and unmute options. Muted conversations show a muted
+   * icon and a grey unread badge, and their messages play no sound, until
+   * the chosen duration ends.
+   */
+  muteOptionVisibility?: boolean;
+  /**
+   * Storage for the archived conversations of each logged in user, e.g.
+   * AsyncStorage. Without it, the archive only lasts as long as the component.
+   */
+  archiveStorage?: KeyValueStorage;
+  /**
+   * Toggle the archive option. Archived conversations leave the list for an
+   * "Archived (n)" row at the top, which opens them.
+   */
+  archiveOptionVisibility?: boolean;
+  /**
+   * Whether a new incoming message moves an archived conversation back to the
+   * list always, or only when the conversation isn't muted.
+   * @default "unarchiveOnMessage"
+   */
+  archivePolicy?: ArchivePolicy;
 }
 
 /**
@@ -261,8 +363,20 @@ export const CometChatConversations = (props: ConversationInterface) => {
     usersStatusVisibility = true,
     groupTypeVisibility = true,
     deleteConversationOptionVisibility = true,
+    showSearch = false,
+    searchPlaceholderText,
+    pinned,
+    onPinChange,
+    pinStorage,
+    pinOptionVisibility = true,
+    muteStorage,
+    muteOptionVisibility = true,
+    archiveStorage,
+    archiveOptionVisibility = true,
+    archivePolicy = "unarchiveOnMessage",
   } = props;
 
+  const chatClient = useChatClient();
   // Reference for accessing CometChatList methods
   const conversationListRef = React.useRef<CometChatListActionsInterface>(null);
   // Store the logged in user for comparison and event handling.
@@ -289,6 +403,72 @@ export const CometChatConversations = (props: ConversationInterface) => {
   });
   const [tooltipVisible, setTooltipVisible] = React.useState(false);
 
+  // Search bar text, and the server results for its debounced keyword.
+  const [searchQuery, setSearchQuery] = React.useState("");
+  const searchKeyword = useDebouncedValue(searchQuery.trim(), searchDebounce);
+  const [searchResults, setSearchResults] = React.useState<CometChat.Conversation[]>([]);
+  const [searchingServer, setSearchingServer] = React.useState(false);
+  // The list's conversations as of the last keystroke; the loaded results are
+  // filtered from them.
+  const [loadedConversations, setLoadedConversations] = React.useState<CometChat.Conversation[]>([]);
+  // Archived conversations, latest first, their ids, and the archived
+  // conversations themselves, which are kept out of the list. The refs serve
+  // the SDK listeners, like the pins, and are updated as soon as the archive
+  // changes.
+  const [archiveEntries, setArchiveEntries] = React.useState<ConversationRef[]>([]);
+  const archiveEntriesRef = React.useRef(archiveEntries);
+  archiveEntriesRef.current = archiveEntries;
+  const archivedIds = archiveEntries.map((entry) => entry.conversationId);
+  const archivedRef = React.useRef(archivedIds);
+  archivedRef.current = archivedIds;
+  const [archivedConversations, setArchivedConversations] = React.useState<
+    Record<string, CometChat.Conversation>
+  >({});
+  const archivedConversationsRef = React.useRef(archivedConversations);
+  archivedConversationsRef.current = archivedConversations;
+  const archiveStore = useMemo(
+    () => (archiveStorage ? new ConversationArchiveStore(archiveStorage) : null),
+    [archiveStorage]
+  );
+  // Archived conversations already requested because they weren't loaded.
+  const requestedArchived = React.useRef(new Set<string>());
+  const [showArchived, setShowArchived] = React.useState(false);
+
+  const searching = showSearch && !showArchived && searchQuery.trim() !== "";
+
+  // Pinned conversations and their ids, first on top. The refs serve the SDK
+  // listeners, which are registered once.
+  const [storedPins, setStoredPins] = React.useState<ConversationRef[]>([]);
+  const pins = pinned ?? storedPins;
+  const pinsRef = React.useRef(pins);
+  pinsRef.current = pins;
+  const pinnedIds = pins.map((pin) => pin.conversationId);
+  const pinnedRef = React.useRef(pinnedIds);
+  pinnedRef.current = pinnedIds;
+  // Ids of the pinned conversations in the list, which open the pinned
+  // section, in order.
+  const [listedPinIds, setListedPinIds] = React.useState<string[]>([]);
+  const pinStore = useMemo(
+    () => (pinStorage ? new ConversationPinStore(pinStorage) : null),
+    [pinStorage]
+  );
+  // Pinned conversations already requested because they weren't loaded, which
+  // is only done once the first page is in.
+  const requestedPins = React.useRef(new Set<string>());
+  const listFetched = React.useRef(false);
+
+  // When each muted conversation's mute ends. The ref serves the SDK
+  // listeners, like the pins.
+  const [mutes, setMutes] = React.useState<ConversationMutes>({});
+  const mutesRef = React.useRef(mutes);
+  mutesRef.current = mutes;
+  const muteStore = useMemo(
+    () => (muteStorage ? new ConversationMuteStore(muteStorage) : null),
+    [muteStorage]
+  );
+  // Whether the tooltip shows the conversation menu or the mute durations.
+  const [tooltipMenu, setTooltipMenu] = React.useState<"main" | "mute">("main");
+
   // Merge theme styles with provided style overrides.
   const theme = useTheme();
   const mergedStyles = useMemo(() => {
@@ -422,7 +602,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
    * @param newMessage - The new message object.
    */
   const checkAndUpdateLastMessage = (newMessage: CometChat.BaseMessage) => {
-    CometChat.CometChatHelper.getConversationFromMessage(newMessage).then(
+    chatClient.getConversationFromMessage(newMessage).then(
       (conversation: CometChat.Conversation) => {
         let conver: CometChat.Conversation = conversationListRef.current!.getListItem(
           conversation.getConversationId()
@@ -488,24 +668,28 @@ export const CometChatConversations = (props: ConversationInterface) => {
    * @param newMessage - The new message to update.
    */
   const updateLastMessage = (newMessage: CometChat.BaseMessage) => {
-    CometChat.CometChatHelper.getConversationFromMessage(newMessage)
+    chatClient.getConversationFromMessage(newMessage)
       .then((conversation) => {
         if (newMessage.getCategory() === MessageCategoryConstants.interactive) {
           // TODO: Show unsupported message view.
         }
+        if (archivedRef.current.includes(conversation.getConversationId())) {
+          updateArchivedConversation(conversation, newMessage);
+          return;
+        }
         const oldConversation: CometChat.Conversation = conversationListRef.current!.getListItem(
           conversation.getConversationId()
         );
         if (oldConversation == undefined) {
           // If conversation not found, add it.
-          CometChat.CometChatHelper.getConversationFromMessage(newMessage)
+          chatClient.getConversationFromMessage(newMessage)
             .then((newConversation) => {
               if (
                 newConversation?.getLastMessage().getSender().getUid() !==
                 loggedInUser.current?.getUid()
               )
                 newConversation.setUnreadMessageCount(1);
-              conversationListRef.current!.addItemToList(newConversation, 0);
+              addToTop(newConversation);
             })
             .catch((err) => onError && onError(err));
           return;
@@ -514,7 +698,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
         oldConversation.setLastMessage(newMessage);
         if (newMessage.getSender().getUid() != loggedInUser.current?.getUid())
           oldConversation.setUnreadMessageCount(oldConversation.getUnreadMessageCount() + 1);
-        conversationListRef.current!.updateAndMoveToFirst(CommonUtils.clone(oldConversation));
+        moveToTop(CommonUtils.clone(oldConversation));
       })
       .catch((err) => {
         console.log("Error", err);
@@ -524,13 +708,19 @@ export const CometChatConversations = (props: ConversationInterface) => {
   /**
    * Plays the notification sound for incoming messages.
    */
-  const playNotificationSound = () => {
-    if (disableSoundForMessages) return;
+  const playNotificationSound = (message: CometChat.BaseMessage) => {
+    if (disableSoundForMessages || isMessageMuted(message)) return;
     CometChatSoundManager.play(
       customSoundForMessages || CometChatSoundManager.SoundOutput.incomingMessageFromOther
     );
   };
 
+  /**
+   * Whether the message belongs to a conversation that is muted right now.
+   */
+  const isMessageMuted = (message: CometChat.BaseMessage) =>
+    isConversationMuted(mutesRef.current, message.getConversationId());
+
   /**
    * Determines if a message should be marked as delivered.
    * @param message - The message object.
@@ -548,8 +738,8 @@ export const CometChatConversations = (props: ConversationInterface) => {
     if (message.hasOwnProperty("deletedAt")) return;
 
     if (shouldMarkAsDelivered(message)) {
-      CometChat.markAsDelivered(message);
-      playNotificationSound();
+      chatClient.markAsDelivered(message);
+      playNotificationSound(message);
     }
   };
 
@@ -657,14 +847,14 @@ export const CometChatConversations = (props: ConversationInterface) => {
         conversationListRef.current!.updateList(conversation);
       }
     } else {
-      CometChat.CometChatHelper.getConversationFromMessage(message).then((newConversation) => {
+      chatClient.getConversationFromMessage(message).then((newConversation) => {
         const conversation: CometChat.Conversation = conversationListRef.current!.getListItem(
           message.getConversationId()
         ) as unknown as CometChat.Conversation;
         if (conversation) {
           groupHandler(message);
         } else {
-          conversationListRef.current!.addItemToList(newConversation, 0);
+          addToTop(newConversation);
         }
       });
     }
@@ -727,7 +917,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
     const { conversationWith, conversationType } = conversation;
     let conversationWithId =
       conversationType == "group" ? conversationWith.guid : conversationWith.uid;
-    CometChat.deleteConversation(conversationWithId, conversationType)
+    chatClient.deleteConversation(conversationWithId, conversationType)
       .then((success) => {
         CometChatUIEventHandler.emitConversationEvent(
           CometChatConversationEvents.ccConversationDeleted,
@@ -735,10 +925,372 @@ export const CometChatConversations = (props: ConversationInterface) => {
         );
         conversationListRef.current!.removeItemFromList(id);
         removeItemFromSelectionList(id);
+        if (pinnedRef.current.includes(id)) updatePins(unpinConversation(pinsRef.current, id));
       })
       .catch((err) => console.log(err));
   };
 
+  /**
+   * Number of pinned conversations in the list. They are its first rows.
+   */
+  const getPinnedCount = () =>
+    pinnedRef.current.filter((id) => conversationListRef.current?.getListItem(id)).length;
+
+  /**
+   * Finds a conversation in the list. The list only returns what it has
+   * rendered, so conversations it was just given are passed as `pending`.
+   */
+  const findListed = (
+    id: string,
+    pending: CometChat.Conversation[] = []
+  ): CometChat.Conversation | undefined =>
+    pending.find((conversation) => conversation.getConversationId() === id) ??
+    conversationListRef.current?.getListItem(id);
+
+  /**
+   * Moves an updated conversation above the other unpinned ones. Pinned
+   * conversations keep their place among the pinned ones.
+   * @param conversation - The updated conversation, already in the list.
+   */
+  const moveToTop = (conversation: CometChat.Conversation) => {
+    conversationListRef.current!.removeItemFromList(conversation.getConversationId());
+    conversationListRef.current!.addItemToList(conversation, 0);
+    arrangePinned([conversation]);
+  };
+
+  /**
+   * Adds a conversation that isn't listed yet above the unpinned ones, or
+   * into its place among the pinned ones.
+   */
+  const addToTop = (conversation: CometChat.Conversation) => {
+    conversationListRef.current!.addItemToList(conversation, 0);
+    arrangePinned([conversation]);
+  };
+
+  const fetchConversation = (ref: ConversationRef) =>
+    chatClient.getConversation(ref.conversationWith, ref.conversationType);
+
+  /**
+   * Puts the listed pinned conversations first, in pin order, and fetches
+   * pinned ones that aren't among the loaded pages. Archived ones stay out.
+   * @param pending - Conversations just given to the list.
+   */
+  const arrangePinned = (pending: CometChat.Conversation[] = []) => {
+    const listedPins = pinsRef.current.filter(
+      (pin) => !archivedRef.current.includes(pin.conversationId)
+    );
+    const listed = listedPins.flatMap((pin) => {
+      const conversation = findListed(pin.conversationId, pending);
+      return conversation ? [conversation] : [];
+    });
+    // The list can only add at the top, so the pins are moved there last one first.
+    [...listed].reverse().forEach((conversation) => {
+      conversationListRef.current!.removeItemFromList(conversation.getConversationId());
+      conversationListRef.current!.addItemToList(conversation, 0);
+    });
+    setListedPinIds(listed.map((conversation) => conversation.getConversationId()));
+
+    if (!loggedInUser.current || !listFetched.current) return;
+    listedPins.forEach((pin) => {
+      const id = pin.conversationId;
+      if (findListed(id, pending) || requestedPins.current.has(id)) return;
+      requestedPins.current.add(id);
+      fetchConversation(pin)
+        .then((conversation) => {
+          if (pinnedRef.current.includes(id) && !conversationListRef.current?.getListItem(id)) {
+            addToTop(conversation);
+          }
+        })
+        .catch((err) => console.log(err));
+    });
+  };
+
+  /**
+   * Moves an unpinned conversation back to its place by last message time.
+   */
+  const placeByRecency = (conversation: CometChat.Conversation) => {
+    const id = conversation.getConversationId();
+    const sentAt = (item: CometChat.Conversation) => item.getLastMessage()?.getSentAt() ?? 0;
+    const items: CometChat.Conversation[] = conversationListRef.current!
+      .getAllListItems()
+      .filter((item: CometChat.Conversation) => item.getConversationId() !== id);
+    let index = getPinnedCount();
+    while (index < items.length && sentAt(items[index]) >= sentAt(conversation)) index++;
+    // The list can only add at the top, so the conversations above it are
+    // taken out and put back over it.
+    const above = items.slice(0, index);
+    [...above, conversation].forEach((item) =>
+      conversationListRef.current!.removeItemFromList(item.getConversationId())
+    );
+    [conversation, ...[...above].reverse()].forEach((item) =>
+      conversationListRef.current!.addItemToList(item, 0)
+    );
+  };
+
+  /**
+   * Keeps the archived conversations and stores them for the logged in user.
+   */
+  const updateArchive = (nextArchived: ConversationRef[]) => {
+    archiveEntriesRef.current = nextArchived;
+    archivedRef.current = nextArchived.map((entry) => entry.conversationId);
+    setArchiveEntries(nextArchived);
+    const uid = loggedInUser.current?.getUid();
+    if (uid && archiveStore) {
+      archiveStore
+        .set(uid, nextArchived)
+        .catch((error) => console.log("Archive write error:", error));
+    }
+  };
+
+  /**
+   * Keeps archived conversations, replacing older copies of them.
+   */
+  const stashArchived = (conversations: CometChat.Conversation[]) => {
+    if (conversations.length === 0) return;
+    const next = { ...archivedConversationsRef.current };
+    conversations.forEach((conversation) => {
+      next[conversation.getConversationId()] = conversation;
+    });
+    archivedConversationsRef.current = next;
+    setArchivedConversations(next);
+  };
+
+  /**
+   * Moves archived conversations that are listed out of the list.
+   * @param pending - Conversations just given to the list.
+   */
+  const removeArchivedFromList = (pending: CometChat.Conversation[] = []) => {
+    const listed = archivedRef.current.flatMap((id) => {
+      const conversation = findListed(id, pending);
+      return conversation ? [conversation] : [];
+    });
+    listed.forEach((conversation) =>
+      conversationListRef.current!.removeItemFromList(conversation.getConversationId())
+    );
+    stashArchived(listed);
+  };
+
+  /**
+   * Fetches archived conversations that weren't among the loaded pages.
+   */
+  const fetchArchived = () => {
+    archiveEntriesRef.current.forEach((entry) => {
+      const id = entry.conversationId;
+      if (archivedConversationsRef.current[id] || requestedArchived.current.has(id)) return;
+      requestedArchived.current.add(id);
+      fetchConversation(entry)
+        .then((conversation) => {
+          if (archivedRef.current.includes(id) && !archivedConversationsRef.current[id]) {
+            stashArchived([conversation]);
+          }
+        })
+        .catch((err) => console.log(err));
+    });
+  };
+
+  /**
+   * Moves a conversation from the list to the archive. Pinned conversations
+   * are unpinned.
+   */
+  const archive = (conversation: CometChat.Conversation) => {
+    const id = conversation.getConversationId();
+    if (pinnedRef.current.includes(id)) updatePins(unpinConversation(pinsRef.current, id));
+    updateArchive(archiveConversation(archiveEntriesRef.current, toConversationRef(conversation)));
+    conversationListRef.current!.removeItemFromList(id);
+    stashArchived([conversation]);
+  };
+
+  /**
+   * Moves an archived conversation back to its place in the list.
+   */
+  const unarchive = (conversation: CometChat.Conversation) => {
+    const id = conversation.getConversationId();
+    updateArchive(unarchiveConversation(archiveEntriesRef.current, id));
+    const { [id]: _unarchived, ...stillArchived } = archivedConversationsRef.current;
+    archivedConversationsRef.current = stillArchived;
+    setArchivedConversations(stillArchived);
+    placeByRecency(conversation);
+  };
+
+  /**
+   * Applies a new message to an archived conversation, and moves the
+   * conversation back to the list when the archive policy says so.
+   */
+  const updateArchivedConversation = (
+    conversation: CometChat.Conversation,
+    newMessage: CometChat.BaseMessage
+  ) => {
+    const id = conversation.getConversationId();
+    const updated: CometChat.Conversation = CommonUtils.clone(
+      archivedConversationsRef.current[id] ?? conversation
+    );
+    updated.setLastMessage(newMessage);
+    const incoming = newMessage.getSender().getUid() != loggedInUser.current?.getUid();
+    if (incoming) updated.setUnreadMessageCount(updated.getUnreadMessageCount() + 1);
+    if (
+      incoming &&
+      shouldUnarchiveOnMessage(archivePolicy, isConversationMuted(mutesRef.current, id))
+    ) {
+      unarchive(updated);
+      return;
+    }
+    stashArchived([updated]);
+  };
+
+  /**
+   * Applies a pin change: stored and kept here unless the app controls the
+   * pins, and always reported through `onPinChange`.
+   */
+  const updatePins = (nextPins: ConversationRef[]) => {
+    if (pinned === undefined) {
+      setStoredPins(nextPins);
+      const uid = loggedInUser.current?.getUid();
+      if (uid && pinStore) {
+        pinStore.set(uid, nextPins).catch((error) => console.log("Pin write error:", error));
+      }
+    }
+    onPinChange?.(nextPins);
+  };
+
+  /**
+   * Keeps the mutes and stores them for the logged in user.
+   */
+  const updateMutes = (nextMutes: ConversationMutes) => {
+    setMutes(nextMutes);
+    const uid = loggedInUser.current?.getUid();
+    if (uid && muteStore) {
+      muteStore.set(uid, nextMutes).catch((error) => console.log("Mute write error:", error));
+    }
+  };
+
+  /**
+   * Unmute for muted conversations, otherwise Mute, which opens the durations.
+   */
+  const getMuteOptions = (conversation: CometChat.Conversation): MenuItemInterface[] => {
+    if (!conversation) return [];
+    const id = conversation.getConversationId();
+    const iconProps = { size: theme.spacing.spacing.s6, color: theme.color.textPrimary };
+    if (isConversationMuted(mutes, id)) {
+      return [
+        {
+          text: "Unmute",
+          onPress: () => {
+            setTooltipVisible(false);
+            updateMutes(unmuteConversation(mutes, id));
+          },
+          icon: <Icon name='notifications' {...iconProps} />,
+        },
+      ];
+    }
+    return [
+      {
+        text: "Mute",
+        onPress: () => setTooltipMenu("mute"),
+        icon: <Icon name='notifications-off' {...iconProps} />,
+      },
+    ];
+  };
+
+  /**
+   * The mute durations, shown in place of the menu after choosing Mute.
+   */
+  const getMuteDurationOptions = (conversation: CometChat.Conversation): MenuItemInterface[] =>
+    muteDurations.map(({ label, duration }) => ({
+      text: label,
+      onPress: () => {
+        setTooltipVisible(false);
+        updateMutes(muteConversation(mutes, conversation.getConversationId(), duration));
+      },
+    }));
+
+  /**
+   * Archive for listed conversations, Unarchive for archived ones.
+   */
+  const getArchiveOptions = (conversation: CometChat.Conversation): MenuItemInterface[] => {
+    if (!conversation) return [];
+    const iconProps = { size: theme.spacing.spacing.s6, color: theme.color.textPrimary };
+    if (archivedIds.includes(conversation.getConversationId())) {
+      return [
+        {
+          text: "Unarchive",
+          onPress: () => {
+            setTooltipVisible(false);
+            unarchive(conversation);
+          },
+          icon: <Icon name='upload' {...iconProps} />,
+        },
+      ];
+    }
+    return [
+      {
+        text: "Archive",
+        onPress: () => {
+          setTooltipVisible(false);
+          archive(conversation);
+        },
+        icon: <Icon name='archive' {...iconProps} />,
+      },
+    ];
+  };
+
+  /**
+   * Opens the conversation menu where the conversation was long pressed.
+   */
+  const openConversationMenu = (conversation: CometChat.Conversation, e: GestureResponderEvent) => {
+    longPressId.current = conversation.getConversationId();
+    longPressedConversation.current = conversation;
+    tooltipPositon.current = {
+      pageX: e.nativeEvent.pageX,
+      pageY: e.nativeEvent.pageY,
+    };
+    setTooltipMenu("main");
+    setTooltipVisible(true);
+  };
+
+  /**
+   * Pin or unpin, and move up for pinned conversations below the first.
+   */
+  const getPinOptions = (conversation: CometChat.Conversation): MenuItemInterface[] => {
+    if (!conversation) return [];
+    const id = conversation.getConversationId();
+    const index = pinnedIds.indexOf(id);
+    const iconProps = { size: theme.spacing.spacing.s6, color: theme.color.textPrimary };
+    if (index < 0) {
+      return [
+        {
+          text: "Pin",
+          onPress: () => {
+            setTooltipVisible(false);
+            updatePins(pinConversation(pins, toConversationRef(conversation)));
+          },
+          icon: <Icon name='keep' {...iconProps} />,
+        },
+      ];
+    }
+    return [
+      {
+        text: "Unpin",
+        onPress: () => {
+          setTooltipVisible(false);
+          updatePins(unpinConversation(pins, id));
+        },
+        icon: <Icon name='keep-off' {...iconProps} />,
+      },
+      ...(index > 0
+        ? [
+            {
+              text: "Move up",
+              onPress: () => {
+                setTooltipVisible(false);
+                updatePins(movePinUp(pins, id));
+              },
+              icon: <Icon name='keyboard-arrow-up' {...iconProps} />,
+            },
+          ]
+        : []),
+    ];
+  };
+
   /**
    * Returns a formatted preview for the last message in a conversation.
    * @param conversations - The conversation object.
@@ -941,6 +1493,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
       const customPattern = () => datePattern?.(conversation);
       const timestamp = conversation.getLastMessage()?.getSentAt();
       if (!timestamp) return <></>;
+      const muted = isConversationMuted(mutesRef.current, conversation.getConversationId());
       return (
         <View
           style={[
@@ -948,16 +1501,38 @@ export const CometChatConversations = (props: ConversationInterface) => {
             mergedStyles.itemStyle.trailingViewContainerStyle,
           ]}
         >
+          {pinnedRef.current.includes(conversation.getConversationId()) && (
+            <Icon
+              name='keep-fill'
+              size={theme.spacing.spacing.s4}
+              color={mergedStyles.itemStyle.subtitleStyle.color}
+            />
+          )}
           <CometChatDate
             timeStamp={timestamp * 1000}
             customDateString={customPattern && customPattern()}
             pattern={"dayWeekDayDateTimeFormat"}
             style={mergedStyles?.itemStyle?.dateStyle}
           />
-          <CometChatBadge
-            count={conversation.getUnreadMessageCount()}
-            style={mergedStyles?.itemStyle?.badgeStyle}
-          />
+          <View style={[Style.row, { gap: 4, alignItems: "center" }]}>
+            {muted && (
+              <Icon
+                name='notifications-off-fill'
+                size={theme.spacing.spacing.s4}
+                color={mergedStyles.itemStyle.subtitleStyle.color}
+              />
+            )}
+            <CometChatBadge
+              count={conversation.getUnreadMessageCount()}
+              style={
+                muted
+                  ? deepMerge(mergedStyles?.itemStyle?.badgeStyle ?? {}, {
+                      containerStyle: { backgroundColor: theme.color.neutral500 },
+                    })
+                  : mergedStyles?.itemStyle?.badgeStyle
+              }
+            />
+          </View>
         </View>
       );
     },
@@ -981,16 +1556,16 @@ export const CometChatConversations = (props: ConversationInterface) => {
         conversation = CommonUtils.clone(conversation);
         conversation.setLastMessage(message);
         conversation.setConversationWith(group);
-        conversationListRef.current?.updateAndMoveToFirst(conversation);
+        moveToTop(conversation);
       } else {
-        CometChat.CometChatHelper.getConversationFromMessage(message)
+        chatClient.getConversationFromMessage(message)
           .then((newConversation) => {
             if (
               newConversation?.getLastMessage().getSender().getUid() !==
               loggedInUser.current?.getUid()
             )
               newConversation.setUnreadMessageCount(1);
-            conversationListRef.current!.addItemToList(newConversation, 0);
+            addToTop(newConversation);
           })
           .catch((err) => onError && onError(err));
       }
@@ -1019,166 +1594,171 @@ export const CometChatConversations = (props: ConversationInterface) => {
   // Set up event listeners for user, call, group and message events.
   React.useEffect(() => {
     // Get logged in user.
-    CometChat.getLoggedinUser()
+    chatClient.getLoggedInUser()
       .then((u) => {
         loggedInUser.current = u!;
+        if (pinned === undefined && pinStore) {
+          pinStore
+            .get(u!.getUid())
+            .then(setStoredPins)
+            .catch((error) => console.log("Pin read error:", error));
+        }
+        muteStore
+          ?.get(u!.getUid())
+          .then((storedMutes) => setMutes(removeExpiredMutes(storedMutes)))
+          .catch((error) => console.log("Mute read error:", error));
+        archiveStore
+          ?.get(u!.getUid())
+          .then(setArchiveEntries)
+          .catch((error) => console.log("Archive read error:", error));
       })
       .catch((err) => console.log(err));
 
     // Listen for user online/offline changes.
-    CometChat.addUserListener(
-      userListenerId,
-      new CometChat.UserListener({
-        onUserOnline: (onlineUser: any) => {
-          userEventHandler(onlineUser);
-        },
-        onUserOffline: (offlineUser: any) => {
-          userEventHandler(offlineUser);
-        },
-      })
-    );
+    chatClient.addUserListener(userListenerId, {
+      onUserOnline: (onlineUser: any) => {
+        userEventHandler(onlineUser);
+      },
+      onUserOffline: (offlineUser: any) => {
+        userEventHandler(offlineUser);
+      },
+    });
 
     // Listen for call events.
-    CometChat.addCallListener(
-      callListenerId,
-      new CometChat.CallListener({
-        onIncomingCallReceived: (call: CometChat.Call) => {
-          CometChat.CometChatHelper.getConversationFromMessage(call)
-            .then((conversation) => {
-              if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
-                return;
-              }
-              conversation = updateUnreadMessageCount(conversation);
-              conversation.setLastMessage(call);
-              conversationListRef.current!.updateList(conversation);
-            })
-            .catch((e) => {
-              onError && onError(e);
-            });
-        },
-        onOutgoingCallAccepted: (call: any) => {
-          CometChat.CometChatHelper.getConversationFromMessage(call)
-            .then((conversation) => {
-              if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
-                return;
-              }
-              conversation = updateUnreadMessageCount(conversation);
-              conversation.setLastMessage(call);
-              conversationListRef.current!.updateList(conversation);
-            })
-            .catch((e) => {
-              onError && onError(e);
-            });
-        },
-        onOutgoingCallRejected: (call: any) => {
-          CometChat.CometChatHelper.getConversationFromMessage(call)
-            .then((conversation) => {
-              if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
-                return;
-              }
-              conversation = updateUnreadMessageCount(conversation);
-              conversation.setLastMessage(call);
-              conversationListRef.current!.updateList(conversation);
-            })
-            .catch((e) => {
-              onError && onError(e);
-            });
-        },
-        onIncomingCallCancelled: (call: any) => {
-          CometChat.CometChatHelper.getConversationFromMessage(call)
-            .then((conversation) => {
-              if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
-                return;
-              }
-              conversation = updateUnreadMessageCount(conversation);
-              conversation.setLastMessage(call);
-              conversationListRef.current!.updateList(conversation);
-            })
-            .catch((e) => {
-              onError && onError(e);
-            });
-        },
-      })
-    );
-
-    // Listen for group events.
-    CometChat.addGroupListener(
-      groupListenerId,
-      new CometChat.GroupListener({
-        onGroupMemberScopeChanged: (
-          message: CometChat.Action,
-          changedUser: CometChat.GroupMember,
-          newScope: CometChat.GroupMemberScope,
-          oldScope: CometChat.GroupMemberScope,
-          changedGroup: CometChat.Group
-        ) => {
-          groupHandler(message, {
-            action: "scopeChange",
-            actionOn: changedUser,
-            newScope: newScope,
-            oldScope: oldScope,
-            group: changedGroup,
+    chatClient.addCallListener(callListenerId, {
+      onIncomingCallReceived: (call: CometChat.Call) => {
+        chatClient.getConversationFromMessage(call)
+          .then((conversation) => {
+            if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
+              return;
+            }
+            conversation = updateUnreadMessageCount(conversation);
+            conversation.setLastMessage(call);
+            conversationListRef.current!.updateList(conversation);
+          })
+          .catch((e) => {
+            onError && onError(e);
           });
-        },
-        onGroupMemberKicked: (
-          message: CometChat.Action,
-          kickedUser: CometChat.User,
-          kickedBy: CometChat.User,
-          kickedFrom: CometChat.Group
-        ) => {
-          groupHandler(message, {
-            action: "kicked",
-            actionOn: kickedUser,
-            actionBy: kickedBy,
-            group: kickedFrom,
+      },
+      onOutgoingCallAccepted: (call: any) => {
+        chatClient.getConversationFromMessage(call)
+          .then((conversation) => {
+            if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
+              return;
+            }
+            conversation = updateUnreadMessageCount(conversation);
+            conversation.setLastMessage(call);
+            conversationListRef.current!.updateList(conversation);
+          })
+          .catch((e) => {
+            onError && onError(e);
           });
-        },
-        onGroupMemberLeft: (
-          message: CometChat.Action,
-          leavingUser: CometChat.User,
-          group: CometChat.Group
-        ) => {
-          groupHandler(message, { action: "left", actionOn: leavingUser, group });
-        },
-        onGroupMemberUnbanned: (message: CometChat.Action) => {
-          groupHandler(message);
-        },
-        onGroupMemberBanned: (
-          message: CometChat.Action,
-          bannedUser: CometChat.User,
-          bannedBy: CometChat.User,
-          bannedFrom: CometChat.Group
-        ) => {
+      },
+      onOutgoingCallRejected: (call: any) => {
+        chatClient.getConversationFromMessage(call)
+          .then((conversation) => {
+            if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
+              return;
+            }
+            conversation = updateUnreadMessageCount(conversation);
+            conversation.setLastMessage(call);
+            conversationListRef.current!.updateList(conversation);
+          })
+          .catch((e) => {
+            onError && onError(e);
+          });
+      },
+      onIncomingCallCancelled: (call: any) => {
+        chatClient.getConversationFromMessage(call)
+          .then((conversation) => {
+            if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
+              return;
+            }
+            conversation = updateUnreadMessageCount(conversation);
+            conversation.setLastMessage(call);
+            conversationListRef.current!.updateList(conversation);
+          })
+          .catch((e) => {
+            onError && onError(e);
+          });
+      },
+    });
+
+    // Listen for group events.
+    chatClient.addGroupListener(groupListenerId, {
+      onGroupMemberScopeChanged: (
+        message: CometChat.Action,
+        changedUser: CometChat.GroupMember,
+        newScope: CometChat.GroupMemberScope,
+        oldScope: CometChat.GroupMemberScope,
+        changedGroup: CometChat.Group
+      ) => {
+        groupHandler(message, {
+          action: "scopeChange",
+          actionOn: changedUser,
+          newScope: newScope,
+          oldScope: oldScope,
+          group: changedGroup,
+        });
+      },
+      onGroupMemberKicked: (
+        message: CometChat.Action,
+        kickedUser: CometChat.User,
+        kickedBy: CometChat.User,
+        kickedFrom: CometChat.Group
+      ) => {
+        groupHandler(message, {
+          action: "kicked",
+          actionOn: kickedUser,
+          actionBy: kickedBy,
+          group: kickedFrom,
+        });
+      },
+      onGroupMemberLeft: (
+        message: CometChat.Action,
+        leavingUser: CometChat.User,
+        group: CometChat.Group
+      ) => {
+        groupHandler(message, { action: "left", actionOn: leavingUser, group });
+      },
+      onGroupMemberUnbanned: (message: CometChat.Action) => {
+        groupHandler(message);
+      },
+      onGroupMemberBanned: (
+        message: CometChat.Action,
+        bannedUser: CometChat.User,
+        bannedBy: CometChat.User,
+        bannedFrom: CometChat.Group
+      ) => {
+        groupHandler(message, {
+          action: "banned",
+          actionOn: bannedUser,
+          actionBy: bannedBy,
+          group: bannedFrom,
+        });
+      },
+      onMemberAddedToGroup: (
+        message: CometChat.Action,
+        userAdded: CometChat.User,
+        userAddedBy: CometChat.User,
+        userAddedIn: CometChat.Group
+      ) => {
+        if (onMemberAddedToGroupDebounceTimer.current) {
+          clearTimeout(onMemberAddedToGroupDebounceTimer.current);
+        }
+        onMemberAddedToGroupDebounceTimer.current = setTimeout(() => {
           groupHandler(message, {
-            action: "banned",
-            actionOn: bannedUser,
-            actionBy: bannedBy,
-            group: bannedFrom,
+            action: "joined",
+            actionOn: userAdded,
+            actionBy: userAddedBy,
+            group: userAddedIn,
           });
-        },
-        onMemberAddedToGroup: (
-          message: CometChat.Action,
-          userAdded: CometChat.User,
-          userAddedBy: CometChat.User,
-          userAddedIn: CometChat.Group
-        ) => {
-          if (onMemberAddedToGroupDebounceTimer.current) {
-            clearTimeout(onMemberAddedToGroupDebounceTimer.current);
-          }
-          onMemberAddedToGroupDebounceTimer.current = setTimeout(() => {
-            groupHandler(message, {
-              action: "joined",
-              actionOn: userAdded,
-              actionBy: userAddedBy,
-              group: userAddedIn,
-            });
-          }, 50);
-        },
-        onGroupMemberJoined: (message: CometChat.Action) => {
-          groupHandler(message);
-        },
-      })
-    );
+        }, 50);
+      },
+      onGroupMemberJoined: (message: CometChat.Action) => {
+        groupHandler(message);
+      },
+    });
 
     // Listen for conversation deletion events.
     CometChatUIEventHandler.addConversationListener(conversationListenerId, {
@@ -1211,21 +1791,27 @@ export const CometChatConversations = (props: ConversationInterface) => {
           return;
         }
         messageEventHandler(textMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(textMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onMediaMessageReceived: (mediaMessage: CometChat.MediaMessage) => {
         if (!shouldUpdateLastMessageAndUnreadCount(mediaMessage)) {
           return;
         }
         messageEventHandler(mediaMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(mediaMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onCustomMessageReceived: (customMessage: CometChat.CustomMessage) => {
         if (!shouldUpdateLastMessageAndUnreadCount(customMessage)) {
           return;
         }
         messageEventHandler(customMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(customMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onMessageDeleted: (deletedMessage: CometChat.BaseMessage) => {
         checkAndUpdateLastMessage(deletedMessage);
@@ -1256,42 +1842,50 @@ export const CometChatConversations = (props: ConversationInterface) => {
           return;
         }
         messageEventHandler(formMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(formMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onCardMessageReceived: (cardMessage: any) => {
         if (!shouldUpdateLastMessageAndUnreadCount(cardMessage)) {
           return;
         }
         messageEventHandler(cardMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(cardMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onSchedulerMessageReceived: (schedulerMessage: any) => {
         if (!shouldUpdateLastMessageAndUnreadCount(schedulerMessage)) {
           return;
         }
         messageEventHandler(schedulerMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(schedulerMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
       onCustomInteractiveMessageReceived: (customInteractiveMessage: any) => {
         if (!shouldUpdateLastMessageAndUnreadCount(customInteractiveMessage)) {
           return;
         }
         messageEventHandler(customInteractiveMessage);
-        !disableSoundForMessages && CometChatSoundManager.play("incomingMessage");
+        !disableSoundForMessages &&
+          !isMessageMuted(customInteractiveMessage) &&
+          CometChatSoundManager.play("incomingMessage");
       },
     });
     // Listen for additional group events.
     CometChatUIEventHandler.addGroupListener(groupListenerId, {
       ccGroupCreated: ({ group }: { group: CometChat.Group }) => {
-        CometChat.getConversation(
+        chatClient.getConversation(
           group.getGuid(),
           CometChatUiKitConstants.ConversationTypeConstants.group
         ).then((conversation) => {
-          conversationListRef.current?.addItemToList(conversation, 0);
+          addToTop(conversation);
         });
       },
       ccGroupDeleted: ({ group }: { group: CometChat.Group }) => {
-        CometChat.getConversation(
+        chatClient.getConversation(
           group.getGuid(),
           CometChatUiKitConstants.ConversationTypeConstants.group
         ).then((conversation) => {
@@ -1337,7 +1931,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
         if (!shouldUpdateLastMessageAndUnreadCount(message)) {
           return;
         }
-        CometChat.CometChatHelper.getConversationFromMessage(message)
+        chatClient.getConversationFromMessage(message)
           .then((conversation) => {
             conversationListRef.current?.updateList(conversation);
           })
@@ -1405,7 +1999,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
     // Listen for call events via UI event handler.
     CometChatUIEventHandler.addCallListener(callListenerId, {
       ccOutgoingCall: ({ call }: any) => {
-        CometChat.CometChatHelper.getConversationFromMessage(call)
+        chatClient.getConversationFromMessage(call)
           .then((conversation) => {
             if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
               return;
@@ -1418,7 +2012,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
           });
       },
       ccCallAccepted: ({ call }: any) => {
-        CometChat.CometChatHelper.getConversationFromMessage(call)
+        chatClient.getConversationFromMessage(call)
           .then((conversation) => {
             if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
               return;
@@ -1431,7 +2025,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
           });
       },
       ccCallRejected: ({ call }: any) => {
-        CometChat.CometChatHelper.getConversationFromMessage(call)
+        chatClient.getConversationFromMessage(call)
           .then((conversation) => {
             if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
               return;
@@ -1444,7 +2038,7 @@ export const CometChatConversations = (props: ConversationInterface) => {
           });
       },
       ccCallEnded: ({ call }: any) => {
-        CometChat.CometChatHelper.getConversationFromMessage(call)
+        chatClient.getConversationFromMessage(call)
           .then((conversation) => {
             if (!CometChatUIKit.getConversationUpdateSettings().shouldUpdateOnCallActivities()) {
               return;
@@ -1460,9 +2054,9 @@ export const CometChatConversations = (props: ConversationInterface) => {
 
     // Cleanup all listeners on unmount.
     return () => {
-      CometChat.removeUserListener(userListenerId);
-      CometChat.removeCallListener(callListenerId);
-      CometChat.removeGroupListener(groupListenerId);
+      chatClient.removeUserListener(userListenerId);
+      chatClient.removeCallListener(callListenerId);
+      chatClient.removeGroupListener(groupListenerId);
       CometChatUIEventHandler.removeMessageListener(messageListenerId);
       CometChatUIEventHandler.removeConversationListener(conversationListenerId);
       CometChatUIEventHandler.removeGroupListener(groupListenerId);
@@ -1470,6 +2064,102 @@ export const CometChatConversations = (props: ConversationInterface) => {
     };
   }, []);
 
+  /**
+   * Refetches the first page of conversations after a reconnect and merges it
+   * into the list, newest first, so last messages and unread counts missed
+   * while offline are caught up without reloading the list.
+   */
+  useConnectionStatus(() => {
+    const builder =
+      conversationsRequestBuilder || chatClient.conversationsRequestBuilder().setLimit(30);
+    builder
+      .build()
+      .fetchNext()
+      .then((conversations) => {
+        const listed = conversations.filter(
+          (conversation) => !archivedRef.current.includes(conversation.getConversationId())
+        );
+        [...listed].reverse().forEach((conversation) => {
+          conversationListRef.current!.removeItemFromList(conversation.getConversationId());
+          conversationListRef.current!.addItemToList(conversation, 0);
+        });
+        // Archived conversations stay out, even if the list reloaded them.
+        removeArchivedFromList(conversations);
+        arrangePinned(listed);
+      })
+      .catch((e) => {
+        onError && onError(e);
+      });
+  });
+
+  // Keep the list in pin order, and put conversations that were just unpinned
+  // back in their place.
+  const previousPins = React.useRef<string[]>([]);
+  React.useEffect(() => {
+    previousPins.current.forEach((id) => {
+      const conversation = conversationListRef.current?.getListItem(id);
+      if (!pinnedIds.includes(id) && conversation) placeByRecency(conversation);
+    });
+    previousPins.current = pinnedIds;
+    arrangePinned();
+  }, [pinnedIds.join()]);
+
+  // Keep archived conversations out of the list, and fetch the ones that
+  // weren't loaded once the archive is opened.
+  React.useEffect(() => {
+    removeArchivedFromList();
+    if (showArchived) fetchArchived();
+  }, [archivedIds.join(), showArchived]);
+
+  // Lift mutes when they end, and redraw the rows whose mute changed.
+  const previousMutes = React.useRef<ConversationMutes>({});
+  React.useEffect(() => {
+    const changedIds = new Set([...Object.keys(previousMutes.current), ...Object.keys(mutes)]);
+    changedIds.forEach((id) => {
+      if (isConversationMuted(previousMutes.current, id) === isConversationMuted(mutes, id)) return;
+      const conversation = conversationListRef.current?.getListItem(id);
+      if (conversation) conversationListRef.current!.updateList(CommonUtils.clone(conversation));
+    });
+    previousMutes.current = mutes;
+
+    const nextExpiry = getNextMuteExpiry(mutes);
+    if (nextExpiry === null) return;
+    const timer = setTimeout(
+      () => updateMutes(removeExpiredMutes(mutesRef.current)),
+      Math.max(0, nextExpiry - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [mutes]);
+
+  // Search the server for conversations matching the keyword.
+  React.useEffect(() => {
+    setSearchResults([]);
+    if (!searchKeyword) {
+      setSearchingServer(false);
+      return;
+    }
+    let cancelled = false;
+    setSearchingServer(true);
+    chatClient
+      .conversationsRequestBuilder()
+      .setLimit(30)
+      .setSearchKeyword(searchKeyword)
+      .build()
+      .fetchNext()
+      .then((conversations) => {
+        if (!cancelled) setSearchResults(conversations);
+      })
+      .catch((e) => {
+        onError && onError(e);
+      })
+      .finally(() => {
+        if (!cancelled) setSearchingServer(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchKeyword]);
+
   const getStatusIndicator = (conv: CometChat.Conversation) => {
     const withObj = conv.getConversationWith();
 
@@ -1535,21 +2225,203 @@ export const CometChatConversations = (props: ConversationInterface) => {
 
   const TrailingViewRaw = useCallback((conv: CometChat.Conversation) => getTrailingView(conv), []);
 
+  /**
+   * A plain row for the conversations shown outside the list: search results
+   * and archived conversations.
+   * @param highlight - Part of the name to highlight.
+   */
+  const renderConversationRow = (
+    item: CometChat.Conversation,
+    highlight = "",
+    onLongPress?: (e: GestureResponderEvent) => void
+  ) =>
+    ItemView ? (
+      ItemView(item)
+    ) : (
+      <TouchableOpacity
+        style={[Style.row, { alignItems: "center", gap: 12, paddingHorizontal: 16, paddingVertical: 10 }]}
+        onPress={() => conversationClicked(item)}
+        onLongPress={onLongPress}
+      >
+        <View>{(LeadingView ?? LeadingViewRaw)(item)}</View>
+        <View style={{ flex: 1 }}>
+          {TitleView ? (
+            TitleView(item)
+          ) : (
+            <HighlightedText
+              text={item.getConversationWith().getName()}
+              highlight={highlight}
+              style={mergedStyles.itemStyle.titleStyle}
+            />
+          )}
+          {(SubtitleView ?? SubtitleViewRaw)(item)}
+        </View>
+        {(TrailingView ?? TrailingViewRaw)(item)}
+      </TouchableOpacity>
+    );
+
+  const renderSectionHeader = (title: string) => (
+    <Text style={[mergedStyles.itemStyle.subtitleStyle, { paddingHorizontal: 16, paddingVertical: 8 }]}>
+      {title}
+    </Text>
+  );
+
+  const handleItemLongPress = (conversation: CometChat.Conversation, e?: GestureResponderEvent) => {
+    if (selectionMode !== "none") return;
+    if (onItemLongPress) {
+      onItemLongPress(conversation);
+      return;
+    }
+    if (e && "nativeEvent" in e) openConversationMenu(conversation, e);
+  };
+
+  /**
+   * A list row with the header of the pinned section above the first pinned
+   * conversation, and the header of the rest below the last one. Rows are
+   * drawn like the list's own, which it stops pressing once it is given a
+   * row view.
+   */
+  const renderListItem = (conversation: CometChat.Conversation) => {
+    const pinIndex = listedPinIds.indexOf(conversation.getConversationId());
+    return (
+      <View>
+        {pinIndex === 0 && renderSectionHeader("Pinned")}
+        {ItemView ? (
+          ItemView(conversation)
+        ) : (
+          <CometChatListItem
+            id={conversation.getConversationId()}
+            LeadingView={(LeadingView ?? LeadingViewRaw)(conversation)}
+            TitleView={(TitleView ?? TitleViewRaw)(conversation)}
+            SubtitleView={(SubtitleView ?? SubtitleViewRaw)(conversation)}
+            TrailingView={(TrailingView ?? TrailingViewRaw)(conversation)}
+            containerStyle={[mergedStyles.itemStyle.containerStyle]}
+            titleStyle={mergedStyles.itemStyle.titleStyle}
+            headViewContainerStyle={
+              mergedStyles.itemStyle.headViewContainerStyle ?? { marginHorizontal: 9 }
+            }
+            titleSubtitleContainerStyle={mergedStyles.itemStyle.titleSubtitleContainerStyle}
+            trailingViewContainerStyle={mergedStyles.itemStyle.trailingViewContainerStyle}
+            avatarStyle={mergedStyles.itemStyle.avatarStyle}
+            onPress={() => conversationClicked(conversation)}
+            onLongPress={(_id: string, e: GestureResponderEvent) =>
+              handleItemLongPress(conversation, e)
+            }
+          />
+        )}
+        {pinIndex > -1 && pinIndex === listedPinIds.length - 1 && renderSectionHeader("All chats")}
+      </View>
+    );
+  };
+
+  const onSearchChange = (text: string) => {
+    setLoadedConversations(conversationListRef.current?.getAllListItems() ?? []);
+    setSearchQuery(text);
+  };
+
+  /**
+   * Search results in a "loaded" section, filtered from the list, and a "more
+   * results" section with what only the server found. Names are highlighted
+   * unless a custom TitleView is used.
+   */
+  const renderSearchResults = () => {
+    const query = searchQuery.trim();
+    const { loaded, more } = getConversationSearchSections(
+      loadedConversations,
+      // Results of an older keyword would mix into the current query.
+      searchKeyword === query ? searchResults : [],
+      query
+    );
+    const sections = [
+      { title: "Loaded", data: loaded },
+      { title: "More results", data: more },
+    ].filter((section) => section.data.length > 0);
+
+    return (
+      <SectionList
+        sections={sections}
+        keyExtractor={(conversation) => conversation.getConversationId()}
+        keyboardShouldPersistTaps='handled'
+        renderSectionHeader={({ section }) => renderSectionHeader(section.title)}
+        renderItem={({ item }) => renderConversationRow(item, query)}
+        ListFooterComponent={searchingServer ? <ActivityIndicator style={{ padding: 12 }} /> : null}
+        ListEmptyComponent={
+          searchingServer ? null : (
+            <Text style={[mergedStyles.itemStyle.subtitleStyle, { padding: 16, textAlign: "center" }]}>
+              No conversations found
+            </Text>
+          )
+        }
+      />
+    );
+  };
+
+  /**
+   * The archived conversations, most recent first, under a header that leads
+   * back to the list. A long press opens their menu.
+   */
+  const renderArchived = () => {
+    const sentAt = (item: CometChat.Conversation) => item.getLastMessage()?.getSentAt() ?? 0;
+    const conversations = Object.values(archivedConversations).sort((a, b) => sentAt(b) - sentAt(a));
+
+    return (
+      <View style={{ flex: 1 }}>
+        <TouchableOpacity
+          style={[Style.row, { alignItems: "center", gap: 12, padding: 16 }]}
+          onPress={() => setShowArchived(false)}
+          accessibilityRole='button'
+        >
+          <Icon name='arrow-back' size={theme.spacing.spacing.s6} color={theme.color.textPrimary} />
+          <Text style={mergedStyles.itemStyle.titleStyle}>Archived</Text>
+        </TouchableOpacity>
+        <FlatList
+          data={conversations}
+          keyExtractor={(conversation) => conversation.getConversationId()}
+          renderItem={({ item }) =>
+            renderConversationRow(item, "", (e) => openConversationMenu(item, e))
+          }
+          ListEmptyComponent={
+            archivedIds.length > 0 ? (
+              <ActivityIndicator style={{ padding: 12 }} />
+            ) : (
+              <Text style={[mergedStyles.itemStyle.subtitleStyle, { padding: 16, textAlign: "center" }]}>
+                No archived conversations
+              </Text>
+            )
+          }
+        />
+      </View>
+    );
+  };
+
   return (
     <View style={mergedStyles.containerStyle}>
       <CometChatTooltipMenu
         visible={tooltipVisible}
         onClose={() => {
           setTooltipVisible(false);
+          setTooltipMenu("main");
         }}
         event={{
           nativeEvent: tooltipPositon.current,
         }}
         menuItems={
-          options
+          tooltipMenu === "mute"
+            ? getMuteDurationOptions(longPressedConversation.current!)
+            : archivedIds.includes(longPressId.current!)
+            ? [
+                ...getArchiveOptions(longPressedConversation.current!),
+                ...(muteOptionVisibility ? getMuteOptions(longPressedConversation.current!) : []),
+              ]
+            : options
             ? options(longPressedConversation.current!)
             : [
                 ...[
+                  ...(pinOptionVisibility ? getPinOptions(longPressedConversation.current!) : []),
+                  ...(muteOptionVisibility ? getMuteOptions(longPressedConversation.current!) : []),
+                  ...(archiveOptionVisibility
+                    ? getArchiveOptions(longPressedConversation.current!)
+                    : []),
                   ...(deleteConversationOptionVisibility
                     ? [
                         {
@@ -1588,62 +2460,86 @@ export const CometChatConversations = (props: ConversationInterface) => {
         }}
         {...mergedStyles.confirmDialogStyle}
       />
-      <CometChatList
-        AppBarOptions={AppBarOptions}
-        onError={onError}
-        ref={conversationListRef}
-        LeadingView={LeadingView ? LeadingView : LeadingViewRaw}
-        TitleView={TitleView ? TitleView : TitleViewRaw}
-        SubtitleView={SubtitleView ? SubtitleView : SubtitleViewRaw}
-        TrailingView={TrailingView ? TrailingView : TrailingViewRaw}
-        requestBuilder={
-          conversationsRequestBuilder || new CometChat.ConversationsRequestBuilder().setLimit(30)
-        }
-        hideStickyHeader={true}
-        title={localize("CHATS")}
-        listStyle={mergedStyles}
-        hideSearch={true}
-        hideSubmitButton={hideSubmitButton}
-        onItemPress={(conversation) =>
-          selectionMode === "none" ? conversationClicked(conversation) : null
-        }
-        onItemLongPress={(conversation: CometChat.Conversation, e?: GestureResponderEvent) => {
-          if (selectionMode === "none") {
-            if (onItemLongPress) {
-              onItemLongPress(conversation);
-              return;
-            }
-            if (e && "nativeEvent" in e) {
-              longPressId.current = conversation.getConversationId();
-              longPressedConversation.current = conversation;
-              tooltipPositon.current = {
-                pageX: e.nativeEvent.pageX,
-                pageY: e.nativeEvent.pageY,
-              };
-              setTooltipVisible(true);
-            }
+      {showSearch && !showArchived && (
+        <TextInput
+          value={searchQuery}
+          onChangeText={onSearchChange}
+          placeholder={searchPlaceholderText ?? localize("SEARCH")}
+          placeholderTextColor={theme.color.textTertiary}
+          autoCapitalize='none'
+          autoCorrect={false}
+          clearButtonMode='while-editing'
+          style={{
+            marginHorizontal: 16,
+            marginVertical: 8,
+            paddingHorizontal: 12,
+            paddingVertical: 8,
+            borderRadius: 20,
+            color: theme.color.textPrimary,
+            backgroundColor: theme.color.background3,
+          }}
+        />
+      )}
+      {searching && renderSearchResults()}
+      {showArchived && renderArchived()}
+      {!searching && !showArchived && archivedIds.length > 0 && (
+        <TouchableOpacity
+          style={[Style.row, { alignItems: "center", gap: 12, paddingHorizontal: 16, paddingVertical: 10 }]}
+          onPress={() => setShowArchived(true)}
+          accessibilityRole='button'
+        >
+          <Icon name='archive' size={theme.spacing.spacing.s6} color={theme.color.textPrimary} />
+          <Text style={mergedStyles.itemStyle.titleStyle}>{`Archived (${archivedIds.length})`}</Text>
+        </TouchableOpacity>
+      )}
+      {/* Kept mounted while searching or in the archive so the list keeps its items and scroll position. */}
+      <View style={{ flex: 1, display: searching || showArchived ? "none" : "flex" }}>
+        <CometChatList
+          AppBarOptions={AppBarOptions}
+          onError={onError}
+          ref={conversationListRef}
+          LeadingView={LeadingView ? LeadingView : LeadingViewRaw}
+          TitleView={TitleView ? TitleView : TitleViewRaw}
+          SubtitleView={SubtitleView ? SubtitleView : SubtitleViewRaw}
+          TrailingView={TrailingView ? TrailingView : TrailingViewRaw}
+          requestBuilder={
+            conversationsRequestBuilder || chatClient.conversationsRequestBuilder().setLimit(30)
           }
-        }}
-        listItemKey={"conversationId"}
-        LoadingView={LoadingView ?? (() => <Skeleton style={mergedStyles.skeletonStyle} />)}
-        ItemView={ItemView}
-        EmptyView={EmptyView ? EmptyView : () => <EmptyStateView />}
-        ErrorView={ErrorView ? ErrorView : () => <ErrorStateView />}
-        onBack={onBack}
-        hideBackButton={hideBackButton}
-        onSelection={onSelection}
-        onSubmit={onSubmit}
-        selectionMode={selectionMode}
-        hideError={hideError}
-        hideHeader={hideHeader}
-        onListFetched={(conversations: CometChat.Conversation[]) => {
-          if (conversations.length === 0) {
-            onEmpty?.();
-          } else {
-            onLoad?.(conversations);
+          hideStickyHeader={true}
+          title={localize("CHATS")}
+          listStyle={mergedStyles}
+          hideSearch={true}
+          hideSubmitButton={hideSubmitButton}
+          onItemPress={(conversation) =>
+            selectionMode === "none" ? conversationClicked(conversation) : null
           }
-        }}
-      />
+          onItemLongPress={handleItemLongPress}
+          listItemKey={"conversationId"}
+          LoadingView={LoadingView ?? (() => <Skeleton style={mergedStyles.skeletonStyle} />)}
+          // The list has no sections; while conversations are pinned, its rows
+          // carry the section headers.
+          ItemView={selectionMode === "none" && listedPinIds.length > 0 ? renderListItem : ItemView}
+          EmptyView={EmptyView ? EmptyView : () => <EmptyStateView />}
+          ErrorView={ErrorView ? ErrorView : () => <ErrorStateView />}
+          onBack={onBack}
+          hideBackButton={hideBackButton}
+          onSelection={onSelection}
+          onSubmit={onSubmit}
+          selectionMode={selectionMode}
+          hideError={hideError}
+          hideHeader={hideHeader}
+          onListFetched={(conversations: CometChat.Conversation[]) => {
+            if (conversations.length === 0) {
+              onEmpty?.();
+            } else {
+              onLoad?.(conversations);
+            }
+            listFetched.current = true;
+            removeArchivedFromList(conversations);
+            arrangePinned(conversations);
+          }}
+        />
+      </View>
     </View>
   );
 };
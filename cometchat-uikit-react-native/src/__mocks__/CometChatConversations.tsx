@@ -0,0 +1,53 @@
+/*
+ * CometChatConversations.tsx (Jest mock)
+ * ---------------------------------------------------------------------------
+ * A plain stand-in for the App's tests, which mock the real component with
+ * `jest.mock`: it renders the app bar options and one row per conversation
+ * of the first page, and reports presses through `onItemPress`. The real
+ * component is tested in `__tests__/CometChatConversations.test.tsx`.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import React, { useEffect, useState } from 'react';
+import { FlatList, Text, TouchableOpacity, View } from 'react-native';
+import { useChatClient } from '../../../src/chat/ChatClientProvider';
+import type { ConversationInterface } from '../CometChatConversations';
+
+const getSubtitle = (conversation: CometChat.Conversation) => {
+  const lastMessage = conversation.getLastMessage();
+  if (!lastMessage) return '';
+  if (lastMessage instanceof CometChat.TextMessage) return lastMessage.getText();
+  return lastMessage.getType();
+};
+
+export const CometChatConversations = (props: ConversationInterface) => {
+  const { AppBarOptions, conversationsRequestBuilder, onItemPress } = props;
+  const chatClient = useChatClient();
+  const [conversations, setConversations] = useState<CometChat.Conversation[]>([]);
+
+  useEffect(() => {
+    (conversationsRequestBuilder || chatClient.conversationsRequestBuilder().setLimit(30))
+      .build()
+      .fetchNext()
+      .then(setConversations, props.onError);
+  }, []);
+
+  return (
+    <View>
+      <View>
+        <Text>Chats</Text>
+        {AppBarOptions && <AppBarOptions />}
+      </View>
+      <FlatList
+        data={conversations}
+        keyExtractor={item => item.getConversationId()}
+        renderItem={({ item }) => (
+          <TouchableOpacity onPress={() => onItemPress?.(item)}>
+            <Text>{item.getConversationWith().getName()}</Text>
+            <Text>{getSubtitle(item)}</Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
@@ -0,0 +1,10 @@
+module.exports = {
+  preset: 'react-native',
+  setupFiles: [
+    '<rootDir>/node_modules/@react-native-documents/picker/jest/build/jest/setup.js',
+    '<rootDir>/jest.setup.js',
+  ],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native(-[a-z-]+)?|@react-native(-[a-z-]+)?|@react-navigation)/)',
+  ],
+};
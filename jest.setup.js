@@ -0,0 +1,7 @@
+/*
+ * Runs before every test file. Native modules are replaced with the mocks
+ * their packages ship for Jest; the CometChat SDK is mocked from `__mocks__`
+ * with the in-memory fake in `testing/fakeCometChat.ts`.
+ */
+jest.mock('react-native-permissions', () => require('react-native-permissions/mock'));
+jest.mock('react-native-safe-area-context', () => require('react-native-safe-area-context/jest/mock').default);
@@ -0,0 +1,96 @@
+/*
+ * mock-media-server.js
+ * ---------------------------------------------------------------------------
+ * Local stand-in for the backend that stores attachments. It serves the
+ * contract expected by HttpMediaUploader:
+ *
+ *   POST /media  multipart form data with a `file` field  ->  {"url": "..."}
+ *   GET  /media/<id>                                       ->  the stored file
+ *
+ * Files are kept in memory until the server stops. The returned URL uses the
+ * host the upload was sent to, so it also loads from the Android emulator.
+ *
+ * Usage: npm run media-server  (PORT defaults to 3002)
+ * ---------------------------------------------------------------------------
+ */
+const http = require('http');
+
+const mediaPath = '/media';
+
+/**
+ * Returns the `file` part of a multipart body, or undefined if there is none.
+ * @param {Buffer} body
+ * @param {string} boundary
+ */
+const findFilePart = (body, boundary) => {
+  const delimiter = Buffer.from(`--${boundary}`);
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) return undefined;
+    const part = body.subarray(start + delimiter.length, next);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      if (/name="file"/i.test(headers)) {
+        const name = /filename="([^"]*)"/i.exec(headers)?.[1] || 'file';
+        const type = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] || 'application/octet-stream';
+        // The part ends with the CRLF that precedes the next delimiter.
+        return { name, type, data: part.subarray(headerEnd + 4, part.length - 2) };
+      }
+    }
+    start = next;
+  }
+  return undefined;
+};
+
+/**
+ * Creates (but does not start) the mock media server.
+ * @returns {http.Server}
+ */
+const createMockMediaServer = () => {
+  const files = new Map();
+  let nextId = 1;
+
+  return http.createServer((req, res) => {
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && req.url.startsWith(`${mediaPath}/`)) {
+      const file = files.get(req.url.slice(mediaPath.length + 1));
+      if (!file) return send(404, { error: 'Not found' });
+      res.writeHead(200, { 'Content-Type': file.type, 'Content-Length': file.data.length });
+      return res.end(file.data);
+    }
+    if (req.url !== mediaPath) return send(404, { error: 'Not found' });
+    if (req.method !== 'POST') return send(405, { error: 'Method not allowed' });
+
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(req.headers['content-type'] || '');
+    if (!boundary) return send(400, { error: 'Body must be multipart form data' });
+
+    const chunks = [];
+    // A cancelled upload closes the connection mid-body; nothing is stored.
+    req.on('error', () => {});
+    req.on('data', chunk => {
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const file = findFilePart(Buffer.concat(chunks), boundary[1] || boundary[2]);
+      if (!file) return send(400, { error: 'file is required' });
+      const id = `${nextId++}-${encodeURIComponent(file.name)}`;
+      files.set(id, file);
+      send(200, { url: `http://${req.headers.host}${mediaPath}/${id}` });
+    });
+  });
+};
+
+module.exports = { createMockMediaServer, mediaPath };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 3002;
+  createMockMediaServer().listen(port, () => {
+    console.log(`Mock media server listening on http://localhost:${port}${mediaPath}`);
+  });
+}
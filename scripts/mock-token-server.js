@@ -0,0 +1,72 @@
+/*
+ * mock-token-server.js
+ * ---------------------------------------------------------------------------
+ * Local stand-in for the backend that issues CometChat auth tokens. It serves
+ * the contract expected by HttpAuthTokenProvider:
+ *
+ *   POST /auth-token  {"uid": "cometchat-uid-1"}  ->  {"authToken": "..."}
+ *
+ * Tokens come from a JSON file mapping UIDs to auth tokens created in the
+ * CometChat dashboard (MOCK_AUTH_TOKENS=path/to/tokens.json). Without one,
+ * every UID gets a fake token, which is enough for tests.
+ *
+ * Usage: npm run token-server  (PORT defaults to 3001)
+ * ---------------------------------------------------------------------------
+ */
+const fs = require('fs');
+const http = require('http');
+
+const tokenPath = '/auth-token';
+
+/**
+ * Creates (but does not start) the mock token server.
+ * @param {object} [options]
+ * @param {Record<string, string>} [options.tokens] - UID to auth token map.
+ *   When given, unknown UIDs are rejected with 404.
+ * @returns {http.Server}
+ */
+const createMockTokenServer = ({ tokens } = {}) =>
+  http.createServer((req, res) => {
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url !== tokenPath) return send(404, { error: 'Not found' });
+    if (req.method !== 'POST') return send(405, { error: 'Method not allowed' });
+
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      let uid;
+      try {
+        uid = JSON.parse(raw).uid;
+      } catch {
+        return send(400, { error: 'Body must be JSON' });
+      }
+      if (typeof uid !== 'string' || !uid) {
+        return send(400, { error: 'uid is required' });
+      }
+      if (tokens) {
+        if (!tokens[uid]) return send(404, { error: `No auth token for ${uid}` });
+        return send(200, { authToken: tokens[uid] });
+      }
+      send(200, { authToken: `mock-token-${uid}` });
+    });
+  });
+
+module.exports = { createMockTokenServer, tokenPath };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 3001;
+  const tokenFile = process.env.MOCK_AUTH_TOKENS;
+  const tokens = tokenFile ? JSON.parse(fs.readFileSync(tokenFile, 'utf8')) : undefined;
+  createMockTokenServer({ tokens }).listen(port, () => {
+    console.log(
+      `Mock token server listening on http://localhost:${port}${tokenPath}` +
+        (tokens ? ` with ${Object.keys(tokens).length} tokens` : ' with fake tokens')
+    );
+  });
+}
@@ -0,0 +1,74 @@
+/*
+ * AuthTokenProvider.ts
+ * ---------------------------------------------------------------------------
+ * Abstraction over where CometChat auth tokens come from. The app never holds
+ * an Auth Key; it asks a provider for a per-user auth token and logs in with
+ * `chatClient.login(authToken)`.
+ * ---------------------------------------------------------------------------
+ */
+
+/**
+ * Supplies CometChat auth tokens for users.
+ */
+export interface AuthTokenProvider {
+  /**
+   * Returns an auth token the given user can log in with.
+   * @param uid - The UID of the user logging in.
+   */
+  getAuthToken(uid: string): Promise<string>;
+}
+
+/**
+ * Thrown when an auth token could not be obtained.
+ */
+export class AuthTokenError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'AuthTokenError';
+  }
+}
+
+/**
+ * Default provider that requests a token from an HTTP endpoint.
+ *
+ * The endpoint receives `POST {"uid": "<uid>"}` and must answer with
+ * `{"authToken": "<token>"}`. Any other response is reported as an
+ * AuthTokenError.
+ */
+export class HttpAuthTokenProvider implements AuthTokenProvider {
+  constructor(
+    private readonly endpoint: string,
+    private readonly fetchFn: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async getAuthToken(uid: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uid }),
+      });
+    } catch (error: any) {
+      throw new AuthTokenError(`Auth token request failed: ${error?.message ?? error}`);
+    }
+
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Fall through; a missing body is reported below.
+    }
+
+    if (!response.ok) {
+      throw new AuthTokenError(
+        body?.error || `Auth token request failed with status ${response.status}`,
+        response.status
+      );
+    }
+    if (typeof body?.authToken !== 'string' || !body.authToken) {
+      throw new AuthTokenError('Auth token response did not contain an authToken', response.status);
+    }
+    return body.authToken;
+  }
+}
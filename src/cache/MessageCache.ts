@@ -0,0 +1,192 @@
+/*
+ * MessageCache.ts
+ * ---------------------------------------------------------------------------
+ * Per-conversation message cache on top of a KeyValueStorage, so a chat can
+ * render its last known messages before the network answers.
+ *
+ * Each conversation keeps at most `maxMessagesPerConversation` of its newest
+ * messages. At most `maxConversations` conversations are kept; the least
+ * recently read or written one is evicted first.
+ * ---------------------------------------------------------------------------
+ */
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+
+/**
+ * Teaches the cache how to identify and (de)serialize a message type.
+ */
+export interface MessageAdapter<M> {
+  /**
+   * Server-assigned message id. Ids increase over time within a conversation.
+   */
+  getId(message: M): number;
+  serialize(message: M): object;
+  deserialize(raw: object): M | Promise<M>;
+}
+
+export interface MessageCacheOptions {
+  /**
+   * Newest messages kept per conversation. Defaults to 100.
+   */
+  maxMessagesPerConversation?: number;
+  /**
+   * Conversations kept before the least recently used is evicted. Defaults to 20.
+   */
+  maxConversations?: number;
+  /**
+   * Prefix for all storage keys. Defaults to "message_cache".
+   */
+  keyPrefix?: string;
+}
+
+export class MessageCache<M> {
+  private readonly maxMessages: number;
+  private readonly maxConversations: number;
+  private readonly keyPrefix: string;
+  // Serializes index updates so concurrent reads and writes don't lose entries.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly adapter: MessageAdapter<M>,
+    options: MessageCacheOptions = {}
+  ) {
+    this.maxMessages = options.maxMessagesPerConversation ?? 100;
+    this.maxConversations = options.maxConversations ?? 20;
+    this.keyPrefix = options.keyPrefix ?? 'message_cache';
+  }
+
+  /**
+   * Returns the cached messages of a conversation, oldest first.
+   * @param conversationId - Key of the conversation, e.g. "user_<uid>".
+   */
+  get(conversationId: string): Promise<M[]> {
+    return this.enqueue(async () => {
+      const raw = await this.storage.getItem(this.conversationKey(conversationId));
+      if (!raw) return [];
+      await this.touch(conversationId);
+      let stored: object[];
+      try {
+        stored = JSON.parse(raw);
+      } catch {
+        await this.storage.removeItem(this.conversationKey(conversationId));
+        return [];
+      }
+      return Promise.all(stored.map(item => this.adapter.deserialize(item)));
+    });
+  }
+
+  /**
+   * Replaces the cached messages of a conversation, keeping only the newest
+   * `maxMessagesPerConversation`, and evicts old conversations if needed.
+   * @param conversationId - Key of the conversation.
+   * @param messages - Messages of the conversation, oldest first.
+   */
+  put(conversationId: string, messages: M[]): Promise<void> {
+    return this.enqueue(async () => {
+      const newest = messages.slice(-this.maxMessages);
+      await this.storage.setItem(
+        this.conversationKey(conversationId),
+        JSON.stringify(newest.map(message => this.adapter.serialize(message)))
+      );
+      await this.touch(conversationId);
+    });
+  }
+
+  /**
+   * Drops the cached messages of a conversation.
+   */
+  remove(conversationId: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.storage.removeItem(this.conversationKey(conversationId));
+      const index = await this.readIndex();
+      await this.writeIndex(index.filter(id => id !== conversationId));
+    });
+  }
+
+  /**
+   * Drops every cached conversation, e.g. on logout.
+   */
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.readIndex();
+      await Promise.all(index.map(id => this.storage.removeItem(this.conversationKey(id))));
+      await this.storage.removeItem(this.indexKey());
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Marks a conversation as most recently used and evicts the least recently
+   * used ones beyond `maxConversations`.
+   */
+  private async touch(conversationId: string) {
+    const index = [conversationId, ...(await this.readIndex()).filter(id => id !== conversationId)];
+    const evicted = index.splice(this.maxConversations);
+    await Promise.all(evicted.map(id => this.storage.removeItem(this.conversationKey(id))));
+    await this.writeIndex(index);
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const raw = await this.storage.getItem(this.indexKey());
+    if (!raw) return [];
+    try {
+      const index = JSON.parse(raw);
+      return Array.isArray(index) ? index : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeIndex(index: string[]) {
+    return this.storage.setItem(this.indexKey(), JSON.stringify(index));
+  }
+
+  private indexKey() {
+    return `${this.keyPrefix}:index`;
+  }
+
+  private conversationKey(conversationId: string) {
+    return `${this.keyPrefix}:conversation:${conversationId}`;
+  }
+}
+
+/**
+ * Merges a page fetched from the server into the messages already shown.
+ *
+ * The fetched page is authoritative for the id range it covers: its copies
+ * replace shown ones (applying edits and deletions) and shown messages inside
+ * that range that the server no longer returns are dropped. Messages outside
+ * the range are kept. When `complete` is set the page reaches the start of
+ * the conversation, so nothing older than it is kept either.
+ *
+ * @param current - Messages currently shown, oldest first.
+ * @param fetched - Page returned by the server, oldest first.
+ * @param getId - Returns a message's server id.
+ * @param complete - Whether the page is the oldest one.
+ * @returns The merged list, oldest first.
+ */
+export const reconcileMessages = <M>(
+  current: M[],
+  fetched: M[],
+  getId: (message: M) => number,
+  complete = false
+): M[] => {
+  if (fetched.length === 0) {
+    return complete ? [] : current;
+  }
+  const fetchedIds = new Set(fetched.map(getId));
+  const minId = Math.min(...fetchedIds);
+  const maxId = Math.max(...fetchedIds);
+  const kept = current.filter(message => {
+    const id = getId(message);
+    if (fetchedIds.has(id)) return false;
+    if (id > maxId) return true;
+    return id < minId && !complete;
+  });
+  return [...kept, ...fetched].sort((a, b) => getId(a) - getId(b));
+};
@@ -0,0 +1,34 @@
+/*
+ * appMessageCache.ts
+ * ---------------------------------------------------------------------------
+ * The app's message cache: CometChat messages persisted in AsyncStorage.
+ * ---------------------------------------------------------------------------
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { chatClient } from '../chat/appChatClient';
+import { ChatTarget, isGroup } from '../utils/chatTarget';
+import { MessageAdapter, MessageCache } from './MessageCache';
+
+/**
+ * Stores messages as their plain JSON form and turns them back into SDK
+ * message objects with the chat client's `processMessage`.
+ */
+export const cometChatMessageAdapter: MessageAdapter<CometChat.BaseMessage> = {
+  getId: message => message.getId(),
+  serialize: message => JSON.parse(JSON.stringify(message)),
+  deserialize: raw => chatClient.processMessage(raw),
+};
+
+export const messageCache = new MessageCache(AsyncStorage, cometChatMessageAdapter);
+
+/**
+ * Cache key of the conversation with a user or group.
+ */
+export const getConversationCacheKey = (target: ChatTarget) =>
+  isGroup(target) ? `group_${target.getGuid()}` : `user_${target.getUid()}`;
+
+/**
+ * Key of the thread under a message, e.g. for its replies in the outbox.
+ */
+export const getThreadCacheKey = (parentMessageId: number) => `thread_${parentMessageId}`;
@@ -0,0 +1,159 @@
+/*
+ * ChatClient.ts
+ * ---------------------------------------------------------------------------
+ * The one way the App and the UI kit components talk to CometChat. Session
+ * state (init, login, the socket and its listeners) lives in whichever SDK
+ * the client wraps, so everything that shares a client shares one session.
+ * SDK model classes (`CometChat.User`, `CometChat.TextMessage`, ...) are
+ * still used directly; they hold no session state.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+
+export interface MessageEventHandlers {
+  onTextMessageReceived?: (message: CometChat.TextMessage) => void;
+  onMediaMessageReceived?: (message: CometChat.MediaMessage) => void;
+  onCustomMessageReceived?: (message: CometChat.CustomMessage) => void;
+  onTypingStarted?: (indicator: CometChat.TypingIndicator) => void;
+  onTypingEnded?: (indicator: CometChat.TypingIndicator) => void;
+  onMessagesDelivered?: (receipt: CometChat.MessageReceipt) => void;
+  onMessagesRead?: (receipt: CometChat.MessageReceipt) => void;
+  onMessageEdited?: (message: CometChat.BaseMessage) => void;
+  onMessageDeleted?: (message: CometChat.BaseMessage) => void;
+  onMessageReactionAdded?: (event: CometChat.ReactionEvent) => void;
+  onMessageReactionRemoved?: (event: CometChat.ReactionEvent) => void;
+}
+
+export interface UserEventHandlers {
+  onUserOnline?: (user: CometChat.User) => void;
+  onUserOffline?: (user: CometChat.User) => void;
+}
+
+export interface GroupEventHandlers {
+  onGroupMemberJoined?: (
+    action: CometChat.Action,
+    joinedUser: CometChat.User,
+    joinedGroup: CometChat.Group
+  ) => void;
+  onGroupMemberLeft?: (
+    action: CometChat.Action,
+    leftUser: CometChat.User,
+    leftGroup: CometChat.Group
+  ) => void;
+  onGroupMemberKicked?: (
+    action: CometChat.Action,
+    kickedUser: CometChat.User,
+    kickedBy: CometChat.User,
+    kickedFrom: CometChat.Group
+  ) => void;
+  onGroupMemberBanned?: (
+    action: CometChat.Action,
+    bannedUser: CometChat.User,
+    bannedBy: CometChat.User,
+    bannedFrom: CometChat.Group
+  ) => void;
+  onGroupMemberUnbanned?: (
+    action: CometChat.Action,
+    unbannedUser: CometChat.User,
+    unbannedBy: CometChat.User,
+    unbannedFrom: CometChat.Group
+  ) => void;
+  onGroupMemberScopeChanged?: (
+    action: CometChat.Action,
+    changedUser: CometChat.GroupMember,
+    newScope: CometChat.GroupMemberScope,
+    oldScope: CometChat.GroupMemberScope,
+    changedGroup: CometChat.Group
+  ) => void;
+  onMemberAddedToGroup?: (
+    action: CometChat.Action,
+    userAdded: CometChat.User,
+    userAddedBy: CometChat.User,
+    userAddedIn: CometChat.Group
+  ) => void;
+}
+
+export interface CallEventHandlers {
+  onIncomingCallReceived?: (call: CometChat.Call) => void;
+  onIncomingCallCancelled?: (call: CometChat.Call) => void;
+  onOutgoingCallAccepted?: (call: CometChat.Call) => void;
+  onOutgoingCallRejected?: (call: CometChat.Call) => void;
+}
+
+/**
+ * State of the socket live events arrive on.
+ */
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+
+export interface ConnectionEventHandlers {
+  onConnected?: () => void;
+  inConnecting?: () => void;
+  onDisconnected?: () => void;
+}
+
+/**
+ * Messages as the SDK hands them back from sends and fetches.
+ */
+export type ChatMessage = CometChat.BaseMessage;
+
+/**
+ * A CometChat session: auth, lookups, request builders, sending and events.
+ *
+ * Listeners are registered under a caller-chosen id and removed by that id,
+ * as with the SDK; registering the same id again replaces the listener.
+ */
+export interface ChatClient {
+  /**
+   * Connects to the CometChat app. Must finish before anything else is
+   * called.
+   */
+  init(): Promise<void>;
+  login(authToken: string): Promise<CometChat.User>;
+  logout(): Promise<void>;
+  /**
+   * The user the SDK still has a session for, or null.
+   */
+  getLoggedInUser(): Promise<CometChat.User | null>;
+  getConnectionStatus(): ConnectionStatus;
+
+  getUser(uid: string): Promise<CometChat.User>;
+  getGroup(guid: string): Promise<CometChat.Group>;
+  joinGroup(guid: string, type: CometChat.GroupType, password?: string): Promise<CometChat.Group>;
+  getMessageDetails(messageId: number | string): Promise<ChatMessage>;
+  getConversation(conversationWith: string, conversationType: string): Promise<CometChat.Conversation>;
+  getConversationFromMessage(message: ChatMessage): Promise<CometChat.Conversation>;
+  deleteConversation(conversationWith: string, conversationType: string): Promise<void>;
+  /**
+   * Turns a message's plain JSON form, e.g. from a cache, back into an SDK
+   * message object.
+   */
+  processMessage(raw: object): ChatMessage;
+
+  usersRequestBuilder(): CometChat.UsersRequestBuilder;
+  groupsRequestBuilder(): CometChat.GroupsRequestBuilder;
+  messagesRequestBuilder(): CometChat.MessagesRequestBuilder;
+  conversationsRequestBuilder(): CometChat.ConversationsRequestBuilder;
+  reactionsRequestBuilder(): CometChat.ReactionsRequestBuilder;
+
+  sendMessage(message: CometChat.TextMessage | CometChat.CustomMessage): Promise<ChatMessage>;
+  sendMediaMessage(message: CometChat.MediaMessage): Promise<ChatMessage>;
+  editMessage(message: ChatMessage): Promise<ChatMessage>;
+  deleteMessage(messageId: number): Promise<ChatMessage>;
+  markAsDelivered(message: ChatMessage): void;
+  markAsRead(message: ChatMessage): void;
+  startTyping(indicator: CometChat.TypingIndicator): void;
+  endTyping(indicator: CometChat.TypingIndicator): void;
+  addReaction(messageId: number, emoji: string): Promise<ChatMessage>;
+  removeReaction(messageId: number, emoji: string): Promise<ChatMessage>;
+
+  addMessageListener(id: string, handlers: MessageEventHandlers): void;
+  removeMessageListener(id: string): void;
+  addUserListener(id: string, handlers: UserEventHandlers): void;
+  removeUserListener(id: string): void;
+  addGroupListener(id: string, handlers: GroupEventHandlers): void;
+  removeGroupListener(id: string): void;
+  addCallListener(id: string, handlers: CallEventHandlers): void;
+  removeCallListener(id: string): void;
+  addConnectionListener(id: string, handlers: ConnectionEventHandlers): void;
+  removeConnectionListener(id: string): void;
+}
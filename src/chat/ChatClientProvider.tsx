@@ -0,0 +1,29 @@
+/*
+ * ChatClientProvider.tsx
+ * ---------------------------------------------------------------------------
+ * Hands the ChatClient to screens and UI kit components through context, so
+ * they all use the session App logged in with.
+ * ---------------------------------------------------------------------------
+ */
+import React, { createContext, useContext } from 'react';
+import { ChatClient } from './ChatClient';
+
+const ChatClientContext = createContext<ChatClient | null>(null);
+
+export interface ChatClientProviderProps {
+  client: ChatClient;
+  children: React.ReactNode;
+}
+
+export const ChatClientProvider = ({ client, children }: ChatClientProviderProps) => (
+  <ChatClientContext.Provider value={client}>{children}</ChatClientContext.Provider>
+);
+
+/**
+ * The ChatClient of the closest ChatClientProvider.
+ */
+export const useChatClient = () => {
+  const client = useContext(ChatClientContext);
+  if (!client) throw new Error('useChatClient must be used inside a ChatClientProvider');
+  return client;
+};
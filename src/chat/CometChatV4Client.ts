@@ -0,0 +1,183 @@
+/*
+ * CometChatV4Client.ts
+ * ---------------------------------------------------------------------------
+ * ChatClient backed by the v4 SDK, `@cometchat/chat-sdk-react-native`.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import {
+  CallEventHandlers,
+  ChatClient,
+  ChatMessage,
+  ConnectionEventHandlers,
+  ConnectionStatus,
+  GroupEventHandlers,
+  MessageEventHandlers,
+  UserEventHandlers,
+} from './ChatClient';
+
+export interface CometChatV4ClientSettings {
+  appId: string;
+  region: string;
+}
+
+export class CometChatV4Client implements ChatClient {
+  constructor(private readonly settings: CometChatV4ClientSettings) {}
+
+  async init() {
+    const appSetting = new CometChat.AppSettingsBuilder()
+      .subscribePresenceForAllUsers()
+      .setRegion(this.settings.region)
+      .build();
+    await CometChat.init(this.settings.appId, appSetting);
+  }
+
+  login(authToken: string) {
+    return CometChat.login(authToken);
+  }
+
+  async logout() {
+    await CometChat.logout();
+  }
+
+  getLoggedInUser() {
+    return CometChat.getLoggedinUser();
+  }
+
+  getConnectionStatus() {
+    return CometChat.getConnectionStatus() as ConnectionStatus;
+  }
+
+  getUser(uid: string) {
+    return CometChat.getUser(uid);
+  }
+
+  getGroup(guid: string) {
+    return CometChat.getGroup(guid);
+  }
+
+  joinGroup(guid: string, type: CometChat.GroupType, password?: string) {
+    return CometChat.joinGroup(guid, type, password);
+  }
+
+  getMessageDetails(messageId: number | string) {
+    return CometChat.getMessageDetails(`${messageId}`);
+  }
+
+  getConversation(conversationWith: string, conversationType: string) {
+    return CometChat.getConversation(conversationWith, conversationType);
+  }
+
+  getConversationFromMessage(message: ChatMessage) {
+    return CometChat.CometChatHelper.getConversationFromMessage(message);
+  }
+
+  async deleteConversation(conversationWith: string, conversationType: string) {
+    await CometChat.deleteConversation(conversationWith, conversationType);
+  }
+
+  processMessage(raw: object) {
+    // Typed as a promise by the SDK, but it converts synchronously.
+    return CometChat.CometChatHelper.processMessage(raw) as unknown as ChatMessage;
+  }
+
+  usersRequestBuilder() {
+    return new CometChat.UsersRequestBuilder();
+  }
+
+  groupsRequestBuilder() {
+    return new CometChat.GroupsRequestBuilder();
+  }
+
+  messagesRequestBuilder() {
+    return new CometChat.MessagesRequestBuilder();
+  }
+
+  conversationsRequestBuilder() {
+    return new CometChat.ConversationsRequestBuilder();
+  }
+
+  reactionsRequestBuilder() {
+    return new CometChat.ReactionsRequestBuilder();
+  }
+
+  sendMessage(message: CometChat.TextMessage | CometChat.CustomMessage) {
+    return CometChat.sendMessage(message);
+  }
+
+  sendMediaMessage(message: CometChat.MediaMessage) {
+    return CometChat.sendMediaMessage(message);
+  }
+
+  editMessage(message: ChatMessage) {
+    return CometChat.editMessage(message);
+  }
+
+  deleteMessage(messageId: number) {
+    return CometChat.deleteMessage(`${messageId}`);
+  }
+
+  markAsDelivered(message: ChatMessage) {
+    CometChat.markAsDelivered(message);
+  }
+
+  markAsRead(message: ChatMessage) {
+    CometChat.markAsRead(message);
+  }
+
+  startTyping(indicator: CometChat.TypingIndicator) {
+    CometChat.startTyping(indicator);
+  }
+
+  endTyping(indicator: CometChat.TypingIndicator) {
+    CometChat.endTyping(indicator);
+  }
+
+  addReaction(messageId: number, emoji: string) {
+    return CometChat.addReaction(messageId, emoji);
+  }
+
+  removeReaction(messageId: number, emoji: string) {
+    return CometChat.removeReaction(messageId, emoji);
+  }
+
+  addMessageListener(id: string, handlers: MessageEventHandlers) {
+    CometChat.addMessageListener(id, new CometChat.MessageListener(handlers));
+  }
+
+  removeMessageListener(id: string) {
+    CometChat.removeMessageListener(id);
+  }
+
+  addUserListener(id: string, handlers: UserEventHandlers) {
+    CometChat.addUserListener(id, new CometChat.UserListener(handlers));
+  }
+
+  removeUserListener(id: string) {
+    CometChat.removeUserListener(id);
+  }
+
+  addGroupListener(id: string, handlers: GroupEventHandlers) {
+    CometChat.addGroupListener(id, new CometChat.GroupListener(handlers));
+  }
+
+  removeGroupListener(id: string) {
+    CometChat.removeGroupListener(id);
+  }
+
+  addCallListener(id: string, handlers: CallEventHandlers) {
+    CometChat.addCallListener(id, new CometChat.CallListener(handlers));
+  }
+
+  removeCallListener(id: string) {
+    CometChat.removeCallListener(id);
+  }
+
+  addConnectionListener(id: string, handlers: ConnectionEventHandlers) {
+    CometChat.addConnectionListener(id, new CometChat.ConnectionListener(handlers));
+  }
+
+  removeConnectionListener(id: string) {
+    CometChat.removeConnectionListener(id);
+  }
+}
@@ -0,0 +1,11 @@
+/*
+ * appChatClient.ts
+ * ---------------------------------------------------------------------------
+ * The app's ChatClient. App provides it to the component tree; modules that
+ * live outside React, like the outbox, use it directly.
+ * ---------------------------------------------------------------------------
+ */
+import { appConfig } from '../config';
+import { CometChatV4Client } from './CometChatV4Client';
+
+export const chatClient = new CometChatV4Client(appConfig);
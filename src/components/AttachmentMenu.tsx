@@ -0,0 +1,68 @@
+/*
+ * AttachmentMenu.tsx
+ * ---------------------------------------------------------------------------
+ * Bottom sheet for choosing what kind of attachment to send.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AttachmentKind } from '../media/MediaPicker';
+
+const options: { kind: AttachmentKind; label: string }[] = [
+  { kind: 'image', label: '🖼  Photo' },
+  { kind: 'video', label: '🎬  Video' },
+  { kind: 'audio', label: '🎵  Audio' },
+  { kind: 'file', label: '📄  File' },
+];
+
+export interface AttachmentMenuProps {
+  visible: boolean;
+  onSelect: (kind: AttachmentKind) => void;
+  onCancel: () => void;
+}
+
+export const AttachmentMenu = ({ visible, onSelect, onCancel }: AttachmentMenuProps) => (
+  <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+    <Pressable style={styles.backdrop} onPress={onCancel}>
+      <View style={styles.sheet}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.kind}
+            onPress={() => onSelect(option.kind)}
+            style={styles.option}
+          >
+            <Text style={styles.optionText}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity onPress={onCancel} style={styles.option}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </Pressable>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingVertical: 8,
+  },
+  option: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#2196F3',
+  },
+});
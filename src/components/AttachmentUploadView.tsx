@@ -0,0 +1,88 @@
+/*
+ * AttachmentUploadView.tsx
+ * ---------------------------------------------------------------------------
+ * Outgoing bubble for an attachment that is still uploading or failed, with
+ * progress, cancel and retry. Cancel is hidden when the uploader cannot stop
+ * the upload, and once the file is uploaded and the message is being sent.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AttachmentUploadEntry } from '../media/AttachmentUploads';
+import { bubbleStyles } from './MessageBubble';
+
+export interface AttachmentUploadViewProps {
+  entry: AttachmentUploadEntry;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+export const AttachmentUploadView = ({ entry, onCancel, onRetry }: AttachmentUploadViewProps) => {
+  const failed = entry.status === 'failed';
+
+  return (
+    <View style={[bubbleStyles.row, bubbleStyles.outgoingRow, bubbleStyles.groupStart]}>
+      <TouchableOpacity
+        disabled={!failed}
+        onPress={onRetry}
+        style={[bubbleStyles.bubble, bubbleStyles.outgoingBubble, styles.bubble]}
+      >
+        {entry.kind === 'image' ? (
+          <Image source={{ uri: entry.file.uri }} style={styles.thumbnail} />
+        ) : (
+          <Text style={bubbleStyles.outgoingText} numberOfLines={1}>
+            📎 {entry.file.name}
+          </Text>
+        )}
+        {!failed &&
+          (entry.progress === undefined ? (
+            <ActivityIndicator color="white" style={styles.progress} />
+          ) : (
+            <View style={[styles.progress, styles.progressTrack]}>
+              <View style={[styles.progressBar, { width: `${Math.round(entry.progress * 100)}%` }]} />
+            </View>
+          ))}
+      </TouchableOpacity>
+      <View style={bubbleStyles.meta}>
+        {failed && <Text style={styles.errorText}>Not sent. Tap to retry. </Text>}
+        {(failed || (entry.cancellable && entry.progress !== 1)) && (
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.cancelText}>{failed ? 'Remove' : 'Cancel'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bubble: {
+    opacity: 0.8,
+  },
+  thumbnail: {
+    width: 160,
+    height: 120,
+    borderRadius: 12,
+  },
+  progress: {
+    marginTop: 6,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#90CAF9',
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: 'white',
+  },
+  errorText: {
+    fontSize: 11,
+    color: '#B71C1C',
+  },
+  cancelText: {
+    fontSize: 11,
+    color: '#2196F3',
+  },
+});
@@ -0,0 +1,46 @@
+/*
+ * ChatHeaderTitle.tsx
+ * ---------------------------------------------------------------------------
+ * Navigation header title for a chat: the user or group name with an optional
+ * status line below it, e.g. who is typing.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+export interface ChatHeaderTitleProps {
+  title: string;
+  subtitle?: string | null;
+  /**
+   * Highlights the subtitle, e.g. while someone is typing.
+   */
+  subtitleActive?: boolean;
+}
+
+export const ChatHeaderTitle = ({ title, subtitle, subtitleActive = false }: ChatHeaderTitleProps) => (
+  <View>
+    <Text style={styles.title} numberOfLines={1}>
+      {title}
+    </Text>
+    {subtitle ? (
+      <Text style={[styles.subtitle, subtitleActive && styles.subtitleActive]} numberOfLines={1}>
+        {subtitle}
+      </Text>
+    ) : null}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#666',
+  },
+  subtitleActive: {
+    color: '#2196F3',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,41 @@
+/*
+ * ConnectionBanner.tsx
+ * ---------------------------------------------------------------------------
+ * Strip at the bottom of the app saying that live updates are paused while
+ * the CometChat socket is connecting or offline. Hidden while connected.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+
+export const ConnectionBanner = () => {
+  const status = useConnectionStatus();
+  const insets = useSafeAreaInsets();
+  if (status === 'connected') return null;
+
+  return (
+    <View
+      style={[styles.banner, status === 'disconnected' && styles.offline, { paddingBottom: 6 + insets.bottom }]}
+      accessibilityRole="alert"
+    >
+      <Text style={styles.text}>{status === 'connecting' ? 'Connecting…' : 'Offline'}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    paddingTop: 6,
+    alignItems: 'center',
+    backgroundColor: '#FFA000',
+  },
+  offline: {
+    backgroundColor: '#616161',
+  },
+  text: {
+    fontSize: 13,
+    color: 'white',
+  },
+});
@@ -0,0 +1,73 @@
+/*
+ * EmojiPicker.tsx
+ * ---------------------------------------------------------------------------
+ * Full emoji picker for reactions, as a bottom sheet with one grid per
+ * category.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { emojiCategories } from '../reactions/emojiCatalog';
+
+export interface EmojiPickerProps {
+  visible: boolean;
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+export const EmojiPicker = ({ visible, onSelect, onClose }: EmojiPickerProps) => (
+  <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+    <Pressable style={styles.backdrop} onPress={onClose}>
+      <View style={styles.sheet} onStartShouldSetResponder={() => true}>
+        <ScrollView>
+          {emojiCategories.map(category => (
+            <View key={category.title}>
+              <Text style={styles.title}>{category.title}</Text>
+              <View style={styles.grid}>
+                {category.emojis.map(emoji => (
+                  <TouchableOpacity key={emoji} onPress={() => onSelect(emoji)} style={styles.emoji}>
+                    <Text style={styles.emojiText}>{emoji}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </Pressable>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '60%',
+    backgroundColor: 'white',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  title: {
+    marginTop: 12,
+    marginBottom: 4,
+    fontSize: 12,
+    color: '#666',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  emoji: {
+    width: '12.5%',
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  emojiText: {
+    fontSize: 24,
+  },
+});
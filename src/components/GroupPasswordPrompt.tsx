@@ -0,0 +1,120 @@
+/*
+ * GroupPasswordPrompt.tsx
+ * ---------------------------------------------------------------------------
+ * Modal asking for the password of a password-protected group before joining.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+
+export interface GroupPasswordPromptProps {
+  /**
+   * Group being joined; the prompt is hidden while this is null.
+   */
+  group: CometChat.Group | null;
+  /**
+   * Whether a join request is in flight.
+   */
+  joining?: boolean;
+  /**
+   * Error from the last join attempt, e.g. a wrong password.
+   */
+  error?: string | null;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const GroupPasswordPrompt = (props: GroupPasswordPromptProps) => {
+  const { group, joining = false, error, onSubmit, onCancel } = props;
+  const [password, setPassword] = useState('');
+  const canSubmit = !joining && password.length > 0;
+
+  const close = () => {
+    setPassword('');
+    onCancel();
+  };
+
+  return (
+    <Modal visible={group != null} transparent animationType="fade" onRequestClose={close}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Join {group?.getName()}</Text>
+          <Text>This group is password protected.</Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Group password"
+            secureTextEntry
+            autoFocus
+            onSubmitEditing={() => canSubmit && onSubmit(password)}
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={close} style={styles.action}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onSubmit(password)}
+              disabled={!canSubmit}
+              style={[styles.action, styles.joinButton, !canSubmit && styles.joinButtonDisabled]}
+            >
+              {joining ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={{ color: 'white' }}>Join</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    padding: 20,
+    backgroundColor: 'white',
+    borderRadius: 12,
+  },
+  title: { fontSize: 18, fontWeight: 'bold', marginBottom: 10 },
+  input: {
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+  },
+  error: { marginTop: 10, color: '#B71C1C' },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  action: {
+    marginLeft: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  cancelText: { color: '#2196F3' },
+  joinButton: { backgroundColor: '#2196F3' },
+  joinButtonDisabled: { backgroundColor: '#90CAF9' },
+});
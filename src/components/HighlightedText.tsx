@@ -0,0 +1,46 @@
+/*
+ * HighlightedText.tsx
+ * ---------------------------------------------------------------------------
+ * Text with every case-insensitive occurrence of a search term emphasized.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+export interface HighlightedTextProps {
+  text: string;
+  /**
+   * Term to highlight; nothing is highlighted when empty.
+   */
+  highlight: string;
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const HighlightedText = (props: HighlightedTextProps) => {
+  const { text, highlight, style, highlightStyle } = props;
+  const term = highlight.trim();
+  if (!term) return <Text style={style}>{text}</Text>;
+
+  // Splitting on a capturing group keeps the matches at the odd indexes.
+  const parts = text.split(new RegExp(`(${escapeRegExp(term)})`, 'i'));
+  return (
+    <Text style={style}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} style={[styles.highlight, highlightStyle]}>
+            {part}
+          </Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: { fontWeight: 'bold', backgroundColor: '#FFF59D' },
+});
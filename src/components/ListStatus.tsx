@@ -0,0 +1,38 @@
+/*
+ * ListStatus.tsx
+ * ---------------------------------------------------------------------------
+ * Loading indicator and end-of-list state shown at the paging edge of a list.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text } from 'react-native';
+
+export interface ListStatusProps {
+  loading: boolean;
+  hasMore: boolean;
+  isEmpty: boolean;
+  endText: string;
+  emptyText: string;
+}
+
+export const ListStatus = (props: ListStatusProps) => {
+  if (props.loading) {
+    return <ActivityIndicator style={styles.listStatus} />;
+  }
+  if (props.hasMore) return null;
+  return (
+    <Text style={[styles.listStatus, styles.listStatusText]}>
+      {props.isEmpty ? props.emptyText : props.endText}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  listStatus: {
+    paddingVertical: 12,
+  },
+  listStatusText: {
+    textAlign: 'center',
+    color: '#888',
+  },
+});
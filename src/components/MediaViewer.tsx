@@ -0,0 +1,104 @@
+/*
+ * MediaViewer.tsx
+ * ---------------------------------------------------------------------------
+ * Full-screen viewer for image and video attachments. The app ships no video
+ * player, so a video shows its thumbnail and plays in the system's player.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  Linking,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+export interface MediaViewerProps {
+  /**
+   * Image or video to show; the viewer is hidden while this is null.
+   */
+  url: string | null;
+  kind?: 'image' | 'video';
+  /**
+   * Video thumbnail shown behind the play button.
+   */
+  posterUrl?: string;
+  caption?: string;
+  onClose: () => void;
+}
+
+export const MediaViewer = ({ url, kind = 'image', posterUrl, caption, onClose }: MediaViewerProps) => {
+  const [loading, setLoading] = useState(true);
+  const imageUrl = kind === 'video' ? posterUrl : url;
+
+  return (
+    <Modal visible={url != null} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {imageUrl && (
+          <Image
+            source={{ uri: imageUrl }}
+            style={styles.image}
+            resizeMode="contain"
+            onLoadStart={() => setLoading(true)}
+            onLoadEnd={() => setLoading(false)}
+          />
+        )}
+        {loading && imageUrl && (
+          <ActivityIndicator style={StyleSheet.absoluteFill} color="white" size="large" />
+        )}
+        {kind === 'video' && url && (
+          <TouchableOpacity
+            onPress={() => Linking.openURL(url).catch(error => console.log('Video open error:', error))}
+            style={styles.playButton}
+            accessibilityLabel="Play video"
+          >
+            <Text style={styles.playText}>▶</Text>
+          </TouchableOpacity>
+        )}
+        {caption ? <Text style={styles.caption}>{caption}</Text> : null}
+        <TouchableOpacity onPress={onClose} style={styles.closeButton} accessibilityLabel="Close">
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    backgroundColor: 'black',
+  },
+  image: {
+    flex: 1,
+  },
+  playButton: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playText: {
+    color: 'white',
+    fontSize: 64,
+  },
+  caption: {
+    color: 'white',
+    padding: 16,
+    textAlign: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 40,
+    right: 20,
+    padding: 8,
+  },
+  closeText: {
+    color: 'white',
+    fontSize: 22,
+  },
+});
@@ -0,0 +1,121 @@
+/*
+ * MessageActionSheet.tsx
+ * ---------------------------------------------------------------------------
+ * Bottom sheet shown on a long press of a message: a quick-pick row of
+ * reactions with a button for the full emoji picker, followed by the actions
+ * available for the message.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { quickReactions } from '../reactions/reactions';
+
+export interface MessageAction {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+export interface MessageActionSheetProps {
+  visible: boolean;
+  /**
+   * Emojis the user already reacted with, highlighted in the quick-pick row.
+   */
+  selectedReactions?: string[];
+  actions: MessageAction[];
+  onReact: (emoji: string) => void;
+  onMoreReactions: () => void;
+  onClose: () => void;
+}
+
+export const MessageActionSheet = (props: MessageActionSheetProps) => {
+  const { visible, selectedReactions = [], actions, onReact, onMoreReactions, onClose } = props;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <View style={styles.sheet}>
+          <View style={styles.reactions}>
+            {quickReactions.map(emoji => (
+              <TouchableOpacity
+                key={emoji}
+                onPress={() => onReact(emoji)}
+                style={[styles.reaction, selectedReactions.includes(emoji) && styles.reactionSelected]}
+              >
+                <Text style={styles.reactionText}>{emoji}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              onPress={onMoreReactions}
+              style={styles.reaction}
+              accessibilityLabel="More reactions"
+            >
+              <Text style={styles.moreText}>＋</Text>
+            </TouchableOpacity>
+          </View>
+          {actions.map(action => (
+            <TouchableOpacity key={action.label} onPress={action.onPress} style={styles.option}>
+              <Text style={[styles.optionText, action.destructive && styles.destructiveText]}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity onPress={onClose} style={styles.option}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingVertical: 8,
+  },
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  reaction: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reactionSelected: {
+    backgroundColor: '#BBDEFB',
+  },
+  reactionText: {
+    fontSize: 24,
+  },
+  moreText: {
+    fontSize: 22,
+    color: '#2196F3',
+  },
+  option: {
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  destructiveText: {
+    color: '#B71C1C',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#2196F3',
+  },
+});
@@ -0,0 +1,273 @@
+/*
+ * MessageBubble.tsx
+ * ---------------------------------------------------------------------------
+ * Renders one chat message according to its category and type: text, media,
+ * custom and deleted messages as bubbles, group actions and calls as centered
+ * system lines. Image and video thumbnails open a full-screen viewer; audio
+ * and other files open in the system's default app. Edited messages are marked as such, and
+ * reactions are shown as chips below the bubble, followed by the number of
+ * thread replies.
+ * ---------------------------------------------------------------------------
+ */
+import React, { JSX, useState } from 'react';
+import { Image, Linking, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { ReactionSummary } from '../reactions/reactions';
+import {
+  isSystemMessage,
+  MessageCategoryConstants,
+  MessageTypeConstants,
+} from '../utils/messageList';
+import { getMediaThumbnail, getMediaUrl } from '../utils/mediaThumbnail';
+import { getMessageReceipt } from '../utils/messageReceipt';
+import { MediaViewer } from './MediaViewer';
+import { MessageReceiptView } from './MessageReceiptView';
+import { ReactionChips } from './ReactionChips';
+
+export interface MessageBubbleProps {
+  message: CometChat.BaseMessage;
+  outgoing: boolean;
+  /**
+   * Show the sender's name above the bubble (first incoming message of a
+   * group chat run).
+   */
+  showSender?: boolean;
+  firstInGroup?: boolean;
+  lastInGroup?: boolean;
+  /**
+   * Called on a long press of the bubble, e.g. to show message actions.
+   */
+  onLongPress?: (message: CometChat.BaseMessage) => void;
+  reactions?: ReactionSummary[];
+  onToggleReaction?: (message: CometChat.BaseMessage, emoji: string) => void;
+  onShowReactions?: (message: CometChat.BaseMessage) => void;
+  /**
+   * Opens the message's thread; the reply count link is hidden without it.
+   */
+  onOpenThread?: (message: CometChat.BaseMessage) => void;
+}
+
+/**
+ * Formats a byte count as a short human readable size.
+ */
+const formatSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatTime = (sentAt: number) =>
+  new Date(sentAt * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Text of a centered system line for action and call messages.
+ */
+const getSystemText = (message: CometChat.BaseMessage) => {
+  if (message.getCategory() === MessageCategoryConstants.call) {
+    const call = message as CometChat.Call;
+    const kind = call.getType() === 'video' ? 'Video call' : 'Voice call';
+    return `📞 ${kind} ${call.getAction() ?? ''}`.trim();
+  }
+  return (message as CometChat.Action).getMessage() || 'Group updated';
+};
+
+interface ContentProps<M extends CometChat.BaseMessage> {
+  message: M;
+  outgoing: boolean;
+  onLongPress?: () => void;
+}
+
+const MediaContent = ({ message, outgoing, onLongPress }: ContentProps<CometChat.MediaMessage>) => {
+  const attachment = message.getAttachment();
+  const url = getMediaUrl(message);
+  const thumbnail = getMediaThumbnail(message);
+  const caption = message.getCaption();
+  const viewerKind =
+    message.getType() === MessageTypeConstants.image
+      ? 'image'
+      : message.getType() === MessageTypeConstants.video
+      ? 'video'
+      : null;
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const textStyle = outgoing ? styles.outgoingText : styles.incomingText;
+
+  let content: JSX.Element;
+  switch (message.getType()) {
+    case MessageTypeConstants.image:
+      content = thumbnail ? (
+        <Image source={{ uri: thumbnail }} style={styles.image} resizeMode="cover" />
+      ) : (
+        <Text style={textStyle}>🖼 Image</Text>
+      );
+      break;
+    case MessageTypeConstants.video:
+      content = (
+        <View style={[styles.image, styles.video]}>
+          {thumbnail && <Image source={{ uri: thumbnail }} style={StyleSheet.absoluteFill} resizeMode="cover" />}
+          <Text style={styles.play}>▶</Text>
+          {!thumbnail && <Text style={styles.videoName}>{attachment?.getName() || 'Video'}</Text>}
+        </View>
+      );
+      break;
+    case MessageTypeConstants.audio:
+      content = <Text style={textStyle}>🎵 {attachment?.getName() || 'Audio'}</Text>;
+      break;
+    default:
+      content = (
+        <Text style={textStyle}>
+          📄 {attachment?.getName() || 'File'} {formatSize(attachment?.getSize())}
+        </Text>
+      );
+  }
+
+  const open = () => {
+    if (!url) return;
+    if (viewerKind) {
+      setViewerOpen(true);
+      return;
+    }
+    Linking.openURL(url).catch(error => console.log("Attachment open error:", error));
+  };
+
+  return (
+    <TouchableOpacity disabled={!url} onPress={open} onLongPress={onLongPress}>
+      {content}
+      {caption ? <Text style={[textStyle, styles.caption]}>{caption}</Text> : null}
+      {viewerKind && (
+        <MediaViewer
+          url={viewerOpen && url ? url : null}
+          kind={viewerKind}
+          posterUrl={thumbnail}
+          caption={caption}
+          onClose={() => setViewerOpen(false)}
+        />
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const BubbleContent = ({ message, outgoing, onLongPress }: ContentProps<CometChat.BaseMessage>) => {
+  const textStyle = outgoing ? styles.outgoingText : styles.incomingText;
+
+  if (message.getDeletedAt()) {
+    return <Text style={[textStyle, styles.deleted]}>🚫 This message was deleted</Text>;
+  }
+  if (message.getCategory() === MessageCategoryConstants.custom) {
+    return <Text style={[textStyle, styles.deleted]}>Unsupported message ({message.getType()})</Text>;
+  }
+  if (message.getType() === MessageTypeConstants.text) {
+    return <Text style={textStyle}>{(message as CometChat.TextMessage).getText()}</Text>;
+  }
+  return (
+    <MediaContent
+      message={message as CometChat.MediaMessage}
+      outgoing={outgoing}
+      onLongPress={onLongPress}
+    />
+  );
+};
+
+export const MessageBubble = (props: MessageBubbleProps) => {
+  const {
+    message,
+    outgoing,
+    showSender = false,
+    firstInGroup = true,
+    lastInGroup = true,
+    onLongPress,
+    reactions = [],
+    onToggleReaction,
+    onShowReactions,
+    onOpenThread,
+  } = props;
+  const replyCount = message.getReplyCount() || 0;
+  const deleted = !!message.getDeletedAt();
+  const edited = !deleted && !!message.getEditedAt();
+  const longPress = onLongPress && !deleted ? () => onLongPress(message) : undefined;
+
+  if (isSystemMessage(message)) {
+    return (
+      <View style={styles.systemRow}>
+        <Text style={styles.systemText}>{getSystemText(message)}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.row,
+        outgoing ? styles.outgoingRow : styles.incomingRow,
+        firstInGroup ? styles.groupStart : styles.groupContinued,
+      ]}
+    >
+      {showSender && <Text style={styles.sender}>{message.getSender().getName()}</Text>}
+      <Pressable
+        onLongPress={longPress}
+        disabled={!longPress}
+        style={[
+          styles.bubble,
+          outgoing ? styles.outgoingBubble : styles.incomingBubble,
+          !lastInGroup && (outgoing ? styles.outgoingBubbleContinued : styles.incomingBubbleContinued),
+        ]}
+      >
+        <BubbleContent message={message} outgoing={outgoing} onLongPress={longPress} />
+      </Pressable>
+      {!deleted && reactions.length > 0 && (
+        <ReactionChips
+          reactions={reactions}
+          onToggle={emoji => onToggleReaction?.(message, emoji)}
+          onShowReactors={() => onShowReactions?.(message)}
+        />
+      )}
+      {onOpenThread && replyCount > 0 && (
+        <TouchableOpacity onPress={() => onOpenThread(message)}>
+          <Text style={styles.replies}>
+            💬 {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {(lastInGroup || edited) && (
+        <View style={styles.meta}>
+          {edited && <Text style={styles.time}>edited{lastInGroup ? ' · ' : ''}</Text>}
+          {lastInGroup && <Text style={styles.time}>{formatTime(message.getSentAt())}</Text>}
+          {lastInGroup && outgoing && !deleted && (
+            <MessageReceiptView receipt={getMessageReceipt(message)} />
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const bubbleStyles = StyleSheet.create({
+  row: { maxWidth: '80%' },
+  outgoingRow: { alignSelf: 'flex-end', alignItems: 'flex-end' },
+  incomingRow: { alignSelf: 'flex-start', alignItems: 'flex-start' },
+  groupStart: { marginTop: 8 },
+  groupContinued: { marginTop: 2 },
+  bubble: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16 },
+  outgoingBubble: { backgroundColor: '#2196F3' },
+  incomingBubble: { backgroundColor: '#ECEFF1' },
+  outgoingBubbleContinued: { borderBottomRightRadius: 4 },
+  incomingBubbleContinued: { borderBottomLeftRadius: 4 },
+  outgoingText: { color: 'white' },
+  incomingText: { color: '#212121' },
+  meta: { flexDirection: 'row', alignItems: 'center', marginTop: 2 },
+  time: { fontSize: 11, color: '#888' },
+});
+
+const styles = StyleSheet.create({
+  ...bubbleStyles,
+  sender: { fontSize: 12, color: '#555', marginBottom: 2, marginLeft: 4 },
+  deleted: { fontStyle: 'italic', opacity: 0.8 },
+  replies: { marginTop: 2, fontSize: 12, color: '#2196F3' },
+  caption: { marginTop: 4 },
+  image: { width: 200, height: 150, borderRadius: 12 },
+  video: { alignItems: 'center', justifyContent: 'center', overflow: 'hidden', backgroundColor: '#263238' },
+  play: { color: 'white', fontSize: 36 },
+  videoName: { color: 'white', fontSize: 12, marginTop: 4, paddingHorizontal: 8 },
+  systemRow: { alignSelf: 'center', marginVertical: 8, paddingHorizontal: 12 },
+  systemText: { fontSize: 12, color: '#666', textAlign: 'center' },
+});
@@ -0,0 +1,36 @@
+/*
+ * MessageReceiptView.tsx
+ * ---------------------------------------------------------------------------
+ * Tick marks for the delivery state of an outgoing message.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, Text } from 'react-native';
+import { MessageReceipt } from '../utils/messageReceipt';
+
+const receiptLabels: Record<MessageReceipt, string> = {
+  [MessageReceipt.WAIT]: '🕓',
+  [MessageReceipt.SENT]: '✓',
+  [MessageReceipt.DELIVERED]: '✓✓',
+  [MessageReceipt.READ]: '✓✓',
+  [MessageReceipt.ERROR]: '!',
+};
+
+export const MessageReceiptView = ({ receipt }: { receipt: MessageReceipt }) => (
+  <Text
+    accessibilityLabel={receipt.toLowerCase()}
+    style={[
+      styles.receipt,
+      receipt === MessageReceipt.READ && styles.read,
+      receipt === MessageReceipt.ERROR && styles.error,
+    ]}
+  >
+    {receiptLabels[receipt]}
+  </Text>
+);
+
+const styles = StyleSheet.create({
+  receipt: { marginLeft: 6, fontSize: 12, color: '#888' },
+  read: { color: '#2196F3' },
+  error: { color: '#B71C1C', fontWeight: 'bold' },
+});
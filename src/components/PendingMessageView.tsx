@@ -0,0 +1,43 @@
+/*
+ * PendingMessageView.tsx
+ * ---------------------------------------------------------------------------
+ * Outgoing bubble for a text message still waiting in the outbox. Failed
+ * messages can be tapped to send them again.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { OutboxEntry } from '../outbox/Outbox';
+import { getOutboxReceipt } from '../utils/messageReceipt';
+import { bubbleStyles } from './MessageBubble';
+import { MessageReceiptView } from './MessageReceiptView';
+
+export interface PendingMessageViewProps {
+  entry: OutboxEntry;
+  onRetry: () => void;
+}
+
+export const PendingMessageView = ({ entry, onRetry }: PendingMessageViewProps) => (
+  <TouchableOpacity
+    disabled={entry.status !== 'failed'}
+    onPress={onRetry}
+    style={[bubbleStyles.row, bubbleStyles.outgoingRow, bubbleStyles.groupStart]}
+  >
+    <View style={[bubbleStyles.bubble, bubbleStyles.outgoingBubble, styles.pendingBubble]}>
+      <Text style={bubbleStyles.outgoingText}>{entry.text}</Text>
+    </View>
+    <View style={bubbleStyles.meta}>
+      {entry.status === 'failed' && <Text style={styles.errorText}>Not sent. Tap to retry. </Text>}
+      <MessageReceiptView receipt={getOutboxReceipt(entry)} />
+    </View>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  pendingBubble: {
+    opacity: 0.6,
+  },
+  errorText: {
+    color: '#B71C1C',
+  },
+});
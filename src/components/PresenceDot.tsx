@@ -0,0 +1,39 @@
+/*
+ * PresenceDot.tsx
+ * ---------------------------------------------------------------------------
+ * Small online/offline dot for a user. Renders nothing when presence is
+ * hidden, e.g. for blocked users.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { getPresenceStatus, UserStatusConstants } from '../utils/presence';
+
+export const PresenceDot = ({ user }: { user: CometChat.User }) => {
+  const status = getPresenceStatus(user);
+  if (!status) return null;
+
+  return (
+    <View
+      accessibilityLabel={status}
+      style={[styles.dot, status === UserStatusConstants.online ? styles.online : styles.offline]}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: 'white',
+  },
+  online: {
+    backgroundColor: '#4CAF50',
+  },
+  offline: {
+    backgroundColor: '#9E9E9E',
+  },
+});
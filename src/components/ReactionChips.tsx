@@ -0,0 +1,59 @@
+/*
+ * ReactionChips.tsx
+ * ---------------------------------------------------------------------------
+ * Aggregated reactions below a message bubble. Tapping a chip toggles the
+ * user's reaction, a long press shows who reacted.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ReactionSummary } from '../reactions/reactions';
+
+export interface ReactionChipsProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string) => void;
+  onShowReactors: () => void;
+}
+
+export const ReactionChips = ({ reactions, onToggle, onShowReactors }: ReactionChipsProps) => (
+  <View style={styles.container}>
+    {reactions.map(summary => (
+      <TouchableOpacity
+        key={summary.emoji}
+        onPress={() => onToggle(summary.emoji)}
+        onLongPress={onShowReactors}
+        accessibilityLabel={`${summary.emoji} ${summary.count}`}
+        style={[styles.chip, summary.reactedByMe && styles.chipSelected]}
+      >
+        <Text style={styles.chipText}>
+          {summary.emoji} {summary.count}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 2,
+  },
+  chip: {
+    marginRight: 4,
+    marginTop: 2,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: 'white',
+  },
+  chipSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#E3F2FD',
+  },
+  chipText: {
+    fontSize: 12,
+  },
+});
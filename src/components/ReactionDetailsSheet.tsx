@@ -0,0 +1,67 @@
+/*
+ * ReactionDetailsSheet.tsx
+ * ---------------------------------------------------------------------------
+ * Bottom sheet listing who reacted to a message with which emoji.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { UserReaction } from '../reactions/reactions';
+
+export interface ReactionDetailsSheetProps {
+  /**
+   * Reactions to list; the sheet is hidden while this is null.
+   */
+  reactions: UserReaction[] | null;
+  onClose: () => void;
+}
+
+export const ReactionDetailsSheet = ({ reactions, onClose }: ReactionDetailsSheetProps) => (
+  <Modal visible={reactions != null} transparent animationType="slide" onRequestClose={onClose}>
+    <Pressable style={styles.backdrop} onPress={onClose}>
+      <View style={styles.sheet} onStartShouldSetResponder={() => true}>
+        <Text style={styles.title}>Reactions</Text>
+        <ScrollView>
+          {reactions?.map(({ emoji, reactor }) => (
+            <View key={`${emoji}_${reactor.uid}`} style={styles.row}>
+              <Text style={styles.emoji}>{emoji}</Text>
+              <Text style={styles.name}>{reactor.name}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </Pressable>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '50%',
+    backgroundColor: 'white',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    padding: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  emoji: {
+    fontSize: 20,
+    width: 36,
+  },
+  name: {
+    fontSize: 15,
+  },
+});
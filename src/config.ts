@@ -0,0 +1,78 @@
+/*
+ * config.ts
+ * ---------------------------------------------------------------------------
+ * Typed access to the app's CometChat settings. Settings come from the
+ * "cometchat" section of app.json by default; nothing secret belongs there,
+ * since the auth token is obtained at login time from `authTokenUrl`.
+ * ---------------------------------------------------------------------------
+ */
+import appJson from '../app.json';
+
+/**
+ * Settings the app needs to talk to CometChat.
+ */
+export interface AppConfig {
+  /**
+   * CometChat app ID.
+   */
+  appId: string;
+  /**
+   * Region the CometChat app is hosted in, e.g. "us", "eu" or "in".
+   */
+  region: string;
+  /**
+   * Endpoint that issues CometChat auth tokens for a UID.
+   */
+  authTokenUrl: string;
+  /**
+   * Optional endpoint that stores attachments, see HttpMediaUploader.
+   * Without it, attachments are uploaded by the SDK, which reports no
+   * progress and cannot be cancelled.
+   */
+  mediaUploadUrl?: string;
+}
+
+/**
+ * Raw, unvalidated settings as read from a config source.
+ */
+export type AppConfigSource = { [K in keyof AppConfig]?: unknown };
+
+/**
+ * Thrown when a config source is missing required settings.
+ */
+export class AppConfigError extends Error {
+  constructor(public readonly missingKeys: Array<keyof AppConfig>) {
+    super(`Missing or invalid app config: ${missingKeys.join(', ')}`);
+    this.name = 'AppConfigError';
+  }
+}
+
+const requiredKeys: Array<keyof AppConfig> = ['appId', 'region', 'authTokenUrl'];
+
+/**
+ * Validates a config source and returns typed settings.
+ * @param source - The raw settings.
+ * @throws AppConfigError if a required setting is missing or not a non-empty string.
+ */
+export const loadAppConfig = (source: AppConfigSource): AppConfig => {
+  const missingKeys = requiredKeys.filter(key => {
+    const value = source[key];
+    return typeof value !== 'string' || value.trim().length === 0;
+  });
+  if (missingKeys.length) {
+    throw new AppConfigError(missingKeys);
+  }
+  return {
+    appId: source.appId as string,
+    region: source.region as string,
+    authTokenUrl: source.authTokenUrl as string,
+    ...(typeof source.mediaUploadUrl === 'string' && source.mediaUploadUrl.trim()
+      ? { mediaUploadUrl: source.mediaUploadUrl }
+      : {}),
+  };
+};
+
+/**
+ * Settings loaded from app.json.
+ */
+export const appConfig: AppConfig = loadAppConfig(appJson.cometchat ?? {});
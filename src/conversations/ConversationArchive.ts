@@ -0,0 +1,64 @@
+/*
+ * ConversationArchive.ts
+ * ---------------------------------------------------------------------------
+ * Archived conversations: the ones a user moved out of the main list, kept in
+ * a KeyValueStorage, and the policy deciding when a new message brings an
+ * archived conversation back.
+ * ---------------------------------------------------------------------------
+ */
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+import { ConversationRef, isConversationRef } from './ConversationRef';
+
+/**
+ * What a new incoming message does to an archived conversation:
+ * - `unarchiveOnMessage`: moves it back to the main list.
+ * - `keepArchivedWhenMuted`: moves it back unless the conversation is muted.
+ */
+export type ArchivePolicy = 'unarchiveOnMessage' | 'keepArchivedWhenMuted';
+
+export class ConversationArchiveStore {
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly keyPrefix = 'conversation_archive'
+  ) {}
+
+  /**
+   * Conversations the user archived, latest first. Empty when nothing was
+   * stored or the stored value can't be read; entries that can't be read are
+   * left out.
+   */
+  async get(uid: string): Promise<ConversationRef[]> {
+    const raw = await this.storage.getItem(this.key(uid));
+    if (!raw) return [];
+    try {
+      const archived = JSON.parse(raw);
+      return Array.isArray(archived) ? archived.filter(isConversationRef) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async set(uid: string, archived: ConversationRef[]) {
+    await this.storage.setItem(this.key(uid), JSON.stringify(archived));
+  }
+
+  private key(uid: string) {
+    return `${this.keyPrefix}:${uid}`;
+  }
+}
+
+export const archiveConversation = (archived: ConversationRef[], conversation: ConversationRef) => [
+  conversation,
+  ...archived.filter(entry => entry.conversationId !== conversation.conversationId),
+];
+
+export const unarchiveConversation = (archived: ConversationRef[], conversationId: string) =>
+  archived.filter(entry => entry.conversationId !== conversationId);
+
+/**
+ * Whether a new incoming message moves an archived conversation back to the
+ * main list.
+ * @param muted - Whether the conversation is muted right now.
+ */
+export const shouldUnarchiveOnMessage = (policy: ArchivePolicy, muted: boolean) =>
+  policy === 'unarchiveOnMessage' || !muted;
@@ -0,0 +1,95 @@
+/*
+ * ConversationMutes.ts
+ * ---------------------------------------------------------------------------
+ * Muted conversations: when each mute ends, per user, kept in a
+ * KeyValueStorage, and the helpers that apply, check and expire mutes.
+ * ---------------------------------------------------------------------------
+ */
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+
+/**
+ * Conversation id -> end of the mute in milliseconds, or null for forever.
+ */
+export type ConversationMutes = Record<string, number | null>;
+
+const hour = 60 * 60 * 1000;
+
+/**
+ * Durations offered by the mute menu, in milliseconds; null mutes forever.
+ */
+export const muteDurations: { label: string; duration: number | null }[] = [
+  { label: '1 hour', duration: hour },
+  { label: '8 hours', duration: 8 * hour },
+  { label: '1 week', duration: 7 * 24 * hour },
+  { label: 'Forever', duration: null },
+];
+
+export class ConversationMuteStore {
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly keyPrefix = 'conversation_mutes'
+  ) {}
+
+  /**
+   * The user's mutes. Empty when nothing was stored or the stored value can't
+   * be read.
+   */
+  async get(uid: string): Promise<ConversationMutes> {
+    const raw = await this.storage.getItem(this.key(uid));
+    if (!raw) return {};
+    try {
+      const stored = JSON.parse(raw);
+      if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+      return Object.fromEntries(
+        Object.entries(stored).filter(([, until]) => until === null || typeof until === 'number')
+      ) as ConversationMutes;
+    } catch {
+      return {};
+    }
+  }
+
+  async set(uid: string, mutes: ConversationMutes) {
+    await this.storage.setItem(this.key(uid), JSON.stringify(mutes));
+  }
+
+  private key(uid: string) {
+    return `${this.keyPrefix}:${uid}`;
+  }
+}
+
+/**
+ * Mutes a conversation for `duration` milliseconds from `now`, or forever.
+ */
+export const muteConversation = (
+  mutes: ConversationMutes,
+  conversationId: string,
+  duration: number | null,
+  now = Date.now()
+): ConversationMutes => ({ ...mutes, [conversationId]: duration === null ? null : now + duration });
+
+export const unmuteConversation = (mutes: ConversationMutes, conversationId: string) => {
+  const { [conversationId]: _removed, ...rest } = mutes;
+  return rest;
+};
+
+export const isConversationMuted = (mutes: ConversationMutes, conversationId: string, now = Date.now()) => {
+  if (!(conversationId in mutes)) return false;
+  const until = mutes[conversationId];
+  return until === null || until > now;
+};
+
+/**
+ * Drops mutes that ended. Returns the same object when none did.
+ */
+export const removeExpiredMutes = (mutes: ConversationMutes, now = Date.now()) => {
+  const active = Object.entries(mutes).filter(([, until]) => until === null || until > now);
+  return active.length === Object.keys(mutes).length ? mutes : Object.fromEntries(active);
+};
+
+/**
+ * When the next mute ends, or null if none will.
+ */
+export const getNextMuteExpiry = (mutes: ConversationMutes) => {
+  const ends = Object.values(mutes).filter((until): until is number => until !== null);
+  return ends.length > 0 ? Math.min(...ends) : null;
+};
@@ -0,0 +1,61 @@
+/*
+ * ConversationPins.ts
+ * ---------------------------------------------------------------------------
+ * Pinned conversations: an ordered list of conversation refs per user, kept
+ * in a KeyValueStorage, and the list operations the pin menu offers. The
+ * first one is shown at the very top.
+ * ---------------------------------------------------------------------------
+ */
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+import { ConversationRef, isConversationRef } from './ConversationRef';
+
+export class ConversationPinStore {
+  constructor(private readonly storage: KeyValueStorage, private readonly keyPrefix = 'conversation_pins') {}
+
+  /**
+   * Conversations the user pinned, in order. Empty when nothing was stored
+   * or the stored value can't be read; entries that can't be read are left
+   * out.
+   */
+  async get(uid: string): Promise<ConversationRef[]> {
+    const raw = await this.storage.getItem(this.key(uid));
+    if (!raw) return [];
+    try {
+      const pins = JSON.parse(raw);
+      return Array.isArray(pins) ? pins.filter(isConversationRef) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async set(uid: string, pins: ConversationRef[]) {
+    await this.storage.setItem(this.key(uid), JSON.stringify(pins));
+  }
+
+  private key(uid: string) {
+    return `${this.keyPrefix}:${uid}`;
+  }
+}
+
+/**
+ * Pins a conversation above the ones already pinned.
+ */
+export const pinConversation = (pinned: ConversationRef[], conversation: ConversationRef) => [
+  conversation,
+  ...pinned.filter(pin => pin.conversationId !== conversation.conversationId),
+];
+
+export const unpinConversation = (pinned: ConversationRef[], conversationId: string) =>
+  pinned.filter(pin => pin.conversationId !== conversationId);
+
+/**
+ * Swaps a pinned conversation with the one above it.
+ */
+export const movePinUp = (pinned: ConversationRef[], conversationId: string) => {
+  const index = pinned.findIndex(pin => pin.conversationId === conversationId);
+  if (index <= 0) return pinned;
+  const moved = [...pinned];
+  moved[index - 1] = pinned[index];
+  moved[index] = pinned[index - 1];
+  return moved;
+};
@@ -0,0 +1,35 @@
+/*
+ * ConversationRef.ts
+ * ---------------------------------------------------------------------------
+ * What the pin and archive stores keep of a conversation: its id, and who it
+ * is with so the conversation can be fetched again when it isn't loaded.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { getTargetId, isGroup } from '../utils/chatTarget';
+
+export interface ConversationRef {
+  conversationId: string;
+  /**
+   * UID or GUID of the other end of the conversation.
+   */
+  conversationWith: string;
+  conversationType: 'user' | 'group';
+}
+
+export const toConversationRef = (conversation: CometChat.Conversation): ConversationRef => {
+  const conversationWith = conversation.getConversationWith();
+  return {
+    conversationId: conversation.getConversationId(),
+    conversationWith: getTargetId(conversationWith),
+    conversationType: isGroup(conversationWith) ? 'group' : 'user',
+  };
+};
+
+/**
+ * Whether a stored value is a complete ConversationRef.
+ */
+export const isConversationRef = (value: any): value is ConversationRef =>
+  typeof value?.conversationId === 'string' &&
+  typeof value.conversationWith === 'string' &&
+  (value.conversationType === 'user' || value.conversationType === 'group');
@@ -0,0 +1,45 @@
+/*
+ * useConnectionStatus.ts
+ * ---------------------------------------------------------------------------
+ * Follows the state of the CometChat socket and calls `onReconnect` when it
+ * comes back, so the caller can refetch what it missed while it was down.
+ * ---------------------------------------------------------------------------
+ */
+import { useEffect, useRef, useState } from 'react';
+import { ConnectionStatus } from '../chat/ChatClient';
+import { useChatClient } from '../chat/ChatClientProvider';
+
+let listenerCounter = 0;
+
+export const useConnectionStatus = (onReconnect?: () => void) => {
+  const chatClient = useChatClient();
+  const [status, setStatus] = useState<ConnectionStatus>(() => chatClient.getConnectionStatus());
+  // Always call the latest callback without re-adding the listener.
+  const callback = useRef(onReconnect);
+  callback.current = onReconnect;
+
+  useEffect(() => {
+    listenerCounter += 1;
+    // Unique per mounted component, several screens can listen at once.
+    const connectionListenerId = "app_connection_" + new Date().getTime() + "_" + listenerCounter;
+    let lastStatus = chatClient.getConnectionStatus();
+    const update = (nextStatus: ConnectionStatus) => {
+      const reconnected = nextStatus === 'connected' && lastStatus !== 'connected';
+      lastStatus = nextStatus;
+      setStatus(nextStatus);
+      if (reconnected) callback.current?.();
+    };
+    setStatus(lastStatus);
+    chatClient.addConnectionListener(connectionListenerId, {
+      onConnected: () => update('connected'),
+      inConnecting: () => update('connecting'),
+      onDisconnected: () => update('disconnected'),
+    });
+
+    return () => {
+      chatClient.removeConnectionListener(connectionListenerId);
+    };
+  }, [chatClient]);
+
+  return status;
+};
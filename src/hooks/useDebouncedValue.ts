@@ -0,0 +1,19 @@
+/*
+ * useDebouncedValue.ts
+ * ---------------------------------------------------------------------------
+ * Returns a value that only follows its input after the input has stopped
+ * changing for `delay` milliseconds.
+ * ---------------------------------------------------------------------------
+ */
+import { useEffect, useState } from 'react';
+
+export const useDebouncedValue = <T>(value: T, delay: number) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
@@ -0,0 +1,19 @@
+/*
+ * useNow.ts
+ * ---------------------------------------------------------------------------
+ * Returns the current time, refreshed every `interval` milliseconds, for
+ * texts like "last seen 5 min ago" that go stale.
+ * ---------------------------------------------------------------------------
+ */
+import { useEffect, useState } from 'react';
+
+export const useNow = (interval: number) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+};
@@ -0,0 +1,73 @@
+/*
+ * usePagedList.ts
+ * ---------------------------------------------------------------------------
+ * Keeps a CometChat request object alive and accumulates the pages it
+ * returns, for lists that load more items as the user scrolls.
+ * ---------------------------------------------------------------------------
+ */
+import { useRef, useState } from 'react';
+
+/**
+ * Anything that returns the next page of items on each call, such as
+ * CometChat.UsersRequest or CometChat.GroupsRequest.
+ */
+export interface PagedRequest<T> {
+  fetchNext(): Promise<T[]>;
+}
+
+/**
+ * Accumulates pages from a PagedRequest.
+ * @param pageSize - The limit the request was built with; a shorter page
+ *   means there is nothing left to fetch.
+ */
+export const usePagedList = <T>(pageSize: number) => {
+  const request = useRef<PagedRequest<T> | null>(null);
+  const loadingRef = useRef(false);
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+
+  const load = (pagedRequest: PagedRequest<T>) => {
+    loadingRef.current = true;
+    setLoading(true);
+    pagedRequest
+      .fetchNext()
+      .then(page => {
+        // Ignore pages that arrive after the list was reset.
+        if (request.current !== pagedRequest) return;
+        setItems(prevItems => [...prevItems, ...page]);
+        setHasMore(page.length === pageSize);
+      })
+      .catch(error => {
+        console.log("List fetch error:", error);
+      })
+      .finally(() => {
+        if (request.current !== pagedRequest) return;
+        loadingRef.current = false;
+        setLoading(false);
+      });
+  };
+
+  /**
+   * Replaces the request, clears the list and loads the first page. Passing
+   * null just clears the list.
+   */
+  const reset = (pagedRequest: PagedRequest<T> | null) => {
+    request.current = pagedRequest;
+    loadingRef.current = false;
+    setItems([]);
+    setHasMore(true);
+    setLoading(false);
+    if (pagedRequest) load(pagedRequest);
+  };
+
+  /**
+   * Loads the next page unless one is already loading or none are left.
+   */
+  const fetchNext = () => {
+    if (!request.current || loadingRef.current || !hasMore) return;
+    load(request.current);
+  };
+
+  return { items, setItems, loading, hasMore, reset, fetchNext };
+};
@@ -0,0 +1,37 @@
+/*
+ * usePresenceUpdates.ts
+ * ---------------------------------------------------------------------------
+ * Calls `onUpdate` whenever a user goes online or offline, for as long as the
+ * calling component is mounted.
+ * ---------------------------------------------------------------------------
+ */
+import { useEffect, useRef } from 'react';
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { useChatClient } from '../chat/ChatClientProvider';
+
+let listenerCounter = 0;
+
+export const usePresenceUpdates = (onUpdate: (user: CometChat.User) => void) => {
+  // Always call the latest callback without re-adding the listener.
+  const chatClient = useChatClient();
+  const callback = useRef(onUpdate);
+  callback.current = onUpdate;
+
+  useEffect(() => {
+    listenerCounter += 1;
+    // Unique per mounted component, several screens can listen at once.
+    const userListenerId = "app_presence_" + new Date().getTime() + "_" + listenerCounter;
+    chatClient.addUserListener(userListenerId, {
+      onUserOnline: onlineUser => {
+        callback.current(onlineUser);
+      },
+      onUserOffline: offlineUser => {
+        callback.current(offlineUser);
+      },
+    });
+
+    return () => {
+      chatClient.removeUserListener(userListenerId);
+    };
+  }, [chatClient]);
+};
@@ -0,0 +1,199 @@
+/*
+ * AttachmentUploads.ts
+ * ---------------------------------------------------------------------------
+ * The attachment flow: check permissions, let the user pick a file, then
+ * upload it as a media message. Running and failed uploads are kept per
+ * conversation so the chat screen can show their progress, cancel them or
+ * retry them. Picker, permissions and uploader are injected so the flow can
+ * run against fakes.
+ * ---------------------------------------------------------------------------
+ */
+import { AttachmentKind, MediaPicker, PickedFile } from './MediaPicker';
+import { MediaPermissions } from './MediaPermissions';
+import { MediaUpload, MediaUploader, UploadCancelledError } from './MediaUploader';
+
+export type AttachmentUploadStatus = 'uploading' | 'failed';
+
+export interface AttachmentUploadEntry {
+  id: string;
+  /**
+   * Key of the conversation the attachment is sent to, e.g. "user_<uid>".
+   */
+  conversationId: string;
+  receiverId: string;
+  receiverType: string;
+  kind: AttachmentKind;
+  file: PickedFile;
+  status: AttachmentUploadStatus;
+  /**
+   * Uploaded fraction (0 to 1), or undefined while unknown.
+   */
+  progress?: number;
+  /**
+   * Whether the running upload can be cancelled. False while the uploader
+   * cannot stop uploads at all.
+   */
+  cancellable?: boolean;
+  error?: string;
+}
+
+export type AttachmentTarget = Pick<
+  AttachmentUploadEntry,
+  'conversationId' | 'receiverId' | 'receiverType'
+>;
+
+/**
+ * Outcome of `pickAndSend`.
+ * - `denied`: the user did not grant access to their media.
+ * - `cancelled`: the user closed the picker without choosing a file.
+ * - `started`: the upload is running; follow it through `subscribe`.
+ */
+export type PickOutcome =
+  | { type: 'denied' }
+  | { type: 'cancelled' }
+  | { type: 'started'; entry: AttachmentUploadEntry };
+
+/**
+ * Events emitted while uploading.
+ * - `changed`: entries were added, updated or removed.
+ * - `sent`: an upload finished; `result` is what the uploader resolved with.
+ */
+export type AttachmentUploadEvent<R> =
+  | { type: 'changed' }
+  | { type: 'sent'; entry: AttachmentUploadEntry; result: R };
+
+export class AttachmentUploads<R> {
+  private entries: AttachmentUploadEntry[] = [];
+  private readonly uploads = new Map<string, MediaUpload<R>>();
+  private readonly listeners = new Set<(event: AttachmentUploadEvent<R>) => void>();
+  private idCounter = 0;
+
+  constructor(
+    private readonly picker: MediaPicker,
+    private readonly permissions: MediaPermissions,
+    private readonly uploader: MediaUploader<R>
+  ) {}
+
+  /**
+   * Asks for media access, shows the picker and starts uploading the chosen
+   * file to the target.
+   */
+  async pickAndSend(kind: AttachmentKind, target: AttachmentTarget): Promise<PickOutcome> {
+    if (!(await this.permissions.ensureAccess(kind))) return { type: 'denied' };
+
+    const file = await this.picker.pick(kind);
+    if (!file) return { type: 'cancelled' };
+
+    this.idCounter += 1;
+    const entry: AttachmentUploadEntry = {
+      ...target,
+      id: `upload_${this.idCounter}`,
+      kind,
+      file,
+      status: 'uploading',
+    };
+    this.entries.push(entry);
+    this.start(entry);
+    return { type: 'started', entry: this.find(entry.id) ?? entry };
+  }
+
+  /**
+   * Running and failed uploads, oldest first, optionally for one conversation.
+   */
+  getEntries(conversationId?: string) {
+    return conversationId
+      ? this.entries.filter(entry => entry.conversationId === conversationId)
+      : [...this.entries];
+  }
+
+  /**
+   * Uploads a failed entry again.
+   */
+  retry(id: string) {
+    const entry = this.find(id);
+    if (!entry || entry.status !== 'failed') return;
+    this.start(entry);
+  }
+
+  /**
+   * Stops a running upload, or dismisses a failed one.
+   * @returns false if the upload could not be stopped anymore; it is then
+   * kept and reported as sent once it finishes.
+   */
+  cancel(id: string) {
+    const upload = this.uploads.get(id);
+    if (upload && !upload.cancel()) return false;
+    this.uploads.delete(id);
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.emit({ type: 'changed' });
+    return true;
+  }
+
+  /**
+   * Cancels every upload and forgets all entries, e.g. on logout. Uploads
+   * that can no longer be stopped still finish, but are not reported.
+   */
+  clear() {
+    this.uploads.forEach(upload => upload.cancel());
+    this.uploads.clear();
+    this.entries = [];
+    this.emit({ type: 'changed' });
+  }
+
+  subscribe(listener: (event: AttachmentUploadEvent<R>) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private start(entry: AttachmentUploadEntry) {
+    const { id } = entry;
+    const upload = this.uploader.upload(
+      {
+        receiverId: entry.receiverId,
+        receiverType: entry.receiverType,
+        kind: entry.kind,
+        file: entry.file,
+      },
+      progress => {
+        if (this.uploads.get(id) === upload) this.update(id, { progress });
+      }
+    );
+    this.uploads.set(id, upload);
+    this.update(id, {
+      status: 'uploading',
+      progress: undefined,
+      cancellable: upload.cancellable,
+      error: undefined,
+    });
+
+    upload.result
+      .then(result => {
+        if (this.uploads.get(id) !== upload) return;
+        const sent = this.find(id);
+        this.uploads.delete(id);
+        this.entries = this.entries.filter(item => item.id !== id);
+        this.emit({ type: 'changed' });
+        if (sent) this.emit({ type: 'sent', entry: sent, result });
+      })
+      .catch(error => {
+        if (this.uploads.get(id) !== upload || error instanceof UploadCancelledError) return;
+        this.uploads.delete(id);
+        this.update(id, { status: 'failed', error: error?.message || 'Attachment could not be sent' });
+      });
+  }
+
+  private find(id: string) {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  private update(id: string, changes: Partial<AttachmentUploadEntry>) {
+    this.entries = this.entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+    this.emit({ type: 'changed' });
+  }
+
+  private emit(event: AttachmentUploadEvent<R>) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
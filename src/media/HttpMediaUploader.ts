@@ -0,0 +1,108 @@
+/*
+ * HttpMediaUploader.ts
+ * ---------------------------------------------------------------------------
+ * Uploads attachments to the app's own media endpoint, then sends a message
+ * that points at the stored file. Unlike the SDK's `sendMediaMessage`, the
+ * HTTP upload reports its progress and can be aborted, so a cancelled upload
+ * never reaches the recipient.
+ * ---------------------------------------------------------------------------
+ */
+import { MediaUpload, MediaUploader, MediaUploadRequest, UploadCancelledError } from './MediaUploader';
+
+/**
+ * A file stored by the media endpoint.
+ */
+export interface UploadedMedia {
+  url: string;
+  name: string;
+  mimeType: string;
+}
+
+/**
+ * Form data part React Native's FormData reads a local file from. The DOM
+ * typings only know strings and Blobs.
+ */
+interface FilePart {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Thrown when the media endpoint fails or answers without a URL.
+ */
+export class MediaUploadError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'MediaUploadError';
+  }
+}
+
+/**
+ * Uploader for an endpoint that receives `POST` multipart form data with the
+ * file in a "file" field and answers with `{"url": "<stored file URL>"}`.
+ *
+ * Progress covers the HTTP upload; it reaches 1 once the file is stored and
+ * the message is being sent. From then on the upload cannot be cancelled.
+ */
+export class HttpMediaUploader<R> implements MediaUploader<R> {
+  constructor(
+    private readonly endpoint: string,
+    private readonly send: (request: MediaUploadRequest, media: UploadedMedia) => Promise<R>,
+    private readonly createRequest: () => XMLHttpRequest = () => new XMLHttpRequest()
+  ) {}
+
+  upload(request: MediaUploadRequest, onProgress: (progress?: number) => void): MediaUpload<R> {
+    const { file } = request;
+    const xhr = this.createRequest();
+    let cancelled = false;
+    let sending = false;
+    let rejectCancelled: (error: Error) => void = () => {};
+
+    const uploaded = new Promise<string>((resolve, reject) => {
+      rejectCancelled = reject;
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable && event.total > 0) onProgress(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        let body: any = null;
+        try {
+          body = JSON.parse(xhr.responseText);
+        } catch {
+          // Fall through; a missing body is reported below.
+        }
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new MediaUploadError(body?.error || `Upload failed with status ${xhr.status}`, xhr.status));
+        } else if (typeof body?.url !== 'string' || !body.url) {
+          reject(new MediaUploadError('Upload response did not contain a url', xhr.status));
+        } else {
+          resolve(body.url);
+        }
+      };
+      xhr.onerror = () => reject(new MediaUploadError('Upload failed'));
+    });
+
+    const form = new FormData();
+    const part: FilePart = { uri: file.uri, name: file.name, type: file.mimeType };
+    form.append('file', part as unknown as Blob);
+    xhr.open('POST', this.endpoint);
+    xhr.send(form);
+
+    return {
+      result: uploaded.then(url => {
+        if (cancelled) throw new UploadCancelledError();
+        sending = true;
+        onProgress(1);
+        return this.send(request, { url, name: file.name, mimeType: file.mimeType });
+      }),
+      cancel: () => {
+        if (sending) return false;
+        cancelled = true;
+        xhr.abort();
+        rejectCancelled(new UploadCancelledError());
+        return true;
+      },
+      cancellable: true,
+    };
+  }
+}
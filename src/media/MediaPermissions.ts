@@ -0,0 +1,54 @@
+/*
+ * MediaPermissions.ts
+ * ---------------------------------------------------------------------------
+ * Abstraction over the OS permissions needed before picking media. The
+ * default implementation asks through `react-native-permissions`.
+ * ---------------------------------------------------------------------------
+ */
+import { Platform } from 'react-native';
+import { check, Permission, PERMISSIONS, request, RESULTS } from 'react-native-permissions';
+import { AttachmentKind } from './MediaPicker';
+
+/**
+ * Checks and requests access to the user's media.
+ */
+export interface MediaPermissions {
+  /**
+   * Resolves with true when the app may read attachments of the given kind,
+   * asking the user first if needed.
+   */
+  ensureAccess(kind: AttachmentKind): Promise<boolean>;
+}
+
+// Android 13 (API 33) split storage access into per-media permissions.
+const androidPermission = (kind: AttachmentKind): Permission | null => {
+  if (Number(Platform.Version) < 33) return PERMISSIONS.ANDROID.READ_EXTERNAL_STORAGE;
+  switch (kind) {
+    case 'image':
+      return PERMISSIONS.ANDROID.READ_MEDIA_IMAGES;
+    case 'video':
+      return PERMISSIONS.ANDROID.READ_MEDIA_VIDEO;
+    case 'audio':
+      return PERMISSIONS.ANDROID.READ_MEDIA_AUDIO;
+    default:
+      // Generic files go through the system picker, which grants access itself.
+      return null;
+  }
+};
+
+const iosPermission = (kind: AttachmentKind): Permission | null =>
+  kind === 'image' || kind === 'video' ? PERMISSIONS.IOS.PHOTO_LIBRARY : null;
+
+/**
+ * Default implementation backed by `react-native-permissions`.
+ */
+export class NativeMediaPermissions implements MediaPermissions {
+  async ensureAccess(kind: AttachmentKind): Promise<boolean> {
+    const permission = Platform.OS === 'android' ? androidPermission(kind) : iosPermission(kind);
+    if (!permission) return true;
+
+    let status = await check(permission);
+    if (status === RESULTS.DENIED) status = await request(permission);
+    return status === RESULTS.GRANTED || status === RESULTS.LIMITED;
+  }
+}
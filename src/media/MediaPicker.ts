@@ -0,0 +1,61 @@
+/*
+ * MediaPicker.ts
+ * ---------------------------------------------------------------------------
+ * Abstraction over how the user picks a file to send. The default picker uses
+ * the system document picker, filtered by the kind of attachment.
+ * ---------------------------------------------------------------------------
+ */
+import { errorCodes, isErrorWithCode, pick, types } from '@react-native-documents/picker';
+
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'file';
+
+export interface PickedFile {
+  /**
+   * Local URI of the file (`content://` on Android, `file://` on iOS).
+   */
+  uri: string;
+  name: string;
+  mimeType: string;
+  /**
+   * Size in bytes, when known.
+   */
+  size?: number;
+}
+
+/**
+ * Lets the user choose a file.
+ */
+export interface MediaPicker {
+  /**
+   * Shows the picker for the given kind of attachment.
+   * @returns The picked file, or null when the user cancelled.
+   */
+  pick(kind: AttachmentKind): Promise<PickedFile | null>;
+}
+
+const pickerTypes: Record<AttachmentKind, string> = {
+  image: types.images,
+  video: types.video,
+  audio: types.audio,
+  file: types.allFiles,
+};
+
+/**
+ * Default picker backed by `@react-native-documents/picker`.
+ */
+export class DocumentMediaPicker implements MediaPicker {
+  async pick(kind: AttachmentKind): Promise<PickedFile | null> {
+    try {
+      const [file] = await pick({ type: pickerTypes[kind] });
+      return {
+        uri: file.uri,
+        name: file.name ?? 'attachment',
+        mimeType: file.type ?? 'application/octet-stream',
+        size: file.size ?? undefined,
+      };
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/*
+ * MediaUploader.ts
+ * ---------------------------------------------------------------------------
+ * Abstraction over uploading a picked file as a chat message.
+ * ---------------------------------------------------------------------------
+ */
+import { AttachmentKind, PickedFile } from './MediaPicker';
+
+export interface MediaUploadRequest {
+  receiverId: string;
+  receiverType: string;
+  kind: AttachmentKind;
+  file: PickedFile;
+}
+
+/**
+ * A running upload.
+ */
+export interface MediaUpload<R> {
+  /**
+   * Resolves with the sent message; rejects with an UploadCancelledError
+   * after `cancel`, or with the upload error.
+   */
+  result: Promise<R>;
+  /**
+   * Stops the upload so that nothing is sent.
+   * @returns false if it is too late to stop, e.g. because the message is
+   * already being sent; the upload then finishes as usual.
+   */
+  cancel(): boolean;
+  /**
+   * Whether `cancel` can stop this upload at all. False for uploaders that
+   * cannot abort a request, like the SDK's.
+   */
+  cancellable: boolean;
+}
+
+/**
+ * Sends files as media messages.
+ */
+export interface MediaUploader<R> {
+  /**
+   * Starts uploading a file.
+   * @param onProgress - Called with the uploaded fraction (0 to 1), or
+   * undefined while the progress is unknown.
+   */
+  upload(request: MediaUploadRequest, onProgress: (progress?: number) => void): MediaUpload<R>;
+}
+
+/**
+ * Rejection reason of a cancelled upload.
+ */
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
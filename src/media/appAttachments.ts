@@ -0,0 +1,63 @@
+/*
+ * appAttachments.ts
+ * ---------------------------------------------------------------------------
+ * The app's attachment flow: system document picker, runtime permissions and
+ * uploads to the media endpoint from `appConfig.mediaUploadUrl`, falling back
+ * to the chat client's `sendMediaMessage` when none is configured.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { chatClient } from '../chat/appChatClient';
+import { appConfig } from '../config';
+import { AttachmentUploads } from './AttachmentUploads';
+import { HttpMediaUploader } from './HttpMediaUploader';
+import { DocumentMediaPicker } from './MediaPicker';
+import { NativeMediaPermissions } from './MediaPermissions';
+import { MediaUploader } from './MediaUploader';
+
+/**
+ * Uploads through the CometChat SDK.
+ *
+ * The SDK neither reports upload progress nor lets a request be aborted, so
+ * progress stays unknown until the message is sent and the upload cannot be
+ * cancelled once it has started.
+ */
+const cometChatUploader: MediaUploader<CometChat.BaseMessage> = {
+  upload: ({ receiverId, receiverType, kind, file }) => {
+    const mediaMessage = new CometChat.MediaMessage(
+      receiverId,
+      { uri: file.uri, name: file.name, type: file.mimeType },
+      kind,
+      receiverType
+    );
+    return {
+      result: chatClient.sendMediaMessage(mediaMessage),
+      cancel: () => false,
+      cancellable: false,
+    };
+  },
+};
+
+/**
+ * Uploads to the app's media endpoint, then sends a media message that links
+ * to the stored file.
+ */
+const httpUploader = (endpoint: string) =>
+  new HttpMediaUploader<CometChat.BaseMessage>(endpoint, ({ receiverId, receiverType, kind }, media) => {
+    const mediaMessage = new CometChat.MediaMessage(receiverId, '', kind, receiverType);
+    mediaMessage.setAttachment(
+      new CometChat.Attachment({
+        url: media.url,
+        name: media.name,
+        mimeType: media.mimeType,
+        extension: media.name.split('.').pop(),
+      })
+    );
+    return chatClient.sendMediaMessage(mediaMessage);
+  });
+
+export const attachmentUploads = new AttachmentUploads<CometChat.BaseMessage>(
+  new DocumentMediaPicker(),
+  new NativeMediaPermissions(),
+  appConfig.mediaUploadUrl ? httpUploader(appConfig.mediaUploadUrl) : cometChatUploader
+);
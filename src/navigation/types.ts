@@ -0,0 +1,42 @@
+/*
+ * types.ts
+ * ---------------------------------------------------------------------------
+ * Route definitions for the app's navigation stack.
+ * ---------------------------------------------------------------------------
+ */
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { ChatTarget, isGroup } from '../utils/chatTarget';
+
+/**
+ * Params of the chat screen. Only IDs are passed so the route stays
+ * serializable; the screen loads the user or group itself.
+ */
+export type ChatRouteParams =
+  | { uid: string; guid?: undefined; name: string }
+  | { guid: string; uid?: undefined; name: string };
+
+/**
+ * Params of the thread screen: the chat the thread belongs to and the ID of
+ * the message it replies to.
+ */
+export type ThreadRouteParams = ChatRouteParams & { parentMessageId: number };
+
+export type RootStackParamList = {
+  Chats: undefined;
+  Users: undefined;
+  Chat: ChatRouteParams;
+  Thread: ThreadRouteParams;
+};
+
+export type RootStackScreenProps<T extends keyof RootStackParamList> = NativeStackScreenProps<
+  RootStackParamList,
+  T
+>;
+
+/**
+ * Builds chat route params for a user or group.
+ */
+export const getChatRouteParams = (target: ChatTarget): ChatRouteParams =>
+  isGroup(target)
+    ? { guid: target.getGuid(), name: target.getName() }
+    : { uid: target.getUid(), name: target.getName() };
@@ -0,0 +1,264 @@
+/*
+ * Outbox.ts
+ * ---------------------------------------------------------------------------
+ * Persistent queue of outgoing messages. Every message gets a local `muid`
+ * and stays in the outbox until the server accepts it, so nothing typed while
+ * offline is lost. Failed sends are retried with exponential backoff; once
+ * `maxAttempts` is reached the entry is marked failed and only a manual
+ * `retry` sends it again. `flush` retries everything right away, e.g. when
+ * the connection comes back.
+ * ---------------------------------------------------------------------------
+ */
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+
+export type OutboxEntryStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  /**
+   * Local message id, also set on the SDK message so the server echoes it.
+   */
+  muid: string;
+  /**
+   * Key of the conversation the message belongs to, e.g. "user_<uid>".
+   */
+  conversationId: string;
+  receiverId: string;
+  receiverType: string;
+  text: string;
+  /**
+   * Set for replies in a thread.
+   */
+  parentMessageId?: number;
+  createdAt: number;
+  status: OutboxEntryStatus;
+  /**
+   * Send attempts since the entry was queued or manually retried.
+   */
+  attempts: number;
+  /**
+   * Error message of the last failed attempt.
+   */
+  error?: string;
+}
+
+export type OutboxInput = Pick<
+  OutboxEntry,
+  'conversationId' | 'receiverId' | 'receiverType' | 'text' | 'parentMessageId'
+>;
+
+/**
+ * Events emitted by the outbox.
+ * - `changed`: entries were added, updated or removed.
+ * - `sent`: the server accepted an entry; `result` is what the sender resolved with.
+ */
+export type OutboxEvent<R> =
+  | { type: 'changed' }
+  | { type: 'sent'; entry: OutboxEntry; result: R };
+
+export interface OutboxOptions {
+  /**
+   * Delay before the first automatic retry, doubled on each further one. Defaults to 2s.
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for the retry delay. Defaults to 60s.
+   */
+  maxDelay?: number;
+  /**
+   * Attempts before an entry is marked failed. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * Storage key for the persisted entries. Defaults to "outbox".
+   */
+  storageKey?: string;
+  now?: () => number;
+}
+
+export class Outbox<R> {
+  private entries: OutboxEntry[] = [];
+  private readonly listeners = new Set<(event: OutboxEvent<R>) => void>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly maxAttempts: number;
+  private readonly storageKey: string;
+  private readonly now: () => number;
+  private muidCounter = 0;
+  // Serializes writes so an older snapshot never overwrites a newer one.
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly send: (entry: OutboxEntry) => Promise<R>,
+    options: OutboxOptions = {}
+  ) {
+    this.baseDelay = options.baseDelay ?? 2000;
+    this.maxDelay = options.maxDelay ?? 60000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.storageKey = options.storageKey ?? 'outbox';
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Restores persisted entries. Entries that were mid-send when the app
+   * stopped are treated as pending; call `flush` to send them.
+   */
+  async load() {
+    let stored: OutboxEntry[] = [];
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      stored = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.log("Outbox read error:", error);
+    }
+    const known = new Set(this.entries.map(entry => entry.muid));
+    this.entries = [
+      ...stored
+        .filter(entry => !known.has(entry.muid))
+        .map(entry => (entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry)),
+      ...this.entries,
+    ];
+    this.emit({ type: 'changed' });
+  }
+
+  /**
+   * Entries waiting to be sent, oldest first, optionally for one conversation.
+   */
+  getEntries(conversationId?: string) {
+    return conversationId
+      ? this.entries.filter(entry => entry.conversationId === conversationId)
+      : [...this.entries];
+  }
+
+  /**
+   * Queues a message and tries to send it right away.
+   */
+  async enqueue(input: OutboxInput) {
+    const entry: OutboxEntry = {
+      ...input,
+      muid: this.createMuid(),
+      createdAt: this.now(),
+      status: 'pending',
+      attempts: 0,
+    };
+    this.entries.push(entry);
+    await this.changed();
+    this.attempt(entry.muid);
+    return entry;
+  }
+
+  /**
+   * Sends a failed or waiting entry again, starting a fresh backoff.
+   */
+  retry(muid: string) {
+    const entry = this.find(muid);
+    if (!entry || entry.status === 'sending') return;
+    this.update(muid, { status: 'pending', attempts: 0, error: undefined });
+    this.attempt(muid);
+  }
+
+  /**
+   * Sends every entry that is not already in flight, skipping any backoff
+   * delay. Failed entries get a fresh set of attempts.
+   */
+  flush() {
+    this.entries
+      .filter(entry => entry.status !== 'sending')
+      .forEach(entry => this.retry(entry.muid));
+  }
+
+  /**
+   * Drops a queued entry without sending it.
+   */
+  async remove(muid: string) {
+    this.clearTimer(muid);
+    this.entries = this.entries.filter(entry => entry.muid !== muid);
+    await this.changed();
+  }
+
+  /**
+   * Drops every entry, e.g. on logout.
+   */
+  async clear() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.entries = [];
+    await this.changed();
+  }
+
+  subscribe(listener: (event: OutboxEvent<R>) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private attempt(muid: string) {
+    this.clearTimer(muid);
+    const entry = this.find(muid);
+    if (!entry || entry.status === 'sending') return;
+
+    const attempts = entry.attempts + 1;
+    this.update(muid, { status: 'sending', attempts });
+    this.send({ ...entry, attempts })
+      .then(async result => {
+        const sent = this.find(muid);
+        if (!sent) return;
+        this.entries = this.entries.filter(item => item.muid !== muid);
+        await this.changed();
+        this.emit({ type: 'sent', entry: sent, result });
+      })
+      .catch(error => {
+        if (!this.find(muid)) return;
+        const message = error?.message || 'Message could not be sent';
+        if (attempts >= this.maxAttempts) {
+          this.update(muid, { status: 'failed', error: message });
+          return;
+        }
+        this.update(muid, { status: 'pending', error: message });
+        const delay = Math.min(this.baseDelay * 2 ** (attempts - 1), this.maxDelay);
+        this.timers.set(
+          muid,
+          setTimeout(() => this.attempt(muid), delay)
+        );
+      });
+  }
+
+  private find(muid: string) {
+    return this.entries.find(entry => entry.muid === muid);
+  }
+
+  private update(muid: string, changes: Partial<OutboxEntry>) {
+    this.entries = this.entries.map(entry =>
+      entry.muid === muid ? { ...entry, ...changes } : entry
+    );
+    this.changed();
+  }
+
+  private clearTimer(muid: string) {
+    const timer = this.timers.get(muid);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(muid);
+  }
+
+  private changed() {
+    this.emit({ type: 'changed' });
+    const snapshot = JSON.stringify(this.entries);
+    this.writeQueue = this.writeQueue
+      .then(() => this.storage.setItem(this.storageKey, snapshot))
+      .catch(error => {
+        console.log("Outbox write error:", error);
+      });
+    return this.writeQueue;
+  }
+
+  private emit(event: OutboxEvent<R>) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private createMuid() {
+    this.muidCounter += 1;
+    return `${this.now().toString(36)}_${this.muidCounter}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
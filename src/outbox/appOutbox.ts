@@ -0,0 +1,43 @@
+/*
+ * appOutbox.ts
+ * ---------------------------------------------------------------------------
+ * The app's outbox: text messages persisted in AsyncStorage and sent through
+ * CometChat, flushed whenever the SDK reconnects.
+ * ---------------------------------------------------------------------------
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { chatClient } from '../chat/appChatClient';
+import { Outbox, OutboxEntry } from './Outbox';
+
+// Unique listener ID for connection events.
+const connectionListenerId = "app_outbox_" + new Date().getTime();
+
+const sendEntry = (entry: OutboxEntry) => {
+  const textMessage = new CometChat.TextMessage(entry.receiverId, entry.text, entry.receiverType);
+  textMessage.setMuid(entry.muid);
+  if (entry.parentMessageId) textMessage.setParentMessageId(entry.parentMessageId);
+  return chatClient.sendMessage(textMessage);
+};
+
+export const outbox = new Outbox<CometChat.BaseMessage>(AsyncStorage, sendEntry);
+
+/**
+ * Restores unsent messages and starts retrying them whenever the connection
+ * comes back. Call once the user is logged in.
+ */
+export const startOutbox = () => {
+  outbox.load().then(() => outbox.flush());
+  chatClient.addConnectionListener(connectionListenerId, {
+    onConnected: () => {
+      outbox.flush();
+    },
+  });
+};
+
+/**
+ * Stops reacting to connection changes. Queued messages are kept.
+ */
+export const stopOutbox = () => {
+  chatClient.removeConnectionListener(connectionListenerId);
+};
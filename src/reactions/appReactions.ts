@@ -0,0 +1,48 @@
+/*
+ * appReactions.ts
+ * ---------------------------------------------------------------------------
+ * Adds, removes and lists reactions through the chat client's reaction
+ * calls.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { chatClient } from '../chat/appChatClient';
+import { UserReaction } from './reactions';
+
+// Most reactions the server returns per page.
+const reactionsPageSize = 100;
+
+/**
+ * Adds the user's reaction to a message.
+ */
+export const addReaction = (message: CometChat.BaseMessage, emoji: string) =>
+  chatClient.addReaction(message.getId(), emoji);
+
+/**
+ * Removes the user's reaction from a message.
+ */
+export const removeReaction = (message: CometChat.BaseMessage, emoji: string) =>
+  chatClient.removeReaction(message.getId(), emoji);
+
+/**
+ * Every reaction on a message with who reacted, oldest first.
+ */
+export const fetchReactions = async (message: CometChat.BaseMessage): Promise<UserReaction[]> => {
+  const request = chatClient
+    .reactionsRequestBuilder()
+    .setMessageId(message.getId())
+    .setLimit(reactionsPageSize)
+    .build();
+  const reactions: UserReaction[] = [];
+  let page: CometChat.Reaction[];
+  do {
+    page = await request.fetchNext();
+    reactions.push(
+      ...page.map(reaction => ({
+        emoji: reaction.getReaction(),
+        reactor: { uid: reaction.getUid(), name: reaction.getReactedBy()?.getName() || reaction.getUid() },
+      }))
+    );
+  } while (page.length === reactionsPageSize);
+  return reactions;
+};
@@ -0,0 +1,44 @@
+/*
+ * emojiCatalog.ts
+ * ---------------------------------------------------------------------------
+ * Emojis offered by the full reaction picker, grouped by category.
+ * ---------------------------------------------------------------------------
+ */
+
+export interface EmojiCategory {
+  title: string;
+  emojis: string[];
+}
+
+const split = (emojis: string) => emojis.trim().split(/\s+/);
+
+export const emojiCategories: EmojiCategory[] = [
+  {
+    title: 'Smileys',
+    emojis: split(`
+      😀 😃 😄 😁 😆 😅 🤣 😂 🙂 🙃 😉 😊 😇 🥰 😍 🤩 😘 😗 😚 😋 😛 😜 🤪 😝
+      🤑 🤗 🤭 🤫 🤔 🤐 🤨 😐 😑 😶 😏 😒 🙄 😬 😌 😔 😪 😴 😷 🤒 🤕 🤢 🤮 🥵
+      🥶 😵 🤯 🤠 🥳 😎 🤓 🧐 😕 😟 🙁 😮 😯 😲 😳 🥺 😦 😧 😨 😰 😥 😢 😭 😱
+      😖 😣 😞 😓 😩 😫 🥱 😤 😡 😠 🤬 😈 💀 💩 🤡 👻 👽 🤖
+    `),
+  },
+  {
+    title: 'Gestures',
+    emojis: split(`
+      👍 👎 👌 🤌 ✌️ 🤞 🤟 🤘 🤙 👈 👉 👆 👇 ☝️ ✋ 🤚 🖐️ 🖖 👋 👏 🙌 👐 🤲 🤝
+      🙏 💪 🫶 👀 🧠
+    `),
+  },
+  {
+    title: 'Hearts',
+    emojis: split(`
+      ❤️ 🧡 💛 💚 💙 💜 🖤 🤍 🤎 💔 ❣️ 💕 💞 💓 💗 💖 💘 💝
+    `),
+  },
+  {
+    title: 'Objects',
+    emojis: split(`
+      🔥 ✨ 🎉 🎊 🎁 🏆 🥇 ⭐ 🌟 💯 ✅ ❌ ❓ ❗ 💡 📌 📎 🔔 ⏰ ☕ 🍕 🍻 🚀 🌈
+    `),
+  },
+];
@@ -0,0 +1,83 @@
+/*
+ * reactions.ts
+ * ---------------------------------------------------------------------------
+ * Emoji reactions on messages, as kept by the SDK: every message carries a
+ * count per emoji (`getReactions()`) that says whether the logged in user is
+ * among the reactors, and reaction events keep those counts up to date.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+
+/**
+ * Emojis offered in the quick-pick row.
+ */
+export const quickReactions = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export interface Reactor {
+  uid: string;
+  name: string;
+}
+
+/**
+ * One emoji's reactions on a message.
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  /**
+   * Whether the logged in user is among the reactors.
+   */
+  reactedByMe: boolean;
+}
+
+/**
+ * One user's reaction, as listed in the reaction details.
+ */
+export interface UserReaction {
+  emoji: string;
+  reactor: Reactor;
+}
+
+/**
+ * Reactions on a message, one entry per emoji, most used first.
+ */
+export const getMessageReactions = (message: CometChat.BaseMessage): ReactionSummary[] =>
+  (message.getReactions?.() ?? [])
+    .map(reaction => ({
+      emoji: reaction.getReaction(),
+      count: reaction.getCount(),
+      reactedByMe: reaction.getReactedByMe(),
+    }))
+    .filter(summary => summary.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+/**
+ * Copy of a message with one reaction added or removed, for showing the
+ * user's own change before the server confirms it and for applying reaction
+ * events. Changes by the logged in user are only counted once, so their own
+ * reaction event after an optimistic update changes nothing.
+ * @param byMe - Whether the reaction is the logged in user's.
+ */
+export const applyReactionChange = (
+  message: CometChat.BaseMessage,
+  emoji: string,
+  byMe: boolean,
+  added: boolean
+): CometChat.BaseMessage => {
+  const reactions = message.getReactions?.() ?? [];
+  const current = reactions.find(reaction => reaction.getReaction() === emoji);
+  if (byMe && added === !!current?.getReactedByMe()) return message;
+  if (!added && !current) return message;
+
+  const count = (current?.getCount() ?? 0) + (added ? 1 : -1);
+  const reactedByMe = byMe ? added : !!current?.getReactedByMe();
+  const updated = current
+    ? reactions.map(reaction =>
+        reaction === current ? new CometChat.ReactionCount(emoji, count, reactedByMe) : reaction
+      )
+    : [...reactions, new CometChat.ReactionCount(emoji, count, reactedByMe)];
+
+  const copy: CometChat.BaseMessage = Object.assign(Object.create(Object.getPrototypeOf(message)), message);
+  copy.setReactions(updated.filter(reaction => reaction.getCount() > 0));
+  return copy;
+};
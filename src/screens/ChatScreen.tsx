@@ -0,0 +1,869 @@
+/*
+ * ChatScreen.tsx
+ * ---------------------------------------------------------------------------
+ * One-to-one or group chat: paged message history, live incoming messages and
+ * a composer for sending text and attachments. Messages are rendered as
+ * type-aware bubbles with date separators; outgoing messages go through the
+ * outbox and, like running uploads, are shown at the bottom until the server
+ * accepts them. Typing is signalled while the composer is edited, and the
+ * header shows who is typing on the other end. Incoming messages are marked
+ * read once they are on screen, and outgoing ones follow live receipts. In
+ * one-to-one chats the header shows the other user's presence. A long press
+ * on a message offers reactions, a reply in its thread and, for own messages,
+ * edit and delete. Thread replies stay out of the main list; their parents
+ * show a reply count instead. After a reconnect the newest messages are
+ * fetched again and merged in.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AppState,
+  View,
+  Text,
+  ActivityIndicator,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ViewToken,
+} from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { reconcileMessages } from '../cache/MessageCache';
+import { getConversationCacheKey, messageCache } from '../cache/appMessageCache';
+import { useChatClient } from '../chat/ChatClientProvider';
+import { AttachmentMenu } from '../components/AttachmentMenu';
+import { AttachmentUploadView } from '../components/AttachmentUploadView';
+import { ChatHeaderTitle } from '../components/ChatHeaderTitle';
+import { EmojiPicker } from '../components/EmojiPicker';
+import { ListStatus } from '../components/ListStatus';
+import { MessageActionSheet, MessageAction } from '../components/MessageActionSheet';
+import { MessageBubble } from '../components/MessageBubble';
+import { PendingMessageView } from '../components/PendingMessageView';
+import { ReactionDetailsSheet } from '../components/ReactionDetailsSheet';
+import { attachmentUploads } from '../media/appAttachments';
+import { AttachmentUploadEntry } from '../media/AttachmentUploads';
+import { AttachmentKind } from '../media/MediaPicker';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import { useNow } from '../hooks/useNow';
+import { usePresenceUpdates } from '../hooks/usePresenceUpdates';
+import { outbox } from '../outbox/appOutbox';
+import { OutboxEntry } from '../outbox/Outbox';
+import { RootStackScreenProps } from '../navigation/types';
+import { addReaction, fetchReactions, removeReaction } from '../reactions/appReactions';
+import { applyReactionChange, getMessageReactions, UserReaction } from '../reactions/reactions';
+import { TypingNotifier } from '../typing/TypingNotifier';
+import { getTypingText, TypingTracker, TypingUser } from '../typing/TypingTracker';
+import {
+  ChatTarget,
+  getReceiverType,
+  getTargetId,
+  isGroup,
+  isMessageForTarget,
+  isReceiptForTarget,
+  isTypingForTarget,
+} from '../utils/chatTarget';
+import {
+  buildMessageRows,
+  getDateSeparatorLabel,
+  incrementReplyCount,
+  isSystemMessage,
+  MessageRow,
+  MessageTypeConstants,
+  replaceMessage,
+} from '../utils/messageList';
+import {
+  applyReceipt,
+  getMessageToMarkRead,
+  ReceiptUpdate,
+} from '../utils/messageReceipt';
+import { applyPresence, getPresenceText } from '../utils/presence';
+
+// Page size used for message history.
+const pageSize = 30;
+
+let listenerCounter = 0;
+
+const getMessageId = (message: CometChat.BaseMessage) => message.getId();
+
+// How often relative times like "last seen 5 min ago" are refreshed.
+const presenceRefreshInterval = 60 * 1000;
+
+// An item counts as seen once this much of it is on screen.
+const viewabilityConfig = { itemVisiblePercentThreshold: 50 };
+
+// Appends a message the server accepted unless the listener already added it.
+const appendSentMessage = (messages: CometChat.BaseMessage[], message: CometChat.BaseMessage) =>
+  messages.some(item => item.getId() === message.getId()) ? messages : [...messages, message];
+
+export const ChatScreen = ({ navigation, route }: RootStackScreenProps<'Chat'>) => {
+  const { uid, guid, name } = route.params;
+  const chatClient = useChatClient();
+  const [target, setTarget] = useState<ChatTarget | null>(null);
+  const [targetError, setTargetError] = useState<string | null>(null);
+  // The other user of a one-to-one chat, kept apart from `target` so presence
+  // updates don't reload the conversation.
+  const [presenceUser, setPresenceUser] = useState<CometChat.User | null>(null);
+  const now = useNow(presenceRefreshInterval);
+  const [messages, setMessages] = useState<CometChat.BaseMessage[]>([]);
+  const [pendingEntries, setPendingEntries] = useState<OutboxEntry[]>([]);
+  const [uploadEntries, setUploadEntries] = useState<AttachmentUploadEntry[]>([]);
+  const [attachmentMenuVisible, setAttachmentMenuVisible] = useState(false);
+  // Own text message being edited in the composer.
+  const [editingMessage, setEditingMessage] = useState<CometChat.TextMessage | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  // Message whose action sheet or emoji picker is open.
+  const [actionMessage, setActionMessage] = useState<CometChat.BaseMessage | null>(null);
+  const [emojiPickerMessage, setEmojiPickerMessage] = useState<CometChat.BaseMessage | null>(null);
+  const [reactionDetails, setReactionDetails] = useState<UserReaction[] | null>(null);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [typingTracker] = useState(() => new TypingTracker());
+  const typingNotifier = useRef<TypingNotifier | null>(null);
+  // Messages on screen, and the newest incoming one already marked read.
+  const visibleMessages = useRef<CometChat.BaseMessage[]>([]);
+  const lastMarkedReadId = useRef(0);
+  const [draft, setDraft] = useState('');
+  const messageListRef = useRef<FlatList<MessageRow>>(null);
+  const loggedInUser = useRef<CometChat.User | null>(null);
+  const [loggedInUid, setLoggedInUid] = useState<string>();
+  // Kept alive so each fetch continues from the last page of history.
+  const messagesRequest = useRef<CometChat.MessagesRequest | null>(null);
+  const [loadingMessages, setLoadingMessages] = useState(true);
+  const [hasMoreMessages, setHasMoreMessages] = useState(true);
+  // Set when the list should follow new content at the bottom (initial load,
+  // new or sent messages) but not when older pages are prepended.
+  const scrollToEndOnChange = useRef(false);
+  // Set once the cached messages were read, so the (still empty) list never
+  // overwrites the cache before that.
+  const cacheLoaded = useRef(false);
+
+  // Load the user or group the chat is with.
+  useEffect(() => {
+    chatClient.getLoggedInUser()
+      .then(user => {
+        loggedInUser.current = user;
+        setLoggedInUid(user?.getUid());
+      })
+      .catch(error => console.log(error));
+
+    const loadTarget: Promise<ChatTarget> = guid !== undefined
+      ? chatClient.getGroup(guid)
+      : chatClient.getUser(uid);
+    loadTarget
+      .then(loadedTarget => {
+        setTarget(loadedTarget);
+        setPresenceUser(isGroup(loadedTarget) ? null : loadedTarget);
+      })
+      .catch(error => {
+        console.log("Chat load error:", error);
+        setTargetError(error?.message || 'Could not open this chat');
+        setLoadingMessages(false);
+      });
+  }, [uid, guid]);
+
+  // Pages backwards from the newest message. Thread replies are read in the
+  // thread screen, not here.
+  const buildMessagesRequest = (chatTarget: ChatTarget) => {
+    const builder = chatClient.messagesRequestBuilder().setLimit(pageSize).hideReplies(true);
+    return (
+      isGroup(chatTarget) ? builder.setGUID(chatTarget.getGuid()) : builder.setUID(chatTarget.getUid())
+    ).build();
+  };
+
+  // Show cached messages right away, then reconcile them with the newest page
+  // of history once the target is known.
+  useEffect(() => {
+    if (!target) return;
+
+    const cacheKey = getConversationCacheKey(target);
+    const request = buildMessagesRequest(target);
+    messagesRequest.current = request;
+    cacheLoaded.current = false;
+    setLoadingMessages(true);
+
+    messageCache
+      .get(cacheKey)
+      .then(cached => {
+        if (messagesRequest.current !== request || cached.length === 0) return;
+        scrollToEndOnChange.current = true;
+        setMessages(prevMessages => reconcileMessages(cached, prevMessages, getMessageId));
+      })
+      .catch(error => {
+        console.log("Message cache read error:", error);
+      })
+      .then(() => {
+        if (messagesRequest.current !== request) return;
+        cacheLoaded.current = true;
+        return request.fetchPrevious().then(msgs => {
+          if (messagesRequest.current !== request) return;
+          scrollToEndOnChange.current = true;
+          setMessages(prevMessages =>
+            reconcileMessages(prevMessages, msgs, getMessageId, msgs.length < pageSize)
+          );
+          setHasMoreMessages(msgs.length === pageSize);
+        });
+      })
+      .catch(error => {
+        console.log("Message fetch error:", error);
+      })
+      .finally(() => {
+        if (messagesRequest.current === request) setLoadingMessages(false);
+      });
+
+    return () => {
+      messagesRequest.current = null;
+    };
+  }, [target]);
+
+  // Keep the cache in step with what is shown.
+  useEffect(() => {
+    if (!target || !cacheLoaded.current) return;
+    messageCache.put(getConversationCacheKey(target), messages).catch(error => {
+      console.log("Message cache write error:", error);
+    });
+  }, [target, messages]);
+
+  // Listen for messages in this conversation only. Removed when the screen is
+  // closed or unmounted.
+  useEffect(() => {
+    if (!target) return;
+    listenerCounter += 1;
+    // Unique per mounted screen, several chats can be open in the stack.
+    const chatListenerId = "app_chat_" + new Date().getTime() + "_" + listenerCounter;
+
+    const appendMessage = (message: CometChat.BaseMessage) => {
+      if (!isMessageForTarget(message, target, loggedInUser.current?.getUid())) return;
+      // A message from someone means they stopped typing it.
+      typingTracker.ended(message.getSender().getUid());
+      if (message.getParentMessageId()) {
+        setMessages(prevMessages => incrementReplyCount(prevMessages, message.getParentMessageId()));
+        return;
+      }
+      if (message.getSender().getUid() !== loggedInUser.current?.getUid()) {
+        chatClient.markAsDelivered(message);
+      }
+      scrollToEndOnChange.current = true;
+      setMessages(prevMessages =>
+        prevMessages.some(item => item.getId() === message.getId())
+          ? prevMessages
+          : [...prevMessages, message]
+      );
+    };
+
+    const updateMessage = (message: CometChat.BaseMessage) => {
+      if (!isMessageForTarget(message, target, loggedInUser.current?.getUid())) return;
+      setMessages(prevMessages => replaceMessage(prevMessages, message));
+    };
+
+    const updateReceipts = (receipt: CometChat.MessageReceipt, update: ReceiptUpdate) => {
+      if (!isReceiptForTarget(receipt, target)) return;
+      setMessages(prevMessages =>
+        applyReceipt(prevMessages, update, loggedInUser.current?.getUid())
+      );
+    };
+
+    const updateReaction = (reaction: CometChat.Reaction, added: boolean) => {
+      const messageId = Number(reaction.getMessageId());
+      const byMe = reaction.getUid() === loggedInUser.current?.getUid();
+      setMessages(prevMessages =>
+        prevMessages.map(item =>
+          item.getId() === messageId
+            ? applyReactionChange(item, reaction.getReaction(), byMe, added)
+            : item
+        )
+      );
+    };
+
+    chatClient.addMessageListener(chatListenerId, {
+      onTextMessageReceived: (textMessage: CometChat.TextMessage) => {
+        appendMessage(textMessage);
+      },
+      onMediaMessageReceived: (mediaMessage: CometChat.MediaMessage) => {
+        appendMessage(mediaMessage);
+      },
+      onCustomMessageReceived: (customMessage: CometChat.CustomMessage) => {
+        appendMessage(customMessage);
+      },
+      onTypingStarted: (typingIndicator: CometChat.TypingIndicator) => {
+        if (!isTypingForTarget(typingIndicator, target)) return;
+        const sender = typingIndicator.getSender();
+        typingTracker.started({ uid: sender.getUid(), name: sender.getName() });
+      },
+      onTypingEnded: (typingIndicator: CometChat.TypingIndicator) => {
+        if (!isTypingForTarget(typingIndicator, target)) return;
+        typingTracker.ended(typingIndicator.getSender().getUid());
+      },
+      onMessagesDelivered: (messageReceipt: CometChat.MessageReceipt) => {
+        updateReceipts(messageReceipt, {
+          type: 'delivered',
+          messageId: Number(messageReceipt.getMessageId()),
+          timestamp: messageReceipt.getDeliveredAt(),
+        });
+      },
+      onMessagesRead: (messageReceipt: CometChat.MessageReceipt) => {
+        updateReceipts(messageReceipt, {
+          type: 'read',
+          messageId: Number(messageReceipt.getMessageId()),
+          timestamp: messageReceipt.getReadAt(),
+        });
+      },
+      onMessageEdited: (editedMessage: CometChat.BaseMessage) => {
+        updateMessage(editedMessage);
+      },
+      onMessageDeleted: (deletedMessage: CometChat.BaseMessage) => {
+        updateMessage(deletedMessage);
+      },
+      onMessageReactionAdded: (reactionEvent: CometChat.ReactionEvent) => {
+        updateReaction(reactionEvent.getReaction(), true);
+      },
+      onMessageReactionRemoved: (reactionEvent: CometChat.ReactionEvent) => {
+        updateReaction(reactionEvent.getReaction(), false);
+      },
+    });
+
+    return () => {
+      chatClient.removeMessageListener(chatListenerId);
+      typingTracker.clear();
+    };
+  }, [target, typingTracker]);
+
+  useEffect(() => typingTracker.subscribe(setTypingUsers), [typingTracker]);
+
+  // Messages, edits and receipts sent while the socket was down never reached
+  // the listener, so merge in the newest page again once it is back. The list
+  // keeps its scroll position.
+  useConnectionStatus(() => {
+    if (!target || !messagesRequest.current) return;
+
+    const shownRequest = messagesRequest.current;
+    const newestShownId = messages.length > 0 ? messages[messages.length - 1].getId() : 0;
+    const request = buildMessagesRequest(target);
+    request.fetchPrevious().then(msgs => {
+      if (messagesRequest.current !== shownRequest) return;
+      setMessages(prevMessages =>
+        reconcileMessages(prevMessages, msgs, getMessageId, msgs.length < pageSize)
+      );
+      // More was missed than one page holds. Page on from the fetched one so
+      // scrolling up fills the gap before reaching what was shown already.
+      if (msgs.length === pageSize && msgs[0].getId() > newestShownId) {
+        messagesRequest.current = request;
+        setHasMoreMessages(true);
+        setLoadingMessages(false);
+      }
+    }).catch(error => {
+      console.log("Message resync error:", error);
+    });
+  });
+
+  // Marks the newest incoming message on screen read, which also covers the
+  // ones before it. Skipped while the app is in the background.
+  const markVisibleMessagesRead = () => {
+    if (AppState.currentState !== 'active') return;
+    const message = getMessageToMarkRead(
+      visibleMessages.current,
+      loggedInUser.current?.getUid(),
+      lastMarkedReadId.current
+    );
+    if (!message) return;
+    lastMarkedReadId.current = message.getId();
+    chatClient.markAsRead(message);
+  };
+  // FlatList requires the same callback for its whole lifetime.
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken<MessageRow>[] }) => {
+    visibleMessages.current = viewableItems.flatMap(({ item }) =>
+      item.kind === 'message' ? [item.message] : []
+    );
+    markVisibleMessagesRead();
+  }).current;
+
+  // Catch up on messages that arrived on screen while the app was in the
+  // background.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') markVisibleMessagesRead();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    visibleMessages.current = [];
+    lastMarkedReadId.current = 0;
+  }, [target]);
+
+  // Signal our own typing to the other end; ends it when leaving the chat.
+  useEffect(() => {
+    if (!target) return;
+
+    const indicator = () => new CometChat.TypingIndicator(getTargetId(target), getReceiverType(target));
+    const notifier = new TypingNotifier({
+      start: () => chatClient.startTyping(indicator()),
+      end: () => chatClient.endTyping(indicator()),
+    });
+    typingNotifier.current = notifier;
+    return () => {
+      notifier.stop();
+      typingNotifier.current = null;
+    };
+  }, [target]);
+
+  usePresenceUpdates(update => {
+    setPresenceUser(prevUser =>
+      prevUser && prevUser.getUid() === update.getUid() ? applyPresence(prevUser, update) : prevUser
+    );
+  });
+
+  // Show who is typing below the chat name, or else the other user's presence.
+  useEffect(() => {
+    const typingText = getTypingText(typingUsers, target != null && isGroup(target));
+    const subtitle = typingText ?? (presenceUser ? getPresenceText(presenceUser, now) : null);
+    navigation.setOptions({
+      headerTitle: () => (
+        <ChatHeaderTitle title={name} subtitle={subtitle} subtitleActive={typingText != null} />
+      ),
+    });
+  }, [navigation, name, target, typingUsers, presenceUser, now]);
+
+  // Show this conversation's unsent messages and move them into the list once
+  // the server accepts them.
+  useEffect(() => {
+    if (!target) return;
+
+    const cacheKey = getConversationCacheKey(target);
+    setPendingEntries(outbox.getEntries(cacheKey));
+    return outbox.subscribe(event => {
+      if (event.type === 'changed') {
+        setPendingEntries(outbox.getEntries(cacheKey));
+        return;
+      }
+      const { parentMessageId } = event.entry;
+      if (parentMessageId) {
+        // A reply sent from this chat's thread screen.
+        setMessages(prevMessages => incrementReplyCount(prevMessages, parentMessageId));
+        return;
+      }
+      if (event.entry.conversationId !== cacheKey) return;
+      scrollToEndOnChange.current = true;
+      setMessages(prevMessages => appendSentMessage(prevMessages, event.result));
+    });
+  }, [target]);
+
+  // Same for attachments that are still uploading.
+  useEffect(() => {
+    if (!target) return;
+
+    const cacheKey = getConversationCacheKey(target);
+    setUploadEntries(attachmentUploads.getEntries(cacheKey));
+    return attachmentUploads.subscribe(event => {
+      if (event.type === 'changed') {
+        setUploadEntries(attachmentUploads.getEntries(cacheKey));
+        return;
+      }
+      if (event.entry.conversationId !== cacheKey) return;
+      scrollToEndOnChange.current = true;
+      setMessages(prevMessages => appendSentMessage(prevMessages, event.result));
+    });
+  }, [target]);
+
+  const fetchOlderMessages = () => {
+    const request = messagesRequest.current;
+    if (!request || loadingMessages || !hasMoreMessages) return;
+
+    setLoadingMessages(true);
+    request.fetchPrevious().then(msgs => {
+      // Ignore pages that arrive after the chat was closed.
+      if (messagesRequest.current !== request) return;
+      setMessages(prevMessages =>
+        reconcileMessages(prevMessages, msgs, getMessageId, msgs.length < pageSize)
+      );
+      setHasMoreMessages(msgs.length === pageSize);
+    }).catch(error => {
+      console.log("Message fetch error:", error);
+    }).finally(() => {
+      if (messagesRequest.current === request) setLoadingMessages(false);
+    });
+  };
+
+  const rows = useMemo(() => buildMessageRows(messages, loggedInUid), [messages, loggedInUid]);
+
+  const sendMessage = () => {
+    const text = draft.trim();
+    if (!target || !text) return;
+
+    scrollToEndOnChange.current = true;
+    setDraft('');
+    typingNotifier.current?.stop();
+    outbox.enqueue({
+      conversationId: getConversationCacheKey(target),
+      receiverId: getTargetId(target),
+      receiverType: getReceiverType(target),
+      text,
+    });
+  };
+
+  const startEditing = (message: CometChat.TextMessage) => {
+    typingNotifier.current?.stop();
+    setEditingMessage(message);
+    setDraft(message.getText());
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setDraft('');
+  };
+
+  const saveEdit = () => {
+    const text = draft.trim();
+    if (!target || !editingMessage || !text) return;
+    if (text === editingMessage.getText()) {
+      cancelEditing();
+      return;
+    }
+
+    const textMessage = new CometChat.TextMessage(getTargetId(target), text, getReceiverType(target));
+    textMessage.setId(editingMessage.getId());
+    setSavingEdit(true);
+    chatClient.editMessage(textMessage)
+      .then(editedMessage => {
+        setMessages(prevMessages => replaceMessage(prevMessages, editedMessage));
+        cancelEditing();
+      })
+      .catch(error => {
+        console.log("Message edit error:", error);
+        Alert.alert('Error', error?.message || 'Could not edit the message.');
+      })
+      .finally(() => setSavingEdit(false));
+  };
+
+  const deleteMessage = (message: CometChat.BaseMessage) => {
+    if (editingMessage?.getId() === message.getId()) cancelEditing();
+    chatClient.deleteMessage(message.getId())
+      .then(deletedMessage => {
+        setMessages(prevMessages => replaceMessage(prevMessages, deletedMessage));
+      })
+      .catch(error => {
+        console.log("Message delete error:", error);
+        Alert.alert('Error', error?.message || 'Could not delete the message.');
+      });
+  };
+
+  const openThread = (message: CometChat.BaseMessage) => {
+    navigation.navigate('Thread', { ...route.params, parentMessageId: message.getId() });
+  };
+
+  /**
+   * Reply in thread for every message, edit and delete for own messages.
+   */
+  const getMessageActions = (message: CometChat.BaseMessage): MessageAction[] => {
+    const replyInThread = {
+      label: 'Reply in thread',
+      onPress: () => {
+        setActionMessage(null);
+        openThread(message);
+      },
+    };
+    if (message.getSender().getUid() !== loggedInUid) return [replyInThread];
+
+    const confirmDelete = () => {
+      setActionMessage(null);
+      Alert.alert('Delete message?', 'It will be deleted for everyone in this chat.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteMessage(message) },
+      ]);
+    };
+    const edit = () => {
+      setActionMessage(null);
+      startEditing(message as CometChat.TextMessage);
+    };
+
+    return [
+      replyInThread,
+      ...(message.getType() === MessageTypeConstants.text ? [{ label: 'Edit', onPress: edit }] : []),
+      { label: 'Delete', destructive: true, onPress: confirmDelete },
+    ];
+  };
+
+  /**
+   * Adds or removes the user's reaction, showing the change right away and
+   * undoing it if the server refuses.
+   */
+  const toggleReaction = (message: CometChat.BaseMessage, emoji: string) => {
+    setActionMessage(null);
+    setEmojiPickerMessage(null);
+    const user = loggedInUser.current;
+    if (!user) return;
+
+    const added = !getMessageReactions(message).some(
+      summary => summary.emoji === emoji && summary.reactedByMe
+    );
+    const applyChange = (add: boolean) =>
+      setMessages(prevMessages =>
+        prevMessages.map(item =>
+          item.getId() === message.getId() ? applyReactionChange(item, emoji, true, add) : item
+        )
+      );
+
+    applyChange(added);
+    (added ? addReaction : removeReaction)(message, emoji).catch(error => {
+      console.log("Reaction error:", error);
+      applyChange(!added);
+      Alert.alert('Error', 'Could not update the reaction.');
+    });
+  };
+
+  const showReactionDetails = (message: CometChat.BaseMessage) => {
+    fetchReactions(message)
+      .then(setReactionDetails)
+      .catch(error => {
+        console.log("Reactions fetch error:", error);
+        Alert.alert('Error', 'Could not load the reactions.');
+      });
+  };
+
+  const sendAttachment = (kind: AttachmentKind) => {
+    setAttachmentMenuVisible(false);
+    if (!target) return;
+
+    attachmentUploads
+      .pickAndSend(kind, {
+        conversationId: getConversationCacheKey(target),
+        receiverId: getTargetId(target),
+        receiverType: getReceiverType(target),
+      })
+      .then(outcome => {
+        if (outcome.type === 'started') scrollToEndOnChange.current = true;
+        if (outcome.type === 'denied') {
+          Alert.alert('No access', 'Allow access to your media in the system settings to send attachments.');
+        }
+      })
+      .catch(error => {
+        console.log("Attachment pick error:", error);
+        Alert.alert('Error', 'Could not open the attachment picker.');
+      });
+  };
+
+  if (targetError) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.errorText}>{targetError}</Text>
+      </View>
+    );
+  }
+
+  if (!target) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        ref={messageListRef}
+        data={rows}
+        keyExtractor={(item) => item.key}
+        renderItem={({ item }) =>
+          item.kind === 'date' ? (
+            <Text style={styles.dateSeparator}>{getDateSeparatorLabel(item.sentAt)}</Text>
+          ) : (
+            <MessageBubble
+              message={item.message}
+              outgoing={item.outgoing}
+              showSender={isGroup(target) && !item.outgoing && item.firstInGroup}
+              firstInGroup={item.firstInGroup}
+              lastInGroup={item.lastInGroup}
+              onLongPress={isSystemMessage(item.message) ? undefined : setActionMessage}
+              reactions={getMessageReactions(item.message)}
+              onToggleReaction={toggleReaction}
+              onShowReactions={showReactionDetails}
+              onOpenThread={openThread}
+            />
+          )
+        }
+        onContentSizeChange={() => {
+          if (!scrollToEndOnChange.current) return;
+          scrollToEndOnChange.current = false;
+          messageListRef.current?.scrollToEnd({ animated: true });
+        }}
+        onScroll={({ nativeEvent }) => {
+          if (nativeEvent.contentOffset.y < 40) fetchOlderMessages();
+        }}
+        scrollEventThrottle={100}
+        viewabilityConfig={viewabilityConfig}
+        onViewableItemsChanged={onViewableItemsChanged}
+        // Keeps the visible messages in place when older pages are prepended.
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        ListHeaderComponent={
+          <ListStatus
+            loading={loadingMessages}
+            hasMore={hasMoreMessages}
+            isEmpty={
+              messages.length === 0 && pendingEntries.length === 0 && uploadEntries.length === 0
+            }
+            endText="No more messages"
+            emptyText="No messages yet"
+          />
+        }
+        ListFooterComponent={
+          <>
+            {pendingEntries.map(entry => (
+              <PendingMessageView
+                key={entry.muid}
+                entry={entry}
+                onRetry={() => outbox.retry(entry.muid)}
+              />
+            ))}
+            {uploadEntries.map(entry => (
+              <AttachmentUploadView
+                key={entry.id}
+                entry={entry}
+                onCancel={() => {
+                  if (!attachmentUploads.cancel(entry.id)) {
+                    Alert.alert('Too late to cancel', 'The attachment is already being sent.');
+                  }
+                }}
+                onRetry={() => attachmentUploads.retry(entry.id)}
+              />
+            ))}
+          </>
+        }
+      />
+      {editingMessage && (
+        <View style={styles.editingBar}>
+          <Text style={styles.editingText} numberOfLines={1}>
+            Editing: {editingMessage.getText()}
+          </Text>
+          <TouchableOpacity onPress={cancelEditing}>
+            <Text style={styles.editingCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <View style={styles.composer}>
+        {!editingMessage && (
+          <TouchableOpacity
+            onPress={() => setAttachmentMenuVisible(true)}
+            style={styles.attachButton}
+            accessibilityLabel="Send attachment"
+          >
+            <Text style={styles.attachText}>＋</Text>
+          </TouchableOpacity>
+        )}
+        <TextInput
+          style={styles.composerInput}
+          value={draft}
+          onChangeText={text => {
+            setDraft(text);
+            if (!editingMessage) typingNotifier.current?.onTextChanged(text);
+          }}
+          placeholder="Type a message"
+          multiline
+        />
+        <TouchableOpacity
+          onPress={editingMessage ? saveEdit : sendMessage}
+          disabled={!draft.trim() || savingEdit}
+          style={[styles.sendButton, (!draft.trim() || savingEdit) && styles.sendButtonDisabled]}
+        >
+          {savingEdit ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={{ color: 'white' }}>{editingMessage ? 'Save' : 'Send'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      <AttachmentMenu
+        visible={attachmentMenuVisible}
+        onSelect={sendAttachment}
+        onCancel={() => setAttachmentMenuVisible(false)}
+      />
+      <MessageActionSheet
+        visible={actionMessage != null}
+        selectedReactions={
+          actionMessage
+            ? getMessageReactions(actionMessage)
+                .filter(summary => summary.reactedByMe)
+                .map(summary => summary.emoji)
+            : []
+        }
+        actions={actionMessage ? getMessageActions(actionMessage) : []}
+        onReact={emoji => actionMessage && toggleReaction(actionMessage, emoji)}
+        onMoreReactions={() => {
+          setEmojiPickerMessage(actionMessage);
+          setActionMessage(null);
+        }}
+        onClose={() => setActionMessage(null)}
+      />
+      <EmojiPicker
+        visible={emojiPickerMessage != null}
+        onSelect={emoji => emojiPickerMessage && toggleReaction(emojiPickerMessage, emoji)}
+        onClose={() => setEmojiPickerMessage(null)}
+      />
+      <ReactionDetailsSheet reactions={reactionDetails} onClose={() => setReactionDetails(null)} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 20 },
+  centered: { justifyContent: 'center', alignItems: 'center' },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginTop: 10,
+  },
+  editingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderLeftWidth: 3,
+    borderLeftColor: '#2196F3',
+    backgroundColor: '#F5F5F5',
+  },
+  editingText: {
+    flex: 1,
+    color: '#555',
+  },
+  editingCancel: {
+    marginLeft: 8,
+    color: '#2196F3',
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 20,
+  },
+  attachButton: {
+    marginRight: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  attachText: {
+    fontSize: 22,
+    color: '#2196F3',
+  },
+  sendButton: {
+    marginLeft: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#2196F3',
+    borderRadius: 20,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#90CAF9',
+  },
+  dateSeparator: {
+    alignSelf: 'center',
+    marginVertical: 8,
+    fontSize: 12,
+    color: '#666',
+  },
+  errorText: {
+    color: '#B71C1C',
+  },
+});
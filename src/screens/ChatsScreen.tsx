@@ -0,0 +1,65 @@
+/*
+ * ChatsScreen.tsx
+ * ---------------------------------------------------------------------------
+ * Home screen listing the logged in user's conversations, with a search bar
+ * to find older ones. Pins, mutes and the archive are kept in AsyncStorage;
+ * archived conversations stay archived on new messages while muted.
+ * ---------------------------------------------------------------------------
+ */
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { CometChatConversations } from '../../cometchat-uikit-react-native/src/CometChatConversations';
+import { RootStackScreenProps } from '../navigation/types';
+
+export interface ChatsScreenProps extends RootStackScreenProps<'Chats'> {
+  onLogout: () => void;
+}
+
+export const ChatsScreen = ({ navigation, onLogout }: ChatsScreenProps) => {
+  const openConversation = (conversation: CometChat.Conversation) => {
+    const conversationWith = conversation.getConversationWith();
+    if (conversationWith instanceof CometChat.Group) {
+      navigation.navigate('Chat', {
+        guid: conversationWith.getGuid(),
+        name: conversationWith.getName(),
+      });
+    } else {
+      navigation.navigate('Chat', {
+        uid: conversationWith.getUid(),
+        name: conversationWith.getName(),
+      });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <CometChatConversations
+        showSearch
+        searchPlaceholderText="Search chats"
+        pinStorage={AsyncStorage}
+        muteStorage={AsyncStorage}
+        archiveStorage={AsyncStorage}
+        archivePolicy="keepArchivedWhenMuted"
+        onItemPress={openConversation}
+        AppBarOptions={() => (
+          <View style={styles.appBarOptions}>
+            <TouchableOpacity onPress={() => navigation.navigate('Users')}>
+              <Text style={styles.action}>New chat</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onLogout}>
+              <Text style={styles.action}>Log out</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  appBarOptions: { flexDirection: 'row', gap: 16 },
+  action: { color: '#2196F3' },
+});
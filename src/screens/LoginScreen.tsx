@@ -0,0 +1,100 @@
+/*
+ * LoginScreen.tsx
+ * ---------------------------------------------------------------------------
+ * Asks for the UID of the CometChat user to log in as.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+
+export interface LoginScreenProps {
+  /**
+   * Called with the trimmed UID when the user submits the form.
+   */
+  onLogin: (uid: string) => void;
+  /**
+   * Whether a login request is in flight.
+   */
+  loading?: boolean;
+  /**
+   * Error message from the last failed login attempt.
+   */
+  error?: string | null;
+  /**
+   * UID to prefill, e.g. the one from the last session.
+   */
+  initialUid?: string;
+}
+
+export const LoginScreen = (props: LoginScreenProps) => {
+  const { onLogin, loading = false, error, initialUid = '' } = props;
+  const [uid, setUid] = useState(initialUid);
+  const canSubmit = !loading && uid.trim().length > 0;
+
+  const submit = () => {
+    if (!canSubmit) return;
+    onLogin(uid.trim());
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.header}>Log in to CometChat</Text>
+      <TextInput
+        style={styles.input}
+        value={uid}
+        onChangeText={setUid}
+        placeholder="User UID, e.g. cometchat-uid-1"
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="go"
+        onSubmitEditing={submit}
+        editable={!loading}
+      />
+      {error && <Text style={styles.error}>{error}</Text>}
+      <TouchableOpacity
+        onPress={submit}
+        disabled={!canSubmit}
+        style={[styles.button, !canSubmit && styles.buttonDisabled]}
+      >
+        {loading ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text style={{ color: 'white' }}>Log in</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 20, marginTop: 30, justifyContent: 'center' },
+  header: { fontSize: 18, fontWeight: 'bold', marginBottom: 10 },
+  input: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+  },
+  error: {
+    marginTop: 10,
+    color: '#B71C1C',
+  },
+  button: {
+    marginTop: 20,
+    backgroundColor: '#2196F3',
+    padding: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: '#90CAF9',
+  },
+});
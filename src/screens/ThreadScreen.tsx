@@ -0,0 +1,348 @@
+/*
+ * ThreadScreen.tsx
+ * ---------------------------------------------------------------------------
+ * Replies to one message: the parent message pinned at the top, paged and
+ * live replies below it, and a composer whose messages are sent into the
+ * thread through the outbox.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ActivityIndicator,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { reconcileMessages } from '../cache/MessageCache';
+import { getThreadCacheKey } from '../cache/appMessageCache';
+import { useChatClient } from '../chat/ChatClientProvider';
+import { ListStatus } from '../components/ListStatus';
+import { MessageBubble } from '../components/MessageBubble';
+import { PendingMessageView } from '../components/PendingMessageView';
+import { outbox } from '../outbox/appOutbox';
+import { OutboxEntry } from '../outbox/Outbox';
+import { RootStackScreenProps } from '../navigation/types';
+import { ChatTarget, getReceiverType, getTargetId, isGroup } from '../utils/chatTarget';
+import {
+  buildMessageRows,
+  getDateSeparatorLabel,
+  MessageRow,
+  replaceMessage,
+} from '../utils/messageList';
+
+// Page size used for thread replies.
+const pageSize = 30;
+
+let listenerCounter = 0;
+
+const getMessageId = (message: CometChat.BaseMessage) => message.getId();
+
+export const ThreadScreen = ({ route }: RootStackScreenProps<'Thread'>) => {
+  const { uid, guid, parentMessageId } = route.params;
+  const chatClient = useChatClient();
+  const [target, setTarget] = useState<ChatTarget | null>(null);
+  const [parentMessage, setParentMessage] = useState<CometChat.BaseMessage | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [replies, setReplies] = useState<CometChat.BaseMessage[]>([]);
+  const [pendingEntries, setPendingEntries] = useState<OutboxEntry[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loggedInUid, setLoggedInUid] = useState<string>();
+  const replyListRef = useRef<FlatList<MessageRow>>(null);
+  // Kept alive so each fetch continues from the last page of replies.
+  const repliesRequest = useRef<CometChat.MessagesRequest | null>(null);
+  const [loadingReplies, setLoadingReplies] = useState(true);
+  const [hasMoreReplies, setHasMoreReplies] = useState(true);
+  // Set when the list should follow new replies at the bottom.
+  const scrollToEndOnChange = useRef(false);
+
+  // Load the chat the thread belongs to and the message it replies to.
+  useEffect(() => {
+    chatClient.getLoggedInUser()
+      .then(user => setLoggedInUid(user?.getUid()))
+      .catch(error => console.log(error));
+
+    const loadTarget: Promise<ChatTarget> = guid !== undefined
+      ? chatClient.getGroup(guid)
+      : chatClient.getUser(uid);
+    Promise.all([loadTarget, chatClient.getMessageDetails(parentMessageId)])
+      .then(([loadedTarget, parent]) => {
+        setTarget(loadedTarget);
+        setParentMessage(parent);
+      })
+      .catch(error => {
+        console.log("Thread load error:", error);
+        setLoadError(error?.message || 'Could not open this thread');
+        setLoadingReplies(false);
+      });
+  }, [uid, guid, parentMessageId]);
+
+  // Load the newest page of replies.
+  useEffect(() => {
+    const request = chatClient.messagesRequestBuilder()
+      .setParentMessageId(parentMessageId)
+      .setLimit(pageSize)
+      .build();
+    repliesRequest.current = request;
+    setLoadingReplies(true);
+
+    request.fetchPrevious().then(msgs => {
+      if (repliesRequest.current !== request) return;
+      scrollToEndOnChange.current = true;
+      setReplies(prevReplies =>
+        reconcileMessages(prevReplies, msgs, getMessageId, msgs.length < pageSize)
+      );
+      setHasMoreReplies(msgs.length === pageSize);
+    }).catch(error => {
+      console.log("Reply fetch error:", error);
+    }).finally(() => {
+      if (repliesRequest.current === request) setLoadingReplies(false);
+    });
+
+    return () => {
+      repliesRequest.current = null;
+    };
+  }, [parentMessageId]);
+
+  // Listen for new, edited and deleted replies, and changes to the parent.
+  useEffect(() => {
+    listenerCounter += 1;
+    // Unique per mounted screen, several threads can be open in the stack.
+    const threadListenerId = "app_thread_" + new Date().getTime() + "_" + listenerCounter;
+    const appendReply = (message: CometChat.BaseMessage) => {
+      if (message.getParentMessageId() !== parentMessageId) return;
+      scrollToEndOnChange.current = true;
+      setReplies(prevReplies =>
+        prevReplies.some(item => item.getId() === message.getId())
+          ? prevReplies
+          : [...prevReplies, message]
+      );
+    };
+
+    const updateMessage = (message: CometChat.BaseMessage) => {
+      if (message.getId() === parentMessageId) {
+        setParentMessage(message);
+        return;
+      }
+      setReplies(prevReplies => replaceMessage(prevReplies, message));
+    };
+
+    chatClient.addMessageListener(threadListenerId, {
+      onTextMessageReceived: (textMessage: CometChat.TextMessage) => {
+        appendReply(textMessage);
+      },
+      onMediaMessageReceived: (mediaMessage: CometChat.MediaMessage) => {
+        appendReply(mediaMessage);
+      },
+      onCustomMessageReceived: (customMessage: CometChat.CustomMessage) => {
+        appendReply(customMessage);
+      },
+      onMessageEdited: (editedMessage: CometChat.BaseMessage) => {
+        updateMessage(editedMessage);
+      },
+      onMessageDeleted: (deletedMessage: CometChat.BaseMessage) => {
+        updateMessage(deletedMessage);
+      },
+    });
+
+    return () => {
+      chatClient.removeMessageListener(threadListenerId);
+    };
+  }, [parentMessageId]);
+
+  // Show the thread's unsent replies and move them into the list once the
+  // server accepts them.
+  useEffect(() => {
+    const threadKey = getThreadCacheKey(parentMessageId);
+    setPendingEntries(outbox.getEntries(threadKey));
+    return outbox.subscribe(event => {
+      if (event.type === 'changed') {
+        setPendingEntries(outbox.getEntries(threadKey));
+        return;
+      }
+      if (event.entry.conversationId !== threadKey) return;
+      const sentReply = event.result;
+      scrollToEndOnChange.current = true;
+      setReplies(prevReplies =>
+        prevReplies.some(item => item.getId() === sentReply.getId())
+          ? prevReplies
+          : [...prevReplies, sentReply]
+      );
+    });
+  }, [parentMessageId]);
+
+  const fetchOlderReplies = () => {
+    const request = repliesRequest.current;
+    if (!request || loadingReplies || !hasMoreReplies) return;
+
+    setLoadingReplies(true);
+    request.fetchPrevious().then(msgs => {
+      if (repliesRequest.current !== request) return;
+      setReplies(prevReplies =>
+        reconcileMessages(prevReplies, msgs, getMessageId, msgs.length < pageSize)
+      );
+      setHasMoreReplies(msgs.length === pageSize);
+    }).catch(error => {
+      console.log("Reply fetch error:", error);
+    }).finally(() => {
+      if (repliesRequest.current === request) setLoadingReplies(false);
+    });
+  };
+
+  const rows = useMemo(() => buildMessageRows(replies, loggedInUid), [replies, loggedInUid]);
+
+  const sendReply = () => {
+    const text = draft.trim();
+    if (!target || !text) return;
+
+    scrollToEndOnChange.current = true;
+    setDraft('');
+    outbox.enqueue({
+      conversationId: getThreadCacheKey(parentMessageId),
+      receiverId: getTargetId(target),
+      receiverType: getReceiverType(target),
+      text,
+      parentMessageId,
+    });
+  };
+
+  if (loadError) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.errorText}>{loadError}</Text>
+      </View>
+    );
+  }
+
+  if (!target || !parentMessage) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.parent}>
+        <MessageBubble
+          message={parentMessage}
+          outgoing={parentMessage.getSender().getUid() === loggedInUid}
+          showSender
+        />
+      </View>
+      <FlatList
+        ref={replyListRef}
+        data={rows}
+        keyExtractor={(item) => item.key}
+        renderItem={({ item }) =>
+          item.kind === 'date' ? (
+            <Text style={styles.dateSeparator}>{getDateSeparatorLabel(item.sentAt)}</Text>
+          ) : (
+            <MessageBubble
+              message={item.message}
+              outgoing={item.outgoing}
+              showSender={isGroup(target) && !item.outgoing && item.firstInGroup}
+              firstInGroup={item.firstInGroup}
+              lastInGroup={item.lastInGroup}
+            />
+          )
+        }
+        onContentSizeChange={() => {
+          if (!scrollToEndOnChange.current) return;
+          scrollToEndOnChange.current = false;
+          replyListRef.current?.scrollToEnd({ animated: true });
+        }}
+        onScroll={({ nativeEvent }) => {
+          if (nativeEvent.contentOffset.y < 40) fetchOlderReplies();
+        }}
+        scrollEventThrottle={100}
+        // Keeps the visible replies in place when older pages are prepended.
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        ListHeaderComponent={
+          <ListStatus
+            loading={loadingReplies}
+            hasMore={hasMoreReplies}
+            isEmpty={replies.length === 0 && pendingEntries.length === 0}
+            endText="Start of the thread"
+            emptyText="No replies yet"
+          />
+        }
+        ListFooterComponent={
+          <>
+            {pendingEntries.map(entry => (
+              <PendingMessageView
+                key={entry.muid}
+                entry={entry}
+                onRetry={() => outbox.retry(entry.muid)}
+              />
+            ))}
+          </>
+        }
+      />
+      <View style={styles.composer}>
+        <TextInput
+          style={styles.composerInput}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Reply in thread"
+          multiline
+        />
+        <TouchableOpacity
+          onPress={sendReply}
+          disabled={!draft.trim()}
+          style={[styles.sendButton, !draft.trim() && styles.sendButtonDisabled]}
+        >
+          <Text style={{ color: 'white' }}>Reply</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 20 },
+  centered: { justifyContent: 'center', alignItems: 'center' },
+  parent: {
+    paddingBottom: 8,
+    marginBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  dateSeparator: {
+    alignSelf: 'center',
+    marginVertical: 8,
+    fontSize: 12,
+    color: '#666',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginTop: 10,
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 20,
+  },
+  sendButton: {
+    marginLeft: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#2196F3',
+    borderRadius: 20,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#90CAF9',
+  },
+  errorText: {
+    color: '#B71C1C',
+  },
+});
@@ -0,0 +1,238 @@
+/*
+ * UsersScreen.tsx
+ * ---------------------------------------------------------------------------
+ * Directory of users and groups to start a chat with. Groups that the logged
+ * in user has not joined yet are joined here before the chat opens. Users show
+ * a live presence dot.
+ * ---------------------------------------------------------------------------
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { useChatClient } from '../chat/ChatClientProvider';
+import { GroupPasswordPrompt } from '../components/GroupPasswordPrompt';
+import { HighlightedText } from '../components/HighlightedText';
+import { ListStatus } from '../components/ListStatus';
+import { PresenceDot } from '../components/PresenceDot';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePagedList } from '../hooks/usePagedList';
+import { usePresenceUpdates } from '../hooks/usePresenceUpdates';
+import { getChatRouteParams, RootStackScreenProps } from '../navigation/types';
+import { ChatTarget, GroupTypeConstants, isGroup } from '../utils/chatTarget';
+import { applyPresence } from '../utils/presence';
+
+// Page size used for the user and group directories.
+const pageSize = 30;
+
+// Delay after the last keystroke before the user search runs.
+const searchDebounce = 300;
+
+export const UsersScreen = ({ navigation }: RootStackScreenProps<'Users'>) => {
+  const chatClient = useChatClient();
+  const users = usePagedList<CometChat.User>(pageSize);
+  const groups = usePagedList<CometChat.Group>(pageSize);
+  const [directory, setDirectory] = useState<'users' | 'groups'>('users');
+  const [query, setQuery] = useState('');
+  const keyword = useDebouncedValue(query.trim(), searchDebounce);
+  const [passwordGroup, setPasswordGroup] = useState<CometChat.Group | null>(null);
+  const [joiningGroup, setJoiningGroup] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  useEffect(() => {
+    groups.reset(chatClient.groupsRequestBuilder().setLimit(pageSize).build());
+  }, []);
+
+  // Every keyword gets a fresh request; pages from the previous one are
+  // dropped by usePagedList, so a slow earlier search can't overwrite results.
+  useEffect(() => {
+    const builder = chatClient.usersRequestBuilder().setLimit(pageSize);
+    users.reset((keyword ? builder.setSearchKeyword(keyword) : builder).build());
+  }, [keyword]);
+
+  usePresenceUpdates(update => {
+    users.setItems(prevUsers =>
+      prevUsers.map(item => (item.getUid() === update.getUid() ? applyPresence(item, update) : item))
+    );
+  });
+
+  const openChat = (target: ChatTarget) => {
+    if (isGroup(target) && !target.getHasJoined()) {
+      requestGroupJoin(target);
+      return;
+    }
+    navigation.navigate('Chat', getChatRouteParams(target));
+  };
+
+  /**
+   * Groups must be joined before their history can be read. Public groups are
+   * joined right away, password groups ask for the password first.
+   */
+  const requestGroupJoin = (group: CometChat.Group) => {
+    switch (group.getType()) {
+      case GroupTypeConstants.public:
+        joinGroup(group);
+        break;
+      case GroupTypeConstants.password:
+        setJoinError(null);
+        setPasswordGroup(group);
+        break;
+      default:
+        Alert.alert(group.getName(), 'This group is private. Ask an admin to add you.');
+    }
+  };
+
+  const joinGroup = (group: CometChat.Group, password = '') => {
+    setJoiningGroup(true);
+    setJoinError(null);
+    const groupType = group.getType() as CometChat.GroupType;
+    chatClient.joinGroup(group.getGuid(), groupType, password)
+      .then(joinedGroup => {
+        setJoiningGroup(false);
+        setPasswordGroup(null);
+        groups.setItems(prevGroups =>
+          prevGroups.map(item => (item.getGuid() === joinedGroup.getGuid() ? joinedGroup : item))
+        );
+        openChat(joinedGroup);
+      })
+      .catch(error => {
+        console.log("Group join failed", error);
+        setJoiningGroup(false);
+        if (group.getType() === GroupTypeConstants.password) {
+          setJoinError(error?.message || 'Could not join the group');
+        } else {
+          Alert.alert(group.getName(), error?.message || 'Could not join the group');
+        }
+      });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.tabs}>
+        {(['users', 'groups'] as const).map(tab => (
+          <TouchableOpacity
+            key={tab}
+            onPress={() => setDirectory(tab)}
+            style={[styles.tab, directory === tab && styles.tabSelected]}
+          >
+            <Text style={directory === tab ? styles.tabTextSelected : undefined}>
+              {tab === 'users' ? 'Users' : 'Groups'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {directory === 'users' && (
+        <TextInput
+          style={styles.search}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search users"
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      )}
+      {directory === 'users' ? (
+        <FlatList
+          data={users.items}
+          keyExtractor={(item) => item.getUid()}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => (
+            <TouchableOpacity onPress={() => openChat(item)} style={[styles.userItem, styles.userRow]}>
+              <HighlightedText text={item.getName()} highlight={keyword} style={styles.userName} />
+              <PresenceDot user={item} />
+            </TouchableOpacity>
+          )}
+          onEndReached={users.fetchNext}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            <ListStatus
+              loading={users.loading}
+              hasMore={users.hasMore}
+              isEmpty={users.items.length === 0}
+              endText="No more users"
+              emptyText={keyword ? `No users match "${keyword}"` : 'No users found'}
+            />
+          }
+        />
+      ) : (
+        <FlatList
+          data={groups.items}
+          keyExtractor={(item) => item.getGuid()}
+          renderItem={({ item }) => (
+            <TouchableOpacity onPress={() => openChat(item)} style={styles.userItem}>
+              <Text>{item.getName()}</Text>
+              <Text style={styles.groupInfo}>
+                {item.getType()} · {item.getMembersCount()} members
+                {item.getHasJoined() ? '' : ' · tap to join'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          onEndReached={groups.fetchNext}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            <ListStatus
+              loading={groups.loading}
+              hasMore={groups.hasMore}
+              isEmpty={groups.items.length === 0}
+              endText="No more groups"
+              emptyText="No groups found"
+            />
+          }
+        />
+      )}
+      <GroupPasswordPrompt
+        key={passwordGroup?.getGuid()}
+        group={passwordGroup}
+        joining={joiningGroup}
+        error={joinError}
+        onSubmit={password => passwordGroup && joinGroup(passwordGroup, password)}
+        onCancel={() => setPasswordGroup(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, padding: 20 },
+  tabs: {
+    flexDirection: 'row',
+    marginBottom: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    overflow: 'hidden',
+  },
+  tab: { flex: 1, padding: 8, alignItems: 'center' },
+  tabSelected: { backgroundColor: '#2196F3' },
+  tabTextSelected: { color: 'white' },
+  search: {
+    marginBottom: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+  },
+  userItem: {
+    padding: 12,
+    marginBottom: 10,
+    backgroundColor: '#87CEEB',
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  userRow: { flexDirection: 'row', alignItems: 'center' },
+  userName: { flex: 1 },
+  groupInfo: { marginTop: 4, fontSize: 12, color: '#555' },
+});
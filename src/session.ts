@@ -0,0 +1,39 @@
+/*
+ * session.ts
+ * ---------------------------------------------------------------------------
+ * Persists the UID of the last logged in user so the app can restore the
+ * session on the next launch without asking for it again.
+ * ---------------------------------------------------------------------------
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const lastSessionKey = 'cometchat_app:last_session_uid';
+
+/**
+ * Returns the UID of the last logged in user, or null if there is none.
+ */
+export const getLastSessionUid = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(lastSessionKey);
+  } catch (error) {
+    console.log("Session read error:", error);
+    return null;
+  }
+};
+
+/**
+ * Remembers the UID of the user that just logged in.
+ * @param uid - The UID to remember.
+ */
+export const saveSession = (uid: string) =>
+  AsyncStorage.setItem(lastSessionKey, uid).catch(error => {
+    console.log("Session write error:", error);
+  });
+
+/**
+ * Forgets the last session, typically after an explicit logout.
+ */
+export const clearSession = () =>
+  AsyncStorage.removeItem(lastSessionKey).catch(error => {
+    console.log("Session clear error:", error);
+  });
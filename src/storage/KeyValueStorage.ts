@@ -0,0 +1,39 @@
+/*
+ * KeyValueStorage.ts
+ * ---------------------------------------------------------------------------
+ * Minimal async key-value storage contract. AsyncStorage satisfies it on
+ * device; InMemoryStorage stands in for it in tests.
+ * ---------------------------------------------------------------------------
+ */
+
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Map-backed KeyValueStorage that lives only as long as the instance.
+ */
+export class InMemoryStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  /**
+   * Keys currently stored, for inspection in tests.
+   */
+  keys() {
+    return [...this.items.keys()];
+  }
+}
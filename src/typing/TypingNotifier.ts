@@ -0,0 +1,73 @@
+/*
+ * TypingNotifier.ts
+ * ---------------------------------------------------------------------------
+ * Turns composer edits into typing start/end signals. A start is sent at most
+ * once per `throttle` while the user keeps typing, so receivers stay updated
+ * without an event per keystroke. An end is sent when the composer is cleared,
+ * the message is sent, or no edit happened for `idleTimeout`.
+ * ---------------------------------------------------------------------------
+ */
+
+export interface TypingSignals {
+  start(): void;
+  end(): void;
+}
+
+export interface TypingNotifierOptions {
+  /**
+   * Minimum time between two start signals. Defaults to 3s.
+   */
+  throttle?: number;
+  /**
+   * Time without edits after which typing ends. Defaults to 5s.
+   */
+  idleTimeout?: number;
+  now?: () => number;
+}
+
+export class TypingNotifier {
+  private readonly throttle: number;
+  private readonly idleTimeout: number;
+  private readonly now: () => number;
+  private lastStartAt: number | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly signals: TypingSignals, options: TypingNotifierOptions = {}) {
+    this.throttle = options.throttle ?? 3000;
+    this.idleTimeout = options.idleTimeout ?? 5000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Call whenever the composer text changes.
+   */
+  onTextChanged(text: string) {
+    if (!text.trim()) {
+      this.stop();
+      return;
+    }
+
+    const now = this.now();
+    if (this.lastStartAt === null || now - this.lastStartAt >= this.throttle) {
+      this.lastStartAt = now;
+      this.signals.start();
+    }
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => this.stop(), this.idleTimeout);
+  }
+
+  /**
+   * Ends typing if it was signalled, e.g. after sending or when leaving the chat.
+   */
+  stop() {
+    this.clearIdleTimer();
+    if (this.lastStartAt === null) return;
+    this.lastStartAt = null;
+    this.signals.end();
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+}
@@ -0,0 +1,99 @@
+/*
+ * TypingTracker.ts
+ * ---------------------------------------------------------------------------
+ * Keeps track of who is typing in the open chat. Each user is dropped on an
+ * end event, or after `timeout` without a new start event in case the end
+ * event never arrives.
+ * ---------------------------------------------------------------------------
+ */
+
+export interface TypingUser {
+  uid: string;
+  name: string;
+}
+
+export interface TypingTrackerOptions {
+  /**
+   * Time after the last start event before a user counts as no longer typing.
+   * Defaults to 8s, longer than the senders' start throttle.
+   */
+  timeout?: number;
+}
+
+export class TypingTracker {
+  private users: TypingUser[] = [];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly listeners = new Set<(users: TypingUser[]) => void>();
+  private readonly timeout: number;
+
+  constructor(options: TypingTrackerOptions = {}) {
+    this.timeout = options.timeout ?? 8000;
+  }
+
+  /**
+   * Users currently typing, in the order they started.
+   */
+  getUsers() {
+    return [...this.users];
+  }
+
+  started(user: TypingUser) {
+    this.clearTimer(user.uid);
+    this.timers.set(
+      user.uid,
+      setTimeout(() => this.ended(user.uid), this.timeout)
+    );
+    if (this.users.some(item => item.uid === user.uid)) return;
+    this.users = [...this.users, user];
+    this.emit();
+  }
+
+  ended(uid: string) {
+    this.clearTimer(uid);
+    if (!this.users.some(item => item.uid === uid)) return;
+    this.users = this.users.filter(item => item.uid !== uid);
+    this.emit();
+  }
+
+  /**
+   * Forgets everyone, e.g. when the chat is closed.
+   */
+  clear() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    if (this.users.length === 0) return;
+    this.users = [];
+    this.emit();
+  }
+
+  subscribe(listener: (users: TypingUser[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private clearTimer(uid: string) {
+    const timer = this.timers.get(uid);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(uid);
+  }
+
+  private emit() {
+    const users = this.getUsers();
+    this.listeners.forEach(listener => listener(users));
+  }
+}
+
+/**
+ * Header text for the users typing in a chat.
+ * @param users - Users currently typing.
+ * @param showNames - Whether to name them, as in group chats.
+ */
+export const getTypingText = (users: TypingUser[], showNames: boolean) => {
+  if (users.length === 0) return null;
+  if (!showNames) return 'typing…';
+  if (users.length === 1) return `${users[0].name} is typing…`;
+  if (users.length === 2) return `${users[0].name} and ${users[1].name} are typing…`;
+  return `${users.length} people are typing…`;
+};
@@ -0,0 +1,86 @@
+/*
+ * chatTarget.ts
+ * ---------------------------------------------------------------------------
+ * Helpers for treating a user or a group as the other end of a chat.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+
+/**
+ * Group types as reported by `Group.getType()`.
+ */
+export const GroupTypeConstants = {
+  public: 'public',
+  password: 'password',
+  private: 'private',
+} as const;
+
+/**
+ * The user or group a chat is with.
+ */
+export type ChatTarget = CometChat.User | CometChat.Group;
+
+export const isGroup = (target: ChatTarget): target is CometChat.Group =>
+  target instanceof CometChat.Group;
+
+/**
+ * Returns the UID or GUID messages to this target are addressed to.
+ */
+export const getTargetId = (target: ChatTarget) =>
+  isGroup(target) ? target.getGuid() : target.getUid();
+
+/**
+ * Returns the CometChat receiver type for this target.
+ */
+export const getReceiverType = (target: ChatTarget) =>
+  isGroup(target) ? CometChat.RECEIVER_TYPE.GROUP : CometChat.RECEIVER_TYPE.USER;
+
+/**
+ * Checks whether a message belongs to the chat with `target`.
+ * @param message - The message to check.
+ * @param target - The user or group the chat is with.
+ * @param loggedInUid - UID of the logged in user.
+ */
+export const isMessageForTarget = (
+  message: CometChat.BaseMessage,
+  target: ChatTarget,
+  loggedInUid?: string
+) => {
+  if (isGroup(target)) {
+    return (
+      message.getReceiverType() === CometChat.RECEIVER_TYPE.GROUP &&
+      message.getReceiverId() === target.getGuid()
+    );
+  }
+  if (message.getReceiverType() !== CometChat.RECEIVER_TYPE.USER) return false;
+  const senderId = message.getSender().getUid();
+  const receiverId = message.getReceiverId();
+  const otherId = target.getUid();
+  return (
+    (senderId === otherId && receiverId === loggedInUid) ||
+    (senderId === loggedInUid && receiverId === otherId)
+  );
+};
+
+/**
+ * Checks whether a typing indicator comes from the chat with `target`.
+ * @param indicator - The received typing indicator.
+ * @param target - The user or group the chat is with.
+ */
+export const isTypingForTarget = (indicator: CometChat.TypingIndicator, target: ChatTarget) =>
+  isGroup(target)
+    ? indicator.getReceiverType() === CometChat.RECEIVER_TYPE.GROUP &&
+      indicator.getReceiverId() === target.getGuid()
+    : indicator.getReceiverType() === CometChat.RECEIVER_TYPE.USER &&
+      indicator.getSender().getUid() === target.getUid();
+
+/**
+ * Checks whether a delivery or read receipt comes from the chat with `target`.
+ * Only one-to-one chats get receipts.
+ * @param receipt - The received message receipt.
+ * @param target - The user or group the chat is with.
+ */
+export const isReceiptForTarget = (receipt: CometChat.MessageReceipt, target: ChatTarget) =>
+  !isGroup(target) &&
+  receipt.getReceiverType() === CometChat.RECEIVER_TYPE.USER &&
+  receipt.getSender().getUid() === target.getUid();
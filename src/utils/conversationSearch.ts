@@ -0,0 +1,48 @@
+/*
+ * conversationSearch.ts
+ * ---------------------------------------------------------------------------
+ * Splits conversation search results into the ones already loaded in the
+ * list, which can be filtered right away, and the ones only the server found.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+
+export interface ConversationSearchSections {
+  /**
+   * Loaded conversations that match, in list order.
+   */
+  loaded: CometChat.Conversation[];
+  /**
+   * Server results that aren't loaded yet, in server order.
+   */
+  more: CometChat.Conversation[];
+}
+
+/**
+ * Whether the name of the user or group matches the query, ignoring case.
+ */
+export const matchesConversationName = (conversation: CometChat.Conversation, query: string) =>
+  conversation.getConversationWith().getName().toLowerCase().includes(query.trim().toLowerCase());
+
+/**
+ * @param loaded - Conversations loaded in the list.
+ * @param remote - Results of the server search for the same query, which may
+ *   match on more than the name.
+ * @param query - What the user typed.
+ */
+export const getConversationSearchSections = (
+  loaded: CometChat.Conversation[],
+  remote: CometChat.Conversation[],
+  query: string
+): ConversationSearchSections => {
+  const remoteIds = new Set(remote.map(conversation => conversation.getConversationId()));
+  const loadedIds = new Set(loaded.map(conversation => conversation.getConversationId()));
+  return {
+    // The loaded copies are kept up to date by live events, so they win.
+    loaded: loaded.filter(
+      conversation =>
+        matchesConversationName(conversation, query) || remoteIds.has(conversation.getConversationId())
+    ),
+    more: remote.filter(conversation => !loadedIds.has(conversation.getConversationId())),
+  };
+};
@@ -0,0 +1,36 @@
+/*
+ * mediaThumbnail.ts
+ * ---------------------------------------------------------------------------
+ * Thumbnails of media messages. Images are their own thumbnail; videos use
+ * the one made by CometChat's Thumbnail Generation extension, read the same
+ * way the UI Kit does. Audio and other files have none.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+import { MessageTypeConstants } from './messageList';
+
+/**
+ * URL of the media file a message carries.
+ */
+export const getMediaUrl = (message: CometChat.MediaMessage): string | undefined =>
+  message.getAttachment()?.getUrl() || message.getURL() || undefined;
+
+/**
+ * URL of a small preview of the message's media, or undefined if there is
+ * none (yet: the extension adds video thumbnails shortly after sending).
+ */
+export const getMediaThumbnail = (message: CometChat.MediaMessage): string | undefined => {
+  switch (message.getType()) {
+    case MessageTypeConstants.image:
+      return getMediaUrl(message);
+    case MessageTypeConstants.video: {
+      const metadata = message.getMetadata() as any;
+      const generated = metadata?.['@injected']?.extensions?.['thumbnail-generation'];
+      const attachment = generated?.attachments?.[0];
+      const url = attachment && !attachment.error ? attachment.data?.thumbnails?.url_small : undefined;
+      return typeof url === 'string' && url ? url : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
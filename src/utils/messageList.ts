@@ -0,0 +1,133 @@
+/*
+ * messageList.ts
+ * ---------------------------------------------------------------------------
+ * Turns a chat's messages into list rows: date separators between days and
+ * grouping flags for consecutive messages from the same sender.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+
+/**
+ * Message categories, same values as the UI Kit's MessageCategoryConstants.
+ */
+export const MessageCategoryConstants = {
+  message: 'message',
+  action: 'action',
+  call: 'call',
+  custom: 'custom',
+} as const;
+
+/**
+ * Message types of the "message" category.
+ */
+export const MessageTypeConstants = {
+  text: 'text',
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  file: 'file',
+} as const;
+
+// Consecutive messages further apart than this start a new group.
+const groupingWindowSeconds = 5 * 60;
+
+export type MessageRow =
+  | { kind: 'date'; key: string; sentAt: number }
+  | {
+      kind: 'message';
+      key: string;
+      message: CometChat.BaseMessage;
+      outgoing: boolean;
+      /**
+       * First message of a run from the same sender; shows the sender name.
+       */
+      firstInGroup: boolean;
+      /**
+       * Last message of a run from the same sender.
+       */
+      lastInGroup: boolean;
+    };
+
+/**
+ * Whether a message is shown as a centered system line rather than a bubble.
+ */
+export const isSystemMessage = (message: CometChat.BaseMessage) =>
+  message.getCategory() === MessageCategoryConstants.action ||
+  message.getCategory() === MessageCategoryConstants.call;
+
+const isSameDay = (a: number, b: number) =>
+  new Date(a * 1000).toDateString() === new Date(b * 1000).toDateString();
+
+const continuesGroup = (previous: CometChat.BaseMessage, message: CometChat.BaseMessage) =>
+  !isSystemMessage(previous) &&
+  !isSystemMessage(message) &&
+  previous.getSender().getUid() === message.getSender().getUid() &&
+  message.getSentAt() - previous.getSentAt() <= groupingWindowSeconds &&
+  isSameDay(previous.getSentAt(), message.getSentAt());
+
+/**
+ * Builds list rows for messages sorted oldest first.
+ * @param messages - Messages of the chat, oldest first.
+ * @param loggedInUid - UID of the logged in user, to tell outgoing messages apart.
+ */
+export const buildMessageRows = (
+  messages: CometChat.BaseMessage[],
+  loggedInUid?: string
+): MessageRow[] => {
+  const rows: MessageRow[] = [];
+  messages.forEach((message, index) => {
+    const previous = messages[index - 1];
+    const next = messages[index + 1];
+    if (!previous || !isSameDay(previous.getSentAt(), message.getSentAt())) {
+      rows.push({ kind: 'date', key: `date_${message.getId()}`, sentAt: message.getSentAt() });
+    }
+    rows.push({
+      kind: 'message',
+      key: `${message.getId()}`,
+      message,
+      outgoing: message.getSender().getUid() === loggedInUid,
+      firstInGroup: !previous || !continuesGroup(previous, message),
+      lastInGroup: !next || !continuesGroup(message, next),
+    });
+  });
+  return rows;
+};
+
+/**
+ * Label of a date separator: "Today", "Yesterday" or the date.
+ * @param sentAt - Timestamp in seconds.
+ * @param now - Current time in milliseconds.
+ */
+export const getDateSeparatorLabel = (sentAt: number, now = Date.now()) => {
+  const nowSeconds = Math.floor(now / 1000);
+  if (isSameDay(sentAt, nowSeconds)) return 'Today';
+  if (isSameDay(sentAt, nowSeconds - 24 * 60 * 60)) return 'Yesterday';
+  return new Date(sentAt * 1000).toLocaleDateString();
+};
+
+/**
+ * Swaps in a newer copy of a message, e.g. after it was edited or deleted.
+ * @returns The updated list, or `messages` itself when the message isn't in it.
+ */
+export const replaceMessage = (
+  messages: CometChat.BaseMessage[],
+  message: CometChat.BaseMessage
+) => {
+  const index = messages.findIndex(item => item.getId() === message.getId());
+  if (index === -1) return messages;
+  const updated = [...messages];
+  updated[index] = message;
+  return updated;
+};
+
+/**
+ * Adds one to the reply count of a thread's parent message.
+ * @returns The updated list, or `messages` itself when the parent isn't in it.
+ */
+export const incrementReplyCount = (messages: CometChat.BaseMessage[], parentMessageId: number) => {
+  const parent = messages.find(item => item.getId() === parentMessageId);
+  if (!parent) return messages;
+  const copy: CometChat.BaseMessage = Object.assign(Object.create(Object.getPrototypeOf(parent)), parent);
+  copy.setReplyCount((parent.getReplyCount() || 0) + 1);
+  return replaceMessage(messages, copy);
+};
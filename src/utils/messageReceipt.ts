@@ -0,0 +1,98 @@
+/*
+ * messageReceipt.ts
+ * ---------------------------------------------------------------------------
+ * Delivery state of outgoing messages, following the same rules as the
+ * receipt shown by CometChatConversations for a conversation's last message.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import { OutboxEntry } from '../outbox/Outbox';
+
+/**
+ * Same values as the UI Kit's MessageReceipt constants.
+ */
+export enum MessageReceipt {
+  WAIT = 'WAIT',
+  SENT = 'SENT',
+  DELIVERED = 'DELIVERED',
+  READ = 'READ',
+  ERROR = 'ERROR',
+}
+
+/**
+ * Receipt of a message the server has accepted.
+ */
+export const getMessageReceipt = (message: CometChat.BaseMessage): MessageReceipt => {
+  if (message.hasOwnProperty('readAt')) return MessageReceipt.READ;
+  if (message.hasOwnProperty('deliveredAt')) return MessageReceipt.DELIVERED;
+  if (message.hasOwnProperty('sentAt')) return MessageReceipt.SENT;
+  return MessageReceipt.ERROR;
+};
+
+/**
+ * Receipt of a message still waiting in the outbox.
+ */
+export const getOutboxReceipt = (entry: OutboxEntry): MessageReceipt =>
+  entry.status === 'failed' ? MessageReceipt.ERROR : MessageReceipt.WAIT;
+
+/**
+ * A delivery or read receipt from the other user of a one-to-one chat. It
+ * covers every message up to and including `messageId`.
+ */
+export interface ReceiptUpdate {
+  type: 'delivered' | 'read';
+  messageId: number;
+  /**
+   * Time of delivery or reading, in seconds.
+   */
+  timestamp: number;
+}
+
+// Copies an SDK message, keeping its class so its getters still work.
+const cloneMessage = <M extends CometChat.BaseMessage>(message: M): M =>
+  Object.assign(Object.create(Object.getPrototypeOf(message)), message);
+
+/**
+ * Applies a receipt to the logged in user's messages.
+ * @returns The updated list, or `messages` itself when nothing changed.
+ */
+export const applyReceipt = (
+  messages: CometChat.BaseMessage[],
+  update: ReceiptUpdate,
+  loggedInUid?: string
+) => {
+  let changed = false;
+  const updated = messages.map(message => {
+    if (message.getSender().getUid() !== loggedInUid || message.getId() > update.messageId) {
+      return message;
+    }
+    const receipt = getMessageReceipt(message);
+    if (receipt === MessageReceipt.READ) return message;
+    if (update.type === 'delivered' && receipt === MessageReceipt.DELIVERED) return message;
+
+    changed = true;
+    const copy = cloneMessage(message);
+    if (receipt !== MessageReceipt.DELIVERED) copy.setDeliveredAt(update.timestamp);
+    if (update.type === 'read') copy.setReadAt(update.timestamp);
+    return copy;
+  });
+  return changed ? updated : messages;
+};
+
+/**
+ * Picks the newest visible incoming message that was not marked read yet.
+ * Marking it read marks every earlier message of the chat read as well.
+ * @param visibleMessages - Messages currently on screen.
+ * @param loggedInUid - UID of the logged in user.
+ * @param lastMarkedId - ID of the last message already marked read.
+ */
+export const getMessageToMarkRead = (
+  visibleMessages: CometChat.BaseMessage[],
+  loggedInUid: string | undefined,
+  lastMarkedId: number
+) =>
+  visibleMessages.reduce<CometChat.BaseMessage | null>((newest, message) => {
+    if (message.getSender().getUid() === loggedInUid || message.getReadAt()) return newest;
+    if (message.getId() <= lastMarkedId) return newest;
+    return !newest || message.getId() > newest.getId() ? message : newest;
+  }, null);
@@ -0,0 +1,75 @@
+/*
+ * presence.ts
+ * ---------------------------------------------------------------------------
+ * Online state and "last seen" text for users. Presence is hidden when either
+ * side blocked the other, the same rule CometChatConversations applies to its
+ * status indicator.
+ * ---------------------------------------------------------------------------
+ */
+import type { CometChat } from '@cometchat/chat-sdk-react-native';
+
+/**
+ * Same values as the UI Kit's UserStatusConstants.
+ */
+export const UserStatusConstants = {
+  online: 'online',
+  offline: 'offline',
+} as const;
+
+/**
+ * Whether the user's presence may be shown at all.
+ */
+export const isPresenceVisible = (user: CometChat.User) =>
+  !user.getHasBlockedMe() && !user.getBlockedByMe();
+
+/**
+ * Presence dot state for a user, or undefined when it must not be shown.
+ */
+export const getPresenceStatus = (user: CometChat.User) => {
+  if (!isPresenceVisible(user)) return undefined;
+  return user.getStatus() === UserStatusConstants.online
+    ? UserStatusConstants.online
+    : UserStatusConstants.offline;
+};
+
+/**
+ * Short relative time, e.g. "5 min ago".
+ * @param timestamp - Time in seconds.
+ * @param now - Current time in milliseconds.
+ */
+export const formatRelativeTime = (timestamp: number, now = Date.now()) => {
+  const seconds = Math.max(0, Math.floor(now / 1000) - timestamp);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `${days} days ago`;
+  return `on ${new Date(timestamp * 1000).toLocaleDateString()}`;
+};
+
+/**
+ * Header text for a user: "online", "last seen ..." or nothing when presence
+ * is hidden or unknown.
+ * @param now - Current time in milliseconds.
+ */
+export const getPresenceText = (user: CometChat.User, now = Date.now()) => {
+  const status = getPresenceStatus(user);
+  if (!status) return null;
+  if (status === UserStatusConstants.online) return 'online';
+  const lastActiveAt = user.getLastActiveAt();
+  return lastActiveAt ? `last seen ${formatRelativeTime(lastActiveAt, now)}` : null;
+};
+
+/**
+ * Copies `user` with the status and last activity of a presence update,
+ * keeping everything else (e.g. block state) from the original.
+ */
+export const applyPresence = (user: CometChat.User, update: CometChat.User): CometChat.User => {
+  const copy: CometChat.User = Object.assign(Object.create(Object.getPrototypeOf(user)), user);
+  copy.setStatus(update.getStatus());
+  if (update.getLastActiveAt()) copy.setLastActiveAt(update.getLastActiveAt());
+  return copy;
+};
@@ -0,0 +1,1915 @@
+/*
+ * fakeCometChat.ts
+ * ---------------------------------------------------------------------------
+ * In-memory stand-in for the CometChat SDK, used by Jest in place of
+ * `@cometchat/chat-sdk-react-native`, which both the App's ChatClient and the
+ * UI kit components talk to. Everything shares one backend, just like the
+ * single CometChat server the real SDK talks to.
+ *
+ * Tests script the backend through `fakeCometChat`: add users and groups,
+ * seed history, deliver live messages, typing, receipts and presence, and
+ * inspect what the app sent.
+ * ---------------------------------------------------------------------------
+ */
+
+type Listener = Record<string, ((...args: any[]) => void) | undefined>;
+
+const RECEIVER_TYPE = { USER: 'user', GROUP: 'group' } as const;
+
+const MESSAGE_TYPE = {
+  TEXT: 'text',
+  MEDIA: 'media',
+  IMAGE: 'image',
+  VIDEO: 'video',
+  AUDIO: 'audio',
+  FILE: 'file',
+  CUSTOM: 'custom',
+} as const;
+
+const CATEGORY_MESSAGE = 'message';
+const CATEGORY_ACTION = 'action';
+const CATEGORY_CALL = 'call';
+const CATEGORY_CUSTOM = 'custom';
+
+const USER_STATUS = { ONLINE: 'online', OFFLINE: 'offline' } as const;
+
+const GROUP_TYPE = { PUBLIC: 'public', PASSWORD: 'password', PRIVATE: 'private' } as const;
+
+const GroupMemberScope = {
+  Admin: 'admin',
+  Moderator: 'moderator',
+  Participant: 'participant',
+} as const;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Deep copies the plain data (metadata, custom data) hanging off SDK objects,
+// so changes made by the app never leak into the backend and vice versa.
+const copyData = <T>(data: T): T =>
+  data === undefined ? data : JSON.parse(JSON.stringify(data));
+
+const cloneObject = <T extends object>(source: T): T =>
+  Object.assign(Object.create(Object.getPrototypeOf(source)), source);
+
+export class CometChatException {
+  code: string;
+  message: string;
+  details?: string;
+
+  constructor(error: { code: string; message?: string; details?: string }) {
+    this.code = error.code;
+    this.message = error.message ?? error.code;
+    this.details = error.details;
+  }
+}
+
+export class User {
+  uid: string;
+  name: string;
+  avatar?: string;
+  status?: string;
+  lastActiveAt?: number;
+  role?: string;
+  metadata?: object;
+  blockedByMe?: boolean;
+  hasBlockedMe?: boolean;
+
+  constructor(uid: string | { uid: string; name?: string }, name?: string) {
+    if (typeof uid === 'object') {
+      Object.assign(this, uid);
+      this.uid = uid.uid;
+      this.name = uid.name ?? uid.uid;
+    } else {
+      this.uid = uid;
+      this.name = name ?? uid;
+    }
+  }
+
+  getUid() {
+    return this.uid;
+  }
+  setUid(uid: string) {
+    this.uid = uid;
+  }
+  getName() {
+    return this.name;
+  }
+  setName(name: string) {
+    this.name = name;
+  }
+  getAvatar() {
+    return this.avatar;
+  }
+  setAvatar(avatar: string) {
+    this.avatar = avatar;
+  }
+  getStatus() {
+    return this.status ?? USER_STATUS.OFFLINE;
+  }
+  setStatus(status: string) {
+    this.status = status;
+  }
+  getLastActiveAt() {
+    return this.lastActiveAt;
+  }
+  setLastActiveAt(lastActiveAt: number) {
+    this.lastActiveAt = lastActiveAt;
+  }
+  getRole() {
+    return this.role;
+  }
+  getMetadata() {
+    return this.metadata;
+  }
+  getBlockedByMe() {
+    return this.blockedByMe ?? false;
+  }
+  getHasBlockedMe() {
+    return this.hasBlockedMe ?? false;
+  }
+}
+
+export class GroupMember extends User {
+  scope?: string;
+
+  getScope() {
+    return this.scope ?? GroupMemberScope.Participant;
+  }
+  setScope(scope: string) {
+    this.scope = scope;
+  }
+}
+
+export class Group {
+  guid: string;
+  name: string;
+  type: string;
+  password?: string;
+  icon?: string;
+  description?: string;
+  hasJoined?: boolean;
+  membersCount?: number;
+  scope?: string;
+  owner?: string;
+
+  constructor(guid: string, name?: string, type: string = GROUP_TYPE.PUBLIC, password?: string) {
+    this.guid = guid;
+    this.name = name ?? guid;
+    this.type = type;
+    if (password !== undefined) this.password = password;
+  }
+
+  getGuid() {
+    return this.guid;
+  }
+  getName() {
+    return this.name;
+  }
+  setName(name: string) {
+    this.name = name;
+  }
+  getType() {
+    return this.type;
+  }
+  getIcon() {
+    return this.icon;
+  }
+  getDescription() {
+    return this.description;
+  }
+  getHasJoined() {
+    return this.hasJoined ?? false;
+  }
+  setHasJoined(hasJoined: boolean) {
+    this.hasJoined = hasJoined;
+  }
+  getMembersCount() {
+    return this.membersCount ?? 0;
+  }
+  setMembersCount(membersCount: number) {
+    this.membersCount = membersCount;
+  }
+  getScope() {
+    return this.scope;
+  }
+  setScope(scope: string) {
+    this.scope = scope;
+  }
+  getOwner() {
+    return this.owner;
+  }
+}
+
+export class Attachment {
+  url: string;
+  name: string;
+  size?: number;
+  mimeType?: string;
+  extension?: string;
+
+  constructor(details: { url: string; name: string; size?: number; mimeType?: string; extension?: string }) {
+    this.url = details.url;
+    this.name = details.name;
+    Object.assign(this, details);
+  }
+
+  getUrl() {
+    return this.url;
+  }
+  getName() {
+    return this.name;
+  }
+  getSize() {
+    return this.size;
+  }
+  getMimeType() {
+    return this.mimeType;
+  }
+  getExtension() {
+    return this.extension;
+  }
+}
+
+// Optional fields are left uninitialised so they only exist once set: the app
+// tells sent, delivered and read messages apart with `hasOwnProperty`, as the
+// real SDK objects allow.
+export class BaseMessage {
+  receiverId: string;
+  receiverType: string;
+  type: string;
+  category: string;
+  id?: number;
+  muid?: string;
+  sender?: User;
+  receiver?: User | Group;
+  conversationId?: string;
+  sentAt?: number;
+  deliveredAt?: number;
+  readAt?: number;
+  editedAt?: number;
+  editedBy?: string;
+  deletedAt?: number;
+  deletedBy?: string;
+  parentMessageId?: number;
+  replyCount?: number;
+  metadata?: object;
+  reactions?: ReactionCount[];
+
+  constructor(receiverId: string, type: string, receiverType: string, category: string) {
+    this.receiverId = receiverId;
+    this.type = type;
+    this.receiverType = receiverType;
+    this.category = category;
+  }
+
+  getId() {
+    return this.id as number;
+  }
+  setId(id: number) {
+    this.id = id;
+  }
+  getMuid() {
+    return this.muid;
+  }
+  setMuid(muid: string) {
+    this.muid = muid;
+  }
+  getSender() {
+    return this.sender as User;
+  }
+  setSender(sender: User) {
+    this.sender = sender;
+  }
+  getReceiver() {
+    return this.receiver as User | Group;
+  }
+  setReceiver(receiver: User | Group) {
+    this.receiver = receiver;
+  }
+  getReceiverId() {
+    return this.receiverId;
+  }
+  setReceiverId(receiverId: string) {
+    this.receiverId = receiverId;
+  }
+  getReceiverType() {
+    return this.receiverType;
+  }
+  getType() {
+    return this.type;
+  }
+  getCategory() {
+    return this.category;
+  }
+  getConversationId() {
+    return this.conversationId as string;
+  }
+  getSentAt() {
+    return this.sentAt as number;
+  }
+  setSentAt(sentAt: number) {
+    this.sentAt = sentAt;
+  }
+  getDeliveredAt() {
+    return this.deliveredAt as number;
+  }
+  setDeliveredAt(deliveredAt: number) {
+    this.deliveredAt = deliveredAt;
+  }
+  getReadAt() {
+    return this.readAt as number;
+  }
+  setReadAt(readAt: number) {
+    this.readAt = readAt;
+  }
+  getEditedAt() {
+    return this.editedAt as number;
+  }
+  setEditedAt(editedAt: number) {
+    this.editedAt = editedAt;
+  }
+  getEditedBy() {
+    return this.editedBy as string;
+  }
+  getDeletedAt() {
+    return this.deletedAt as number;
+  }
+  setDeletedAt(deletedAt: number) {
+    this.deletedAt = deletedAt;
+  }
+  getDeletedBy() {
+    return this.deletedBy as string;
+  }
+  getParentMessageId() {
+    return this.parentMessageId as number;
+  }
+  setParentMessageId(parentMessageId: number) {
+    this.parentMessageId = parentMessageId;
+  }
+  getReplyCount() {
+    return this.replyCount ?? 0;
+  }
+  setReplyCount(replyCount: number) {
+    this.replyCount = replyCount;
+  }
+  getReactions() {
+    return this.reactions ?? [];
+  }
+  setReactions(reactions: ReactionCount[]) {
+    this.reactions = reactions;
+    return reactions;
+  }
+}
+
+export class TextMessage extends BaseMessage {
+  text: string;
+
+  constructor(receiverId: string, text: string, receiverType: string) {
+    super(receiverId, MESSAGE_TYPE.TEXT, receiverType, CATEGORY_MESSAGE);
+    this.text = text;
+  }
+
+  getText() {
+    return this.text;
+  }
+  setText(text: string) {
+    this.text = text;
+  }
+  getMetadata() {
+    return this.metadata;
+  }
+  setMetadata(metadata: object) {
+    this.metadata = metadata;
+  }
+  getMentionedUsers(): User[] {
+    return [];
+  }
+}
+
+export interface FakeFile {
+  uri: string;
+  name: string;
+  type?: string;
+  size?: number;
+}
+
+export class MediaMessage extends BaseMessage {
+  file?: FakeFile;
+  caption?: string;
+  attachment?: Attachment;
+  url?: string;
+
+  constructor(receiverId: string, file: FakeFile | undefined, type: string, receiverType: string) {
+    super(receiverId, type, receiverType, CATEGORY_MESSAGE);
+    if (file) this.file = file;
+  }
+
+  getCaption() {
+    return this.caption;
+  }
+  setCaption(caption: string) {
+    this.caption = caption;
+  }
+  getAttachment() {
+    return this.attachment;
+  }
+  setAttachment(attachment: Attachment) {
+    this.attachment = attachment;
+    this.url = attachment.url;
+  }
+  getAttachments() {
+    return this.attachment ? [this.attachment] : [];
+  }
+  getURL() {
+    return this.url;
+  }
+  getMetadata() {
+    return this.metadata;
+  }
+  setMetadata(metadata: object) {
+    this.metadata = metadata;
+  }
+}
+
+export class CustomMessage extends BaseMessage {
+  customData: object;
+
+  constructor(receiverId: string, receiverType: string, customType: string, customData: object) {
+    super(receiverId, customType, receiverType, CATEGORY_CUSTOM);
+    this.customData = customData;
+  }
+
+  getCustomData() {
+    return this.customData;
+  }
+  getData() {
+    return { customData: this.customData };
+  }
+  getMetadata() {
+    return this.metadata;
+  }
+  setMetadata(metadata: object) {
+    this.metadata = metadata;
+  }
+}
+
+export class Action extends BaseMessage {
+  action: string;
+  message: string;
+  actionBy?: User;
+  actionOn?: User | BaseMessage;
+  actionFor?: Group;
+
+  constructor(receiverId: string, action: string, receiverType: string, message: string) {
+    super(receiverId, 'groupMember', receiverType, CATEGORY_ACTION);
+    this.action = action;
+    this.message = message;
+  }
+
+  getAction() {
+    return this.action;
+  }
+  getMessage() {
+    return this.message;
+  }
+  getActionBy() {
+    return this.actionBy;
+  }
+  getActionOn() {
+    return this.actionOn;
+  }
+  getActionFor() {
+    return this.actionFor;
+  }
+}
+
+export class Call extends BaseMessage {
+  status: string;
+  sessionId?: string;
+
+  constructor(receiverId: string, type: string, receiverType: string, status = 'initiated') {
+    super(receiverId, type, receiverType, CATEGORY_CALL);
+    this.status = status;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+  getSessionId() {
+    return this.sessionId;
+  }
+  getAction() {
+    return this.status;
+  }
+}
+
+export class TypingIndicator {
+  receiverId: string;
+  receiverType: string;
+  metadata?: object;
+  sender?: User;
+
+  constructor(receiverId: string, receiverType: string, metadata?: object) {
+    this.receiverId = receiverId;
+    this.receiverType = receiverType;
+    if (metadata !== undefined) this.metadata = metadata;
+  }
+
+  getReceiverId() {
+    return this.receiverId;
+  }
+  getReceiverType() {
+    return this.receiverType;
+  }
+  getMetadata() {
+    return this.metadata;
+  }
+  getSender() {
+    return this.sender as User;
+  }
+}
+
+export class MessageReceipt {
+  static RECEIPT_TYPE = {
+    DELIVERY_RECEIPT: 'delivered',
+    READ_RECEIPT: 'read',
+  };
+
+  messageId: string;
+  sender: User;
+  receiverId: string;
+  receiverType: string;
+  receiptType: string;
+  timestamp: number;
+  deliveredAt?: number;
+  readAt?: number;
+
+  constructor(details: {
+    messageId: string;
+    sender: User;
+    receiverId: string;
+    receiverType: string;
+    receiptType: string;
+    timestamp: number;
+  }) {
+    this.messageId = details.messageId;
+    this.sender = details.sender;
+    this.receiverId = details.receiverId;
+    this.receiverType = details.receiverType;
+    this.receiptType = details.receiptType;
+    this.timestamp = details.timestamp;
+    if (details.receiptType === MessageReceipt.RECEIPT_TYPE.READ_RECEIPT) {
+      this.readAt = details.timestamp;
+    } else {
+      this.deliveredAt = details.timestamp;
+    }
+  }
+
+  getMessageId() {
+    return this.messageId;
+  }
+  getSender() {
+    return this.sender;
+  }
+  getReceiver() {
+    return this.receiverId;
+  }
+  getReceiverType() {
+    return this.receiverType;
+  }
+  getReceiptType() {
+    return this.receiptType;
+  }
+  getTimestamp() {
+    return this.timestamp;
+  }
+  getDeliveredAt() {
+    return this.deliveredAt as number;
+  }
+  getReadAt() {
+    return this.readAt as number;
+  }
+}
+
+export class ReactionCount {
+  reaction: string;
+  count: number;
+  reactedByMe: boolean;
+
+  constructor(reaction: string, count: number, reactedByMe: boolean) {
+    this.reaction = reaction;
+    this.count = count;
+    this.reactedByMe = reactedByMe;
+  }
+
+  getReaction() {
+    return this.reaction;
+  }
+  setReaction(reaction: string) {
+    this.reaction = reaction;
+  }
+  getCount() {
+    return this.count;
+  }
+  setCount(count: number) {
+    this.count = count;
+  }
+  getReactedByMe() {
+    return this.reactedByMe;
+  }
+  setReactedByMe(reactedByMe: boolean) {
+    this.reactedByMe = reactedByMe;
+  }
+}
+
+export class Reaction {
+  reactionId: string;
+  messageId: string;
+  reaction: string;
+  uid: string;
+  reactedAt: number;
+  reactedBy: User;
+
+  constructor(reactionId: string, messageId: string, reaction: string, uid: string, reactedAt: number, reactedBy: User) {
+    this.reactionId = reactionId;
+    this.messageId = messageId;
+    this.reaction = reaction;
+    this.uid = uid;
+    this.reactedAt = reactedAt;
+    this.reactedBy = reactedBy;
+  }
+
+  getReactionId() {
+    return this.reactionId;
+  }
+  getMessageId() {
+    return this.messageId;
+  }
+  getReaction() {
+    return this.reaction;
+  }
+  getUid() {
+    return this.uid;
+  }
+  getReactedAt() {
+    return this.reactedAt;
+  }
+  getReactedBy() {
+    return this.reactedBy;
+  }
+}
+
+export class ReactionEvent {
+  reaction: Reaction;
+  receiverId: string;
+  receiverType: string;
+  conversationId: string;
+  parentMessageId?: string;
+
+  constructor(reaction: Reaction, receiverId: string, receiverType: string, conversationId: string, parentMessageId?: string) {
+    this.reaction = reaction;
+    this.receiverId = receiverId;
+    this.receiverType = receiverType;
+    this.conversationId = conversationId;
+    if (parentMessageId !== undefined) this.parentMessageId = parentMessageId;
+  }
+
+  getReaction() {
+    return this.reaction;
+  }
+  getReceiverId() {
+    return this.receiverId;
+  }
+  getReceiverType() {
+    return this.receiverType;
+  }
+  getConversationId() {
+    return this.conversationId;
+  }
+  getParentMessageId() {
+    return this.parentMessageId as string;
+  }
+}
+
+export class Conversation {
+  conversationId: string;
+  conversationType: string;
+  conversationWith: User | Group;
+  unreadMessageCount: number;
+  lastMessage?: BaseMessage;
+
+  constructor(
+    conversationId: string,
+    conversationType: string,
+    lastMessage: BaseMessage | undefined,
+    conversationWith: User | Group,
+    unreadMessageCount: number
+  ) {
+    this.conversationId = conversationId;
+    this.conversationType = conversationType;
+    this.conversationWith = conversationWith;
+    this.unreadMessageCount = unreadMessageCount;
+    if (lastMessage) this.lastMessage = lastMessage;
+  }
+
+  getConversationId() {
+    return this.conversationId;
+  }
+  getConversationType() {
+    return this.conversationType;
+  }
+  getLastMessage() {
+    return this.lastMessage as BaseMessage;
+  }
+  setLastMessage(lastMessage: BaseMessage) {
+    this.lastMessage = lastMessage;
+  }
+  getConversationWith() {
+    return this.conversationWith;
+  }
+  setConversationWith(conversationWith: User | Group) {
+    this.conversationWith = conversationWith;
+  }
+  getUnreadMessageCount() {
+    return this.unreadMessageCount;
+  }
+  setUnreadMessageCount(unreadMessageCount: number) {
+    this.unreadMessageCount = unreadMessageCount;
+  }
+}
+
+// Listener classes only carry the callbacks they were built with.
+class ListenerBase {
+  constructor(callbacks: Listener) {
+    Object.assign(this, callbacks);
+  }
+}
+export class MessageListener extends ListenerBase {}
+export class UserListener extends ListenerBase {}
+export class GroupListener extends ListenerBase {}
+export class CallListener extends ListenerBase {}
+export class ConnectionListener extends ListenerBase {}
+
+export class AppSettings {
+  constructor(
+    readonly region?: string,
+    readonly subscriptionType?: string,
+    readonly roles?: string[]
+  ) {}
+}
+
+export class AppSettingsBuilder {
+  private region?: string;
+  private subscriptionType?: string;
+  private roles?: string[];
+
+  subscribePresenceForAllUsers() {
+    this.subscriptionType = 'ALL_USERS';
+    return this;
+  }
+  subscribePresenceForFriends() {
+    this.subscriptionType = 'FRIENDS';
+    return this;
+  }
+  subscribePresenceForRoles(roles: string[]) {
+    this.subscriptionType = 'ROLES';
+    this.roles = roles;
+    return this;
+  }
+  setRegion(region: string) {
+    this.region = region;
+    return this;
+  }
+  autoEstablishSocketConnection(_autoConnect: boolean) {
+    return this;
+  }
+  build() {
+    return new AppSettings(this.region, this.subscriptionType, this.roles);
+  }
+}
+
+/**
+ * Names of backend calls a test can make fail with `failNext`.
+ */
+export type FakeOperation =
+  | 'init'
+  | 'login'
+  | 'logout'
+  | 'getUser'
+  | 'getGroup'
+  | 'joinGroup'
+  | 'sendMessage'
+  | 'sendMediaMessage'
+  | 'editMessage'
+  | 'deleteMessage'
+  | 'addReaction'
+  | 'removeReaction'
+  | 'fetchReactions'
+  | 'fetchUsers'
+  | 'fetchGroups'
+  | 'fetchMessages'
+  | 'fetchConversations';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+interface MessageDetails {
+  sender: string;
+  receiverId: string;
+  receiverType?: string;
+  sentAt?: number;
+  parentMessageId?: number;
+  metadata?: object;
+}
+
+export interface TextMessageDetails extends MessageDetails {
+  text: string;
+}
+
+export interface UserDetails {
+  uid: string;
+  name?: string;
+  avatar?: string;
+  status?: string;
+  lastActiveAt?: number;
+}
+
+export interface GroupDetails {
+  guid: string;
+  name?: string;
+  type?: string;
+  password?: string;
+  /**
+   * UIDs of the group's members.
+   */
+  members?: string[];
+}
+
+export interface ReceiptDetails {
+  messageId: number;
+  /**
+   * UID of the user who received or read the message.
+   */
+  sender: string;
+  receiptType: 'delivered' | 'read';
+  timestamp?: number;
+}
+
+const userConversationId = (uid: string, otherUid: string) =>
+  [uid, otherUid].sort().join('_user_');
+
+const groupConversationId = (guid: string) => `group_${guid}`;
+
+// Rebuilds the JSON form of a user or group as its SDK class.
+const toUser = (raw: any) => Object.assign(new User(raw.uid), raw);
+const toGroup = (raw: any) => Object.assign(new Group(raw.guid), raw);
+
+/**
+ * The scriptable server behind the fake SDK.
+ */
+class FakeCometChatBackend {
+  private users = new Map<string, User>();
+  private groups = new Map<string, Group>();
+  private members = new Map<string, Set<string>>();
+  private messages: BaseMessage[] = [];
+  private authTokens = new Map<string, string>();
+  // Conversation id -> uid -> id of the last message the user read.
+  private readUpTo = new Map<string, Map<string, number>>();
+  // Conversations each user deleted from their list.
+  private deletedConversations = new Map<string, Set<string>>();
+  private reactions: Reaction[] = [];
+  private failures = new Map<FakeOperation, unknown[]>();
+  private nextMessageId = 1;
+  private nextReactionId = 1;
+
+  loggedInUid: string | null = null;
+  initialized = false;
+  connectionStatus: ConnectionStatus = 'connected';
+
+  messageListeners = new Map<string, Listener>();
+  userListeners = new Map<string, Listener>();
+  groupListeners = new Map<string, Listener>();
+  callListeners = new Map<string, Listener>();
+  connectionListeners = new Map<string, Listener>();
+
+  /**
+   * Messages the app sent, in order.
+   */
+  sentMessages: BaseMessage[] = [];
+  /**
+   * Messages the app marked as delivered or read.
+   */
+  receipts: { type: 'delivered' | 'read'; messageId: number }[] = [];
+  /**
+   * Typing notifications the app sent.
+   */
+  typing: { type: 'started' | 'ended'; receiverId: string; receiverType: string }[] = [];
+
+  /**
+   * Forgets every user, group, message, session and listener.
+   */
+  reset() {
+    this.users.clear();
+    this.groups.clear();
+    this.members.clear();
+    this.messages = [];
+    this.authTokens.clear();
+    this.readUpTo.clear();
+    this.deletedConversations.clear();
+    this.reactions = [];
+    this.failures.clear();
+    this.nextMessageId = 1;
+    this.nextReactionId = 1;
+    this.loggedInUid = null;
+    this.initialized = false;
+    this.connectionStatus = 'connected';
+    this.messageListeners.clear();
+    this.userListeners.clear();
+    this.groupListeners.clear();
+    this.callListeners.clear();
+    this.connectionListeners.clear();
+    this.sentMessages = [];
+    this.receipts = [];
+    this.typing = [];
+  }
+
+  addUser(details: UserDetails) {
+    const user = new User(details.uid, details.name);
+    if (details.avatar !== undefined) user.setAvatar(details.avatar);
+    user.setStatus(details.status ?? USER_STATUS.OFFLINE);
+    if (details.lastActiveAt !== undefined) user.setLastActiveAt(details.lastActiveAt);
+    this.users.set(user.getUid(), user);
+    return cloneObject(user);
+  }
+
+  addGroup(details: GroupDetails) {
+    const group = new Group(details.guid, details.name, details.type ?? GROUP_TYPE.PUBLIC);
+    if (details.password !== undefined) group.password = details.password;
+    this.groups.set(group.getGuid(), group);
+    this.members.set(group.getGuid(), new Set(details.members ?? []));
+    return this.groupFor(group.getGuid());
+  }
+
+  /**
+   * Issues an auth token `CometChat.login` accepts for `uid`.
+   */
+  createAuthToken(uid: string) {
+    const token = `fake-auth-token-${uid}`;
+    this.authTokens.set(token, uid);
+    return token;
+  }
+
+  /**
+   * Starts as if the SDK had kept a session for `uid` from an earlier launch.
+   */
+  setLoggedInUser(uid: string | null) {
+    this.loggedInUid = uid;
+  }
+
+  /**
+   * Makes the next call of `operation` reject with `error`.
+   */
+  failNext(operation: FakeOperation, error: unknown = new CometChatException({ code: 'ERR_FAKE' })) {
+    const queued = this.failures.get(operation) ?? [];
+    queued.push(error);
+    this.failures.set(operation, queued);
+  }
+
+  /**
+   * Adds a text message to the history without notifying listeners, as if it
+   * had been sent before the app started.
+   */
+  seedTextMessage(details: TextMessageDetails) {
+    const message = new TextMessage(details.receiverId, details.text, details.receiverType ?? RECEIVER_TYPE.USER);
+    if (details.metadata) message.setMetadata(copyData(details.metadata));
+    return this.store(message, details.sender, details);
+  }
+
+  /**
+   * Adds a text message to the history and delivers it to the app's message
+   * listeners.
+   */
+  receiveTextMessage(details: TextMessageDetails) {
+    const message = this.seedTextMessage(details);
+    this.emit(this.messageListeners, 'onTextMessageReceived', message);
+    return message;
+  }
+
+  /**
+   * Stores a text, media or custom message built by the test and delivers it
+   * to the matching message listener callback.
+   */
+  receiveMessage(message: TextMessage | MediaMessage | CustomMessage, sender: string) {
+    const stored = this.store(cloneObject(message), sender, {});
+    const callback =
+      stored instanceof CustomMessage
+        ? 'onCustomMessageReceived'
+        : stored instanceof MediaMessage
+          ? 'onMediaMessageReceived'
+          : 'onTextMessageReceived';
+    this.emit(this.messageListeners, callback, stored);
+    return stored;
+  }
+
+  /**
+   * Edits a stored message's text and tells the listeners.
+   */
+  editTextMessage(messageId: number, text: string, editedBy?: string) {
+    const message = this.findMessage(messageId);
+    if (!(message instanceof TextMessage)) throw new Error(`Message ${messageId} is not a text message`);
+    message.setText(text);
+    message.setEditedAt(now());
+    message.editedBy = editedBy ?? message.getSender().getUid();
+    const copy = this.copyMessage(message);
+    this.emit(this.messageListeners, 'onMessageEdited', copy);
+    return copy;
+  }
+
+  /**
+   * Deletes a stored message and tells the listeners.
+   */
+  removeMessage(messageId: number, deletedBy?: string) {
+    const message = this.findMessage(messageId);
+    message.setDeletedAt(now());
+    message.deletedBy = deletedBy ?? message.getSender().getUid();
+    const copy = this.copyMessage(message);
+    this.emit(this.messageListeners, 'onMessageDeleted', copy);
+    return copy;
+  }
+
+  /**
+   * Adds or removes `sender`'s reaction on a stored message and tells the
+   * listeners.
+   */
+  receiveReaction(details: { messageId: number; sender: string; emoji: string }, added = true) {
+    return this.react(details.messageId, details.sender, details.emoji, added);
+  }
+
+  /**
+   * Delivers a delivery or read receipt for one of the app's messages.
+   */
+  receiveReceipt(details: ReceiptDetails) {
+    const message = this.findMessage(details.messageId);
+    const timestamp = details.timestamp ?? now();
+    if (details.receiptType === 'read') {
+      message.setReadAt(timestamp);
+      if (!message.hasOwnProperty('deliveredAt')) message.setDeliveredAt(timestamp);
+    } else {
+      message.setDeliveredAt(timestamp);
+    }
+    const receipt = new MessageReceipt({
+      messageId: `${details.messageId}`,
+      sender: this.userFor(details.sender),
+      receiverId: message.getReceiverId(),
+      receiverType: message.getReceiverType(),
+      receiptType: details.receiptType,
+      timestamp,
+    });
+    this.emit(
+      this.messageListeners,
+      details.receiptType === 'read' ? 'onMessagesRead' : 'onMessagesDelivered',
+      receipt
+    );
+    return receipt;
+  }
+
+  /**
+   * Delivers a typing indicator from `sender`.
+   */
+  receiveTyping(
+    details: { sender: string; receiverId: string; receiverType?: string },
+    started = true
+  ) {
+    const indicator = new TypingIndicator(details.receiverId, details.receiverType ?? RECEIVER_TYPE.USER);
+    indicator.sender = this.userFor(details.sender);
+    this.emit(this.messageListeners, started ? 'onTypingStarted' : 'onTypingEnded', indicator);
+    return indicator;
+  }
+
+  /**
+   * Changes a user's presence and tells the user listeners.
+   */
+  setUserStatus(uid: string, status: 'online' | 'offline', lastActiveAt = now()) {
+    const user = this.requireUser(uid);
+    user.setStatus(status);
+    user.setLastActiveAt(lastActiveAt);
+    this.emit(
+      this.userListeners,
+      status === USER_STATUS.ONLINE ? 'onUserOnline' : 'onUserOffline',
+      cloneObject(user)
+    );
+  }
+
+  /**
+   * Changes the socket state and tells the connection listeners. While it
+   * isn't connected, live events are dropped as they would be with the real
+   * socket; messages still reach the backend and show up in later fetches.
+   */
+  setConnectionStatus(status: ConnectionStatus) {
+    this.connectionStatus = status;
+    const callback =
+      status === 'connected' ? 'onConnected' : status === 'connecting' ? 'inConnecting' : 'onDisconnected';
+    this.emit(this.connectionListeners, callback);
+  }
+
+  /**
+   * Every stored message, oldest first.
+   */
+  getMessages() {
+    return this.messages.map(message => this.copyMessage(message));
+  }
+
+  // --- Used by the SDK functions below ---------------------------------------
+
+  fail(operation: FakeOperation) {
+    const queued = this.failures.get(operation);
+    if (!queued?.length) return null;
+    return { error: queued.shift() };
+  }
+
+  requireLogin() {
+    if (!this.loggedInUid) {
+      throw new CometChatException({ code: 'USER_NOT_LOGED_IN', message: 'Please log in to CometChat.' });
+    }
+    return this.loggedInUid;
+  }
+
+  uidForToken(authToken: string) {
+    return this.authTokens.get(authToken);
+  }
+
+  hasUser(uid: string) {
+    return this.users.has(uid);
+  }
+
+  userFor(uid: string) {
+    return cloneObject(this.requireUser(uid));
+  }
+
+  groupFor(guid: string) {
+    const stored = this.groups.get(guid);
+    if (!stored) {
+      throw new CometChatException({ code: 'ERR_GUID_NOT_FOUND', message: `Group ${guid} not found.` });
+    }
+    const group = cloneObject(stored);
+    delete group.password;
+    const members = this.members.get(guid) ?? new Set();
+    group.setMembersCount(members.size);
+    group.setHasJoined(this.loggedInUid !== null && members.has(this.loggedInUid));
+    if (group.getHasJoined()) group.setScope(GroupMemberScope.Participant);
+    return group;
+  }
+
+  joinGroup(guid: string, password?: string) {
+    const uid = this.requireLogin();
+    const group = this.groups.get(guid);
+    if (!group) {
+      throw new CometChatException({ code: 'ERR_GUID_NOT_FOUND', message: `Group ${guid} not found.` });
+    }
+    if (group.getType() === GROUP_TYPE.PASSWORD && group.password !== password) {
+      throw new CometChatException({ code: 'ERR_WRONG_GROUP_PASS', message: 'Wrong group password.' });
+    }
+    if (group.getType() === GROUP_TYPE.PRIVATE) {
+      throw new CometChatException({ code: 'ERR_GROUP_JOIN_NOT_ALLOWED', message: 'Private group.' });
+    }
+    this.members.get(guid)?.add(uid);
+    return this.groupFor(guid);
+  }
+
+  listUsers() {
+    return [...this.users.values()]
+      .filter(user => user.getUid() !== this.loggedInUid)
+      .sort((a, b) => a.getName().localeCompare(b.getName()))
+      .map(user => cloneObject(user));
+  }
+
+  listGroups() {
+    return [...this.groups.keys()]
+      .map(guid => this.groupFor(guid))
+      .filter(group => group.getType() !== GROUP_TYPE.PRIVATE || group.getHasJoined())
+      .sort((a, b) => a.getName().localeCompare(b.getName()));
+  }
+
+  isMember(guid: string, uid: string) {
+    return this.members.get(guid)?.has(uid) ?? false;
+  }
+
+  findMessage(messageId: number) {
+    const message = this.messages.find(item => item.getId() === Number(messageId));
+    if (!message) {
+      throw new CometChatException({ code: 'ERR_MESSAGE_NOT_FOUND', message: `Message ${messageId} not found.` });
+    }
+    return message;
+  }
+
+  copyMessage<T extends BaseMessage>(message: T): T {
+    const copy = cloneObject(message);
+    if (message.metadata !== undefined) copy.metadata = copyData(message.metadata);
+    if (message.sender) copy.sender = cloneObject(message.sender);
+    if (message.receiver) copy.receiver = cloneObject(message.receiver);
+    const counts = this.reactionCounts(message.getId());
+    if (counts.length) copy.reactions = counts;
+    return copy;
+  }
+
+  /**
+   * Adds or removes a user's reaction; adding an existing or removing a
+   * missing reaction changes nothing.
+   */
+  react(messageId: number, uid: string, emoji: string, added: boolean) {
+    const message = this.findMessage(messageId);
+    const existing = this.reactions.find(
+      reaction => reaction.messageId === `${messageId}` && reaction.uid === uid && reaction.reaction === emoji
+    );
+    if (added === !!existing) return this.copyMessage(message);
+
+    const reaction =
+      existing ??
+      new Reaction(`${this.nextReactionId++}`, `${messageId}`, emoji, uid, now(), cloneObject(this.requireUser(uid)));
+    this.reactions = added ? [...this.reactions, reaction] : this.reactions.filter(item => item !== existing);
+    this.emit(
+      this.messageListeners,
+      added ? 'onMessageReactionAdded' : 'onMessageReactionRemoved',
+      new ReactionEvent(
+        cloneObject(reaction),
+        message.getReceiverId(),
+        message.getReceiverType(),
+        message.getConversationId(),
+        message.getParentMessageId() ? `${message.getParentMessageId()}` : undefined
+      )
+    );
+    return this.copyMessage(message);
+  }
+
+  /**
+   * Reactions on a message, oldest first.
+   */
+  reactionsFor(messageId: number) {
+    return this.reactions
+      .filter(reaction => reaction.messageId === `${messageId}`)
+      .map(reaction => cloneObject(reaction));
+  }
+
+  // Per-emoji counts as the logged in user sees them, in order of first use.
+  private reactionCounts(messageId: number) {
+    const counts = new Map<string, ReactionCount>();
+    this.reactions
+      .filter(reaction => reaction.messageId === `${messageId}`)
+      .forEach(reaction => {
+        const count = counts.get(reaction.reaction) ?? new ReactionCount(reaction.reaction, 0, false);
+        count.setCount(count.getCount() + 1);
+        if (reaction.uid === this.loggedInUid) count.setReactedByMe(true);
+        counts.set(reaction.reaction, count);
+      });
+    return [...counts.values()];
+  }
+
+  /**
+   * Messages visible to the logged in user, oldest first.
+   */
+  visibleMessages() {
+    const uid = this.requireLogin();
+    return this.messages.filter(message =>
+      message.getReceiverType() === RECEIVER_TYPE.GROUP
+        ? this.isMember(message.getReceiverId(), uid)
+        : message.getSender().getUid() === uid || message.getReceiverId() === uid
+    );
+  }
+
+  /**
+   * Gives a message an id, sender, receiver and timestamps and stores it.
+   */
+  store<T extends BaseMessage>(message: T, senderUid: string, details: Partial<MessageDetails>): T {
+    message.setId(this.nextMessageId++);
+    message.setSender(this.userFor(senderUid));
+    if (message.getReceiverType() === RECEIVER_TYPE.GROUP) {
+      message.setReceiver(this.groupFor(message.getReceiverId()));
+      message.conversationId = groupConversationId(message.getReceiverId());
+    } else {
+      message.setReceiver(this.userFor(message.getReceiverId()));
+      message.conversationId = userConversationId(senderUid, message.getReceiverId());
+    }
+    message.setSentAt(details.sentAt ?? now());
+    if (details.parentMessageId !== undefined) message.setParentMessageId(details.parentMessageId);
+    if (message.getParentMessageId()) {
+      const parent = this.findMessage(message.getParentMessageId());
+      parent.setReplyCount(parent.getReplyCount() + 1);
+    }
+    this.messages.push(message);
+    // A new message brings a deleted conversation back for both sides.
+    this.deletedConversations.forEach(ids => ids.delete(message.conversationId as string));
+    return this.copyMessage(message);
+  }
+
+  markRead(messageId: number) {
+    const uid = this.requireLogin();
+    const message = this.findMessage(messageId);
+    const conversationId = message.getConversationId();
+    const read = this.readUpTo.get(conversationId) ?? new Map<string, number>();
+    read.set(uid, Math.max(read.get(uid) ?? 0, message.getId()));
+    this.readUpTo.set(conversationId, read);
+  }
+
+  conversationFor(message: BaseMessage) {
+    const uid = this.requireLogin();
+    const conversationId = message.getConversationId();
+    const conversationWith =
+      message.getReceiverType() === RECEIVER_TYPE.GROUP
+        ? this.groupFor(message.getReceiverId())
+        : this.userFor(
+            message.getSender().getUid() === uid ? message.getReceiverId() : message.getSender().getUid()
+          );
+    const readUpTo = this.readUpTo.get(conversationId)?.get(uid) ?? 0;
+    const unread = this.messages.filter(
+      item =>
+        item.getConversationId() === conversationId &&
+        !item.getParentMessageId() &&
+        item.getSender().getUid() !== uid &&
+        item.getId() > readUpTo
+    ).length;
+    return new Conversation(
+      conversationId,
+      message.getReceiverType(),
+      this.copyMessage(message),
+      conversationWith,
+      unread
+    );
+  }
+
+  listConversations(type?: string) {
+    const uid = this.requireLogin();
+    const deleted = this.deletedConversations.get(uid) ?? new Set();
+    const latest = new Map<string, BaseMessage>();
+    this.visibleMessages()
+      .filter(message => !message.getParentMessageId())
+      .forEach(message => latest.set(message.getConversationId(), message));
+    return [...latest.values()]
+      .filter(message => !deleted.has(message.getConversationId()))
+      .filter(message => !type || message.getReceiverType() === type)
+      .sort((a, b) => b.getSentAt() - a.getSentAt() || b.getId() - a.getId())
+      .map(message => this.conversationFor(message));
+  }
+
+  getConversation(conversationWith: string, type: string) {
+    const uid = this.requireLogin();
+    const conversationId =
+      type === RECEIVER_TYPE.GROUP ? groupConversationId(conversationWith) : userConversationId(uid, conversationWith);
+    const conversation = this.listConversations().find(item => item.getConversationId() === conversationId);
+    if (conversation) return conversation;
+    return new Conversation(
+      conversationId,
+      type,
+      undefined,
+      type === RECEIVER_TYPE.GROUP ? this.groupFor(conversationWith) : this.userFor(conversationWith),
+      0
+    );
+  }
+
+  deleteConversation(conversationWith: string, type: string) {
+    const uid = this.requireLogin();
+    const conversationId =
+      type === RECEIVER_TYPE.GROUP ? groupConversationId(conversationWith) : userConversationId(uid, conversationWith);
+    const deleted = this.deletedConversations.get(uid) ?? new Set<string>();
+    deleted.add(conversationId);
+    this.deletedConversations.set(uid, deleted);
+  }
+
+  emit(listeners: Map<string, Listener>, callback: string, ...args: unknown[]) {
+    if (listeners !== this.connectionListeners && this.connectionStatus !== 'connected') return;
+    [...listeners.values()].forEach(listener => listener[callback]?.(...args));
+  }
+
+  private requireUser(uid: string) {
+    const user = this.users.get(uid);
+    if (!user) {
+      throw new CometChatException({ code: 'ERR_UID_NOT_FOUND', message: `User ${uid} not found.` });
+    }
+    return user;
+  }
+}
+
+/**
+ * The backend behind the mocked SDK.
+ */
+export const fakeCometChat = new FakeCometChatBackend();
+
+// Runs an SDK call against the backend, turning thrown errors and scripted
+// failures into rejections the way the real SDK reports them.
+const call = <T>(operation: FakeOperation | null, run: () => T): Promise<T> => {
+  const failure = operation && fakeCometChat.fail(operation);
+  if (failure) return Promise.reject(failure.error);
+  try {
+    return Promise.resolve(run());
+  } catch (error) {
+    return Promise.reject(error);
+  }
+};
+
+class UsersRequest {
+  private page = 0;
+
+  constructor(private readonly limit: number, private readonly keyword?: string) {}
+
+  fetchNext() {
+    return call('fetchUsers', () => {
+      fakeCometChat.requireLogin();
+      const keyword = this.keyword?.toLowerCase();
+      const users = fakeCometChat
+        .listUsers()
+        .filter(
+          user =>
+            !keyword ||
+            user.getName().toLowerCase().includes(keyword) ||
+            user.getUid().toLowerCase().includes(keyword)
+        );
+      return users.slice(this.page * this.limit, ++this.page * this.limit);
+    });
+  }
+}
+
+class UsersRequestBuilder {
+  private limit = 30;
+  private keyword?: string;
+
+  setLimit(limit: number) {
+    this.limit = limit;
+    return this;
+  }
+  setSearchKeyword(keyword: string) {
+    this.keyword = keyword;
+    return this;
+  }
+  build() {
+    return new UsersRequest(this.limit, this.keyword);
+  }
+}
+
+class GroupsRequest {
+  private page = 0;
+
+  constructor(
+    private readonly limit: number,
+    private readonly keyword?: string,
+    private readonly joinedOnly = false
+  ) {}
+
+  fetchNext() {
+    return call('fetchGroups', () => {
+      fakeCometChat.requireLogin();
+      const keyword = this.keyword?.toLowerCase();
+      const groups = fakeCometChat
+        .listGroups()
+        .filter(group => !this.joinedOnly || group.getHasJoined())
+        .filter(group => !keyword || group.getName().toLowerCase().includes(keyword));
+      return groups.slice(this.page * this.limit, ++this.page * this.limit);
+    });
+  }
+}
+
+class GroupsRequestBuilder {
+  private limit = 30;
+  private keyword?: string;
+  private joined = false;
+
+  setLimit(limit: number) {
+    this.limit = limit;
+    return this;
+  }
+  setSearchKeyword(keyword: string) {
+    this.keyword = keyword;
+    return this;
+  }
+  joinedOnly(joinedOnly: boolean) {
+    this.joined = joinedOnly;
+    return this;
+  }
+  build() {
+    return new GroupsRequest(this.limit, this.keyword, this.joined);
+  }
+}
+
+interface MessagesFilter {
+  limit: number;
+  uid?: string;
+  guid?: string;
+  parentMessageId?: number;
+  hideReplies: boolean;
+  hideDeleted: boolean;
+  keyword?: string;
+}
+
+class MessagesRequest {
+  // Ids of the oldest and newest messages returned so far.
+  private oldestId?: number;
+  private newestId?: number;
+
+  constructor(private readonly filter: MessagesFilter) {}
+
+  fetchPrevious() {
+    return call('fetchMessages', () => {
+      const matching = this.matching().filter(message => this.oldestId === undefined || message.getId() < this.oldestId);
+      const page = matching.slice(-this.filter.limit);
+      if (page.length) {
+        this.oldestId = page[0].getId();
+        this.newestId = Math.max(this.newestId ?? 0, page[page.length - 1].getId());
+      }
+      return page.map(message => fakeCometChat.copyMessage(message));
+    });
+  }
+
+  fetchNext() {
+    return call('fetchMessages', () => {
+      const matching = this.matching().filter(message => this.newestId === undefined || message.getId() > this.newestId);
+      const page = matching.slice(0, this.filter.limit);
+      if (page.length) {
+        this.newestId = page[page.length - 1].getId();
+        this.oldestId = Math.min(this.oldestId ?? Infinity, page[0].getId());
+      }
+      return page.map(message => fakeCometChat.copyMessage(message));
+    });
+  }
+
+  private matching() {
+    const uid = fakeCometChat.requireLogin();
+    const { guid, hideDeleted, hideReplies, keyword, parentMessageId } = this.filter;
+    if (guid && !fakeCometChat.isMember(guid, uid)) {
+      throw new CometChatException({ code: 'ERR_GROUP_NOT_JOINED', message: `Not a member of ${guid}.` });
+    }
+    return fakeCometChat.visibleMessages().filter(message => {
+      if (guid && message.getConversationId() !== groupConversationId(guid)) return false;
+      if (this.filter.uid && message.getConversationId() !== userConversationId(uid, this.filter.uid)) {
+        return false;
+      }
+      if (parentMessageId !== undefined && message.getParentMessageId() !== parentMessageId) return false;
+      if (hideReplies && message.getParentMessageId()) return false;
+      if (hideDeleted && message.getDeletedAt()) return false;
+      if (keyword && !(message instanceof TextMessage && message.getText().toLowerCase().includes(keyword.toLowerCase()))) {
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+class MessagesRequestBuilder {
+  private filter: MessagesFilter = { limit: 30, hideReplies: false, hideDeleted: false };
+
+  setLimit(limit: number) {
+    this.filter.limit = limit;
+    return this;
+  }
+  setUID(uid: string) {
+    this.filter.uid = uid;
+    return this;
+  }
+  setGUID(guid: string) {
+    this.filter.guid = guid;
+    return this;
+  }
+  setParentMessageId(parentMessageId: number) {
+    this.filter.parentMessageId = parentMessageId;
+    return this;
+  }
+  hideReplies(hideReplies: boolean) {
+    this.filter.hideReplies = hideReplies;
+    return this;
+  }
+  hideDeletedMessages(hideDeleted: boolean) {
+    this.filter.hideDeleted = hideDeleted;
+    return this;
+  }
+  setSearchKeyword(keyword: string) {
+    this.filter.keyword = keyword;
+    return this;
+  }
+  build() {
+    if (!this.filter.uid && !this.filter.guid && this.filter.parentMessageId === undefined) {
+      throw new CometChatException({ code: 'ERR_EMPTY_FILTER', message: 'Set a UID, GUID or parent message id.' });
+    }
+    return new MessagesRequest({ ...this.filter });
+  }
+}
+
+class ConversationsRequest {
+  private page = 0;
+
+  constructor(
+    private readonly limit: number,
+    private readonly type?: string,
+    private readonly keyword?: string
+  ) {}
+
+  fetchNext() {
+    return call('fetchConversations', () => {
+      const keyword = this.keyword?.toLowerCase();
+      const conversations = fakeCometChat
+        .listConversations(this.type)
+        .filter(
+          conversation =>
+            !keyword || conversation.getConversationWith().getName().toLowerCase().includes(keyword)
+        );
+      return conversations.slice(this.page * this.limit, ++this.page * this.limit);
+    });
+  }
+}
+
+class ConversationsRequestBuilder {
+  private limit = 30;
+  private type?: string;
+  private keyword?: string;
+
+  setLimit(limit: number) {
+    this.limit = limit;
+    return this;
+  }
+  setConversationType(type: string) {
+    this.type = type;
+    return this;
+  }
+  setSearchKeyword(keyword: string) {
+    this.keyword = keyword;
+    return this;
+  }
+  build() {
+    return new ConversationsRequest(this.limit, this.type, this.keyword);
+  }
+}
+
+class ReactionsRequest {
+  private page = 0;
+
+  constructor(private readonly messageId: number, private readonly limit: number, private readonly reaction?: string) {}
+
+  fetchNext() {
+    return call('fetchReactions', () => {
+      fakeCometChat.requireLogin();
+      const reactions = fakeCometChat
+        .reactionsFor(this.messageId)
+        .filter(reaction => !this.reaction || reaction.getReaction() === this.reaction);
+      return reactions.slice(this.page * this.limit, ++this.page * this.limit);
+    });
+  }
+}
+
+class ReactionsRequestBuilder {
+  private messageId = 0;
+  private limit = 10;
+  private reaction?: string;
+
+  setMessageId(messageId: number) {
+    this.messageId = messageId;
+    return this;
+  }
+  setLimit(limit: number) {
+    this.limit = limit;
+    return this;
+  }
+  setReaction(reaction: string) {
+    this.reaction = reaction;
+    return this;
+  }
+  build() {
+    return new ReactionsRequest(this.messageId, this.limit, this.reaction);
+  }
+}
+
+// Sets the sender-side fields a sent message gets from the server.
+const sendStored = <T extends BaseMessage>(message: T): T => {
+  const uid = fakeCometChat.requireLogin();
+  const sent = fakeCometChat.store(cloneObject(message), uid, {});
+  fakeCometChat.sentMessages.push(sent);
+  return fakeCometChat.copyMessage(sent);
+};
+
+const processMessage = (raw: any): BaseMessage => {
+  let message: BaseMessage;
+  if (raw.category === CATEGORY_ACTION) {
+    message = new Action(raw.receiverId, raw.action, raw.receiverType, raw.message);
+  } else if (raw.category === CATEGORY_CALL) {
+    message = new Call(raw.receiverId, raw.type, raw.receiverType, raw.status);
+  } else if (raw.category === CATEGORY_CUSTOM) {
+    message = new CustomMessage(raw.receiverId, raw.receiverType, raw.type, raw.customData);
+  } else if (raw.type === MESSAGE_TYPE.TEXT) {
+    message = new TextMessage(raw.receiverId, raw.text, raw.receiverType);
+  } else {
+    message = new MediaMessage(raw.receiverId, undefined, raw.type, raw.receiverType);
+  }
+  Object.assign(message, raw);
+  if (raw.sender) message.sender = toUser(raw.sender);
+  if (raw.receiver) {
+    message.receiver = raw.receiverType === RECEIVER_TYPE.GROUP ? toGroup(raw.receiver) : toUser(raw.receiver);
+  }
+  if (message instanceof MediaMessage && raw.attachment) message.attachment = new Attachment(raw.attachment);
+  if (raw.reactions) {
+    message.reactions = raw.reactions.map(
+      (count: any) => new ReactionCount(count.reaction, count.count, count.reactedByMe)
+    );
+  }
+  return message;
+};
+
+/**
+ * Drop-in for the `CometChat` namespace the SDK exports.
+ */
+export const CometChat = {
+  RECEIVER_TYPE,
+  MESSAGE_TYPE,
+  CATEGORY_MESSAGE,
+  CATEGORY_ACTION,
+  CATEGORY_CALL,
+  CATEGORY_CUSTOM,
+  USER_STATUS,
+  GROUP_TYPE,
+  GroupMemberScope,
+
+  CometChatException,
+  User,
+  GroupMember,
+  Group,
+  Attachment,
+  BaseMessage,
+  TextMessage,
+  MediaMessage,
+  CustomMessage,
+  Action,
+  Call,
+  TypingIndicator,
+  MessageReceipt,
+  ReactionCount,
+  Reaction,
+  ReactionEvent,
+  Conversation,
+  MessageListener,
+  UserListener,
+  GroupListener,
+  CallListener,
+  ConnectionListener,
+  AppSettings,
+  AppSettingsBuilder,
+  UsersRequestBuilder,
+  GroupsRequestBuilder,
+  MessagesRequestBuilder,
+  ConversationsRequestBuilder,
+  ReactionsRequestBuilder,
+
+  CometChatHelper: {
+    processMessage,
+    getConversationFromMessage: (message: BaseMessage) =>
+      call(null, () => fakeCometChat.conversationFor(message)),
+  },
+
+  init: (_appId: string, _settings?: AppSettings) =>
+    call('init', () => {
+      fakeCometChat.initialized = true;
+      return true;
+    }),
+
+  login: (authTokenOrUid: string, authKey?: string) =>
+    call('login', () => {
+      const uid =
+        authKey !== undefined && fakeCometChat.hasUser(authTokenOrUid)
+          ? authTokenOrUid
+          : fakeCometChat.uidForToken(authTokenOrUid);
+      if (!uid || !fakeCometChat.hasUser(uid)) {
+        throw new CometChatException({ code: 'AUTH_ERR_AUTH_TOKEN_NOT_FOUND', message: 'Invalid auth token.' });
+      }
+      fakeCometChat.loggedInUid = uid;
+      return fakeCometChat.userFor(uid);
+    }),
+
+  getLoggedinUser: () =>
+    call(null, () => (fakeCometChat.loggedInUid ? fakeCometChat.userFor(fakeCometChat.loggedInUid) : null)),
+
+  logout: () =>
+    call('logout', () => {
+      fakeCometChat.loggedInUid = null;
+      return {};
+    }),
+
+  getConnectionStatus: () => fakeCometChat.connectionStatus,
+
+  getUser: (uid: string) => call('getUser', () => fakeCometChat.userFor(uid)),
+
+  getGroup: (guid: string) => call('getGroup', () => fakeCometChat.groupFor(guid)),
+
+  joinGroup: (guid: string, _type?: string, password?: string) =>
+    call('joinGroup', () => fakeCometChat.joinGroup(guid, password)),
+
+  getMessageDetails: (messageId: string | number) =>
+    call(null, () => fakeCometChat.copyMessage(fakeCometChat.findMessage(Number(messageId)))),
+
+  sendMessage: (message: TextMessage | CustomMessage) =>
+    call('sendMessage', () => sendStored(message)),
+
+  sendMediaMessage: (message: MediaMessage) =>
+    call('sendMediaMessage', () => {
+      const media = cloneObject(message);
+      const file = media.file;
+      if (file) {
+        media.attachment = new Attachment({
+          url: file.uri,
+          name: file.name,
+          size: file.size,
+          mimeType: file.type,
+          extension: file.name.split('.').pop(),
+        });
+        media.url = file.uri;
+        delete media.file;
+      }
+      return sendStored(media);
+    }),
+
+  editMessage: (message: BaseMessage) =>
+    call('editMessage', () => {
+      const uid = fakeCometChat.requireLogin();
+      const stored = fakeCometChat.findMessage(message.getId());
+      if (stored.getSender().getUid() !== uid) {
+        throw new CometChatException({ code: 'ERR_NOT_A_SENDER', message: 'Only the sender can edit.' });
+      }
+      if (stored instanceof TextMessage && message instanceof TextMessage) stored.setText(message.getText());
+      stored.setEditedAt(now());
+      stored.editedBy = uid;
+      return fakeCometChat.copyMessage(stored);
+    }),
+
+  deleteMessage: (messageId: string | number) =>
+    call('deleteMessage', () => {
+      const uid = fakeCometChat.requireLogin();
+      const stored = fakeCometChat.findMessage(Number(messageId));
+      stored.setDeletedAt(now());
+      stored.deletedBy = uid;
+      return fakeCometChat.copyMessage(stored);
+    }),
+
+  markAsDelivered: (message: BaseMessage) =>
+    call(null, () => {
+      fakeCometChat.receipts.push({ type: 'delivered', messageId: message.getId() });
+    }),
+
+  markAsRead: (message: BaseMessage) =>
+    call(null, () => {
+      fakeCometChat.markRead(message.getId());
+      fakeCometChat.receipts.push({ type: 'read', messageId: message.getId() });
+    }),
+
+  startTyping: (indicator: TypingIndicator) => {
+    fakeCometChat.typing.push({
+      type: 'started',
+      receiverId: indicator.getReceiverId(),
+      receiverType: indicator.getReceiverType(),
+    });
+  },
+
+  endTyping: (indicator: TypingIndicator) => {
+    fakeCometChat.typing.push({
+      type: 'ended',
+      receiverId: indicator.getReceiverId(),
+      receiverType: indicator.getReceiverType(),
+    });
+  },
+
+  getConversation: (conversationWith: string, conversationType: string) =>
+    call(null, () => fakeCometChat.getConversation(conversationWith, conversationType)),
+
+  deleteConversation: (conversationWith: string, conversationType: string) =>
+    call(null, () => {
+      fakeCometChat.deleteConversation(conversationWith, conversationType);
+      return 'Conversation deleted successfully.';
+    }),
+
+  addReaction: (messageId: string | number, emoji: string) =>
+    call('addReaction', () => fakeCometChat.react(Number(messageId), fakeCometChat.requireLogin(), emoji, true)),
+
+  removeReaction: (messageId: string | number, emoji: string) =>
+    call('removeReaction', () => fakeCometChat.react(Number(messageId), fakeCometChat.requireLogin(), emoji, false)),
+
+  addMessageListener: (id: string, listener: MessageListener) => {
+    fakeCometChat.messageListeners.set(id, listener as Listener);
+  },
+  removeMessageListener: (id: string) => {
+    fakeCometChat.messageListeners.delete(id);
+  },
+  addUserListener: (id: string, listener: UserListener) => {
+    fakeCometChat.userListeners.set(id, listener as Listener);
+  },
+  removeUserListener: (id: string) => {
+    fakeCometChat.userListeners.delete(id);
+  },
+  addGroupListener: (id: string, listener: GroupListener) => {
+    fakeCometChat.groupListeners.set(id, listener as Listener);
+  },
+  removeGroupListener: (id: string) => {
+    fakeCometChat.groupListeners.delete(id);
+  },
+  addCallListener: (id: string, listener: CallListener) => {
+    fakeCometChat.callListeners.set(id, listener as Listener);
+  },
+  removeCallListener: (id: string) => {
+    fakeCometChat.callListeners.delete(id);
+  },
+  addConnectionListener: (id: string, listener: ConnectionListener) => {
+    fakeCometChat.connectionListeners.set(id, listener as Listener);
+  },
+  removeConnectionListener: (id: string) => {
+    fakeCometChat.connectionListeners.delete(id);
+  },
+};
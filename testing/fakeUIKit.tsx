@@ -0,0 +1,430 @@
+/*
+ * fakeUIKit.tsx
+ * ---------------------------------------------------------------------------
+ * Stand-ins for the parts of the CometChat UI kit that CometChatConversations
+ * imports but this repository doesn't ship: `../shared`, `../theme` and the
+ * component's `Skeleton` and `style`. Tests mock each of those modules with
+ * this one, so the real component runs on top of the in-memory SDK fake.
+ *
+ * CometChatList follows UI kit 5.2.1 where the component depends on it: the
+ * ref methods, including `addItemToList` dropping the row before a middle
+ * position, `onListFetched`, the default row with its press and long press,
+ * `ItemView`, and the next page loaded at the end of the list. It leaves out
+ * the kit's own reload of the first page after a reconnect, so tests see what
+ * the component's resync does. Leaf views only render their text, or a testID
+ * tests can look for.
+ * ---------------------------------------------------------------------------
+ */
+import { CometChat } from '@cometchat/chat-sdk-react-native';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { FlatList, GestureResponderEvent, Text, TouchableOpacity, View } from 'react-native';
+import { fakeCometChat } from './fakeCometChat';
+
+type Listener = Record<string, ((...args: any[]) => void) | undefined>;
+
+// UIKitConstants
+export const ConversationTypeConstants = { user: 'user', group: 'group', both: 'both' };
+export const GroupTypeConstants = { private: 'private', password: 'password', public: 'public' };
+export const MessageCategoryConstants = {
+  message: 'message',
+  custom: 'custom',
+  action: 'action',
+  call: 'call',
+  interactive: 'interactive',
+};
+export const ReceiverTypeConstants = { user: 'user', group: 'group' };
+export const UserStatusConstants = { online: 'online', offline: 'offline' };
+export const MessageStatusConstants = { inprogress: 'inprogress', success: 'success', error: 'error' };
+export enum MessageReceipt {
+  SENT = 'SENT',
+  DELIVERED = 'DELIVERED',
+  READ = 'READ',
+  ERROR = 'ERROR',
+  WAIT = 'WAIT',
+}
+export enum MentionsTargetElement {
+  textinput,
+  textbubble,
+  conversation,
+}
+export const CometChatUiKitConstants = {
+  ConversationTypeConstants,
+  GroupTypeConstants,
+  MessageCategoryConstants,
+  ReceiverTypeConstants,
+  UserStatusConstants,
+  MessageStatusConstants,
+};
+export const CometChatConversationEvents = { ccConversationDeleted: 'ccConversationDeleted' };
+
+const translations: Record<string, string> = {
+  CHATS: 'Chats',
+  SEARCH: 'Search',
+  YOU: 'You',
+  LINK: 'Link',
+  IS_TYPING: 'is typing...',
+  TAP_TO_START_CONVERSATION: 'Tap to start conversation',
+  DELETE: 'Delete',
+  CANCEL: 'Cancel',
+  DELETE_THIS_CONVERSATION: 'Delete this conversation?',
+};
+
+export const localize = (key: string) => translations[key] ?? key;
+
+// Theme
+const theme = {
+  color: {
+    primary: '#6852D6',
+    error: '#F44649',
+    neutral500: '#A1A1A1',
+    textPrimary: '#141414',
+    textTertiary: '#A1A1A1',
+    background3: '#F5F5F5',
+    iconSecondary: '#A1A1A1',
+  },
+  spacing: {
+    spacing: { s4: 16, s5: 20, s6: 24, s10: 40, s12: 48, s15: 60 },
+    margin: { m5: 20, m15: 60 },
+  },
+  conversationStyles: {
+    containerStyle: { flex: 1 },
+    itemStyle: {
+      containerStyle: {},
+      titleStyle: {},
+      subtitleStyle: { color: '#727272' },
+      trailingViewContainerStyle: {},
+      badgeStyle: { containerStyle: { backgroundColor: '#6852D6' } },
+    },
+  },
+};
+
+export const useTheme = () => theme;
+
+export const deepMerge = (target: any, source: any): any => {
+  const merged = { ...target };
+  Object.keys(source).forEach(key => {
+    const value = source[key];
+    const isObject =
+      value && typeof value === 'object' && !Array.isArray(value) && !React.isValidElement(value);
+    merged[key] = isObject ? deepMerge(target[key] ?? {}, value) : value ?? target[key];
+  });
+  return merged;
+};
+
+export class CommonUtils {
+  /**
+   * Deep copy keeping prototypes, like the kit's.
+   */
+  static clone<T>(arg: T, seen = new WeakMap()): T {
+    if (typeof arg !== 'object' || !arg) return arg;
+    if (seen.has(arg)) return seen.get(arg);
+    if (Array.isArray(arg)) {
+      const copy: any[] = [];
+      seen.set(arg, copy);
+      arg.forEach(value => copy.push(CommonUtils.clone(value, seen)));
+      return copy as T;
+    }
+    const copy = Object.create(Object.getPrototypeOf(arg));
+    seen.set(arg, copy);
+    Object.keys(arg).forEach(key => {
+      copy[key] = CommonUtils.clone((arg as any)[key], seen);
+    });
+    return copy;
+  }
+}
+
+// UIKit state and services
+const conversationUpdateSettings = {
+  shouldUpdateOnMessageReplies: () => false,
+  shouldUpdateOnCustomMessages: () => true,
+  shouldUpdateOnGroupActions: () => true,
+  shouldUpdateOnCallActivities: () => true,
+};
+
+export const CometChatUIKit = {
+  get loggedInUser() {
+    return fakeCometChat.loggedInUid ? fakeCometChat.userFor(fakeCometChat.loggedInUid) : null;
+  },
+  getConversationUpdateSettings: () => conversationUpdateSettings,
+};
+
+export const CometChatSoundManager = {
+  SoundOutput: {
+    incomingCall: 'incomingCall',
+    incomingMessage: 'incomingMessage',
+    incomingMessageFromOther: 'incomingMessageFromOther',
+    outgoingCall: 'outgoingCall',
+    outgoingMessage: 'outgoingMessage',
+  },
+  play: jest.fn(),
+};
+
+export const ChatConfigurator = {
+  getDataSource: () => ({
+    getLastConversationMessage: (conversation: CometChat.Conversation) => {
+      const lastMessage = conversation.getLastMessage();
+      if (lastMessage.getDeletedAt()) return 'This message was deleted';
+      if (lastMessage instanceof CometChat.TextMessage) return lastMessage.getText();
+      return lastMessage.getType();
+    },
+  }),
+};
+
+export const getMessagePreviewInternal = (_icon: string, text: string) => <Text>{text}</Text>;
+
+const handlers = {
+  message: new Map<string, Listener>(),
+  conversation: new Map<string, Listener>(),
+  group: new Map<string, Listener>(),
+  user: new Map<string, Listener>(),
+  call: new Map<string, Listener>(),
+};
+
+const emit = (listeners: Map<string, Listener>, name: string, param: unknown) =>
+  [...listeners.values()].forEach(listener => listener[name]?.(param));
+
+export class CometChatUIEventHandler {
+  static addMessageListener(id: string, listener: Listener) {
+    handlers.message.set(id, listener);
+  }
+  static removeMessageListener(id: string) {
+    handlers.message.delete(id);
+  }
+  static addConversationListener(id: string, listener: Listener) {
+    handlers.conversation.set(id, listener);
+  }
+  static removeConversationListener(id: string) {
+    handlers.conversation.delete(id);
+  }
+  static addGroupListener(id: string, listener: Listener) {
+    handlers.group.set(id, listener);
+  }
+  static removeGroupListener(id: string) {
+    handlers.group.delete(id);
+  }
+  static addUserListener(id: string, listener: Listener) {
+    handlers.user.set(id, listener);
+  }
+  static removeUserListener(id: string) {
+    handlers.user.delete(id);
+  }
+  static addCallListener(id: string, listener: Listener) {
+    handlers.call.set(id, listener);
+  }
+  static removeCallListener(id: string) {
+    handlers.call.delete(id);
+  }
+  static emitMessageEvent(name: string, param: unknown) {
+    emit(handlers.message, name, param);
+  }
+  static emitConversationEvent(name: string, param: unknown) {
+    emit(handlers.conversation, name, param);
+  }
+}
+
+const sdkMessageEvents = [
+  'onTextMessageReceived',
+  'onMediaMessageReceived',
+  'onCustomMessageReceived',
+  'onMessageDeleted',
+  'onMessageEdited',
+  'onMessagesRead',
+  'onMessagesDelivered',
+  'onTypingStarted',
+  'onTypingEnded',
+];
+
+/**
+ * Forwards the SDK's message events to CometChatUIEventHandler, as the kit
+ * does once it is initialised. Call it after `fakeCometChat.reset()`, which
+ * drops every SDK listener.
+ */
+export const initFakeUIKit = () => {
+  CometChat.addMessageListener(
+    'fake_uikit_message_listener',
+    new CometChat.MessageListener(
+      Object.fromEntries(
+        sdkMessageEvents.map(name => [
+          name,
+          (param: unknown) => CometChatUIEventHandler.emitMessageEvent(name, param),
+        ])
+      )
+    )
+  );
+};
+
+// Views
+export const Icon = ({ name }: { name: string }) => <View testID={`icon-${name}`} />;
+
+const Delete = () => <View testID="icon-delete" />;
+export default Delete;
+
+export const Skeleton = () => null;
+export const Style = { row: { flexDirection: 'row' as const } };
+export const CometChatAvatar = () => null;
+export const CometChatStatusIndicator = () => null;
+export const CometChatDate = () => null;
+export const CometChatReceipt = ({ receipt }: { receipt: MessageReceipt }) => (
+  <View testID={`receipt-${receipt}`} />
+);
+
+export const CometChatBadge = ({ count, style }: { count: number; style?: { containerStyle?: object } }) =>
+  count > 0 ? (
+    <View testID="badge" style={style?.containerStyle}>
+      <Text>{count}</Text>
+    </View>
+  ) : null;
+
+export const ErrorEmptyView = ({ title }: { title: string }) => <Text>{title}</Text>;
+
+export const CometChatConfirmDialog = (props: {
+  isOpen: boolean;
+  titleText: string;
+  confirmButtonText: string;
+  cancelButtonText: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) =>
+  props.isOpen ? (
+    <View>
+      <Text>{props.titleText}</Text>
+      <TouchableOpacity onPress={props.onConfirm}>
+        <Text>{props.confirmButtonText}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={props.onCancel}>
+        <Text>{props.cancelButtonText}</Text>
+      </TouchableOpacity>
+    </View>
+  ) : null;
+
+export const CometChatTooltipMenu = (props: {
+  visible: boolean;
+  menuItems: { text: string; onPress: () => void; icon?: React.ReactNode }[];
+}) =>
+  props.visible ? (
+    <View testID="tooltip-menu">
+      {props.menuItems.map(item => (
+        <TouchableOpacity key={item.text} onPress={item.onPress}>
+          {item.icon}
+          <Text>{item.text}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  ) : null;
+
+export const CometChatListItem = (props: {
+  id: string | number;
+  title?: string;
+  LeadingView?: React.ReactNode;
+  TitleView?: React.ReactNode;
+  SubtitleView?: React.ReactNode;
+  TrailingView?: React.ReactNode;
+  onPress?: (id: string | number) => void;
+  onLongPress?: (id: string | number, e: GestureResponderEvent) => void;
+}) => (
+  <TouchableOpacity
+    onPress={() => props.onPress?.(props.id)}
+    onLongPress={(e: GestureResponderEvent) => props.onLongPress?.(props.id, e)}>
+    {props.LeadingView}
+    {props.TitleView ?? <Text>{props.title}</Text>}
+    {props.SubtitleView}
+    {props.TrailingView}
+  </TouchableOpacity>
+);
+
+export interface CometChatListActionsInterface {
+  updateList: (item: any) => void;
+  updateAndMoveToFirst: (item: any) => void;
+  addItemToList: (item: any, position?: number) => void;
+  removeItemFromList: (itemId: string | number) => void;
+  getListItem: (itemId: string | number) => any;
+  getSelectedItems: () => any[];
+  getAllListItems: () => any[];
+}
+
+export const CometChatList = React.forwardRef<CometChatListActionsInterface, any>((props, ref) => {
+  const { listItemKey = 'uid', requestBuilder, ItemView, AppBarOptions } = props;
+  const [list, setList] = useState<any[]>([]);
+  const [status, setStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
+  const request = useRef<any>(null);
+
+  useImperativeHandle(ref, () => ({
+    updateList: item => {
+      const index = list.findIndex(listed => listed[listItemKey] === item[listItemKey]);
+      if (index > -1) setList([...list.slice(0, index), item, ...list.slice(index + 1)]);
+    },
+    updateAndMoveToFirst: item => {
+      setList([item, ...list.filter(listed => listed[listItemKey] !== item[listItemKey])]);
+    },
+    addItemToList: (item, position) => {
+      setList(prev => {
+        if (position !== undefined) {
+          if (position === 0) return [item, ...prev];
+          if (position >= prev.length) return [...prev, item];
+          return [...prev.slice(0, position - 1), item, ...prev.slice(position)];
+        }
+        return [...prev, item];
+      });
+    },
+    removeItemFromList: itemId => {
+      setList(prev => prev.filter(listed => listed[listItemKey] !== itemId));
+    },
+    getListItem: itemId => list.find(listed => listed[listItemKey] === itemId),
+    getSelectedItems: () => [],
+    getAllListItems: () => list,
+  }));
+
+  const fail = (error: unknown) => {
+    setStatus('error');
+    props.onError?.(error);
+  };
+
+  const fetchNext = () =>
+    request.current.fetchNext().then((page: any[]) => {
+      setList(prev => [...prev, ...page]);
+      setStatus('loaded');
+      props.onListFetched?.([...list, ...page]);
+    }, fail);
+
+  useEffect(() => {
+    request.current = requestBuilder.build();
+    fetchNext();
+  }, []);
+
+  const renderItem = ({ item }: { item: any }) =>
+    ItemView ? (
+      ItemView(item)
+    ) : (
+      <CometChatListItem
+        id={item[listItemKey]}
+        title={item.name}
+        LeadingView={props.LeadingView?.(item)}
+        TitleView={props.TitleView?.(item)}
+        SubtitleView={props.SubtitleView?.(item)}
+        TrailingView={props.TrailingView?.(item)}
+        onPress={() => props.onItemPress?.(item)}
+        onLongPress={(_id, e) => props.onItemLongPress?.(item, e)}
+      />
+    );
+
+  const { EmptyView, ErrorView, LoadingView } = props;
+  return (
+    <View>
+      {!props.hideHeader && (
+        <View>
+          <Text>{props.title}</Text>
+          {AppBarOptions && <AppBarOptions />}
+        </View>
+      )}
+      {status === 'loading' && LoadingView && <LoadingView />}
+      {status === 'error' && !props.hideError && ErrorView && <ErrorView />}
+      {status === 'loaded' && list.length === 0 && EmptyView && <EmptyView />}
+      <FlatList
+        data={list}
+        keyExtractor={item => `${item[listItemKey]}`}
+        renderItem={renderItem}
+        onEndReached={fetchNext}
+      />
+    </View>
+  );
+});
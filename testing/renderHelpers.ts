@@ -0,0 +1,52 @@
+/*
+ * renderHelpers.ts
+ * ---------------------------------------------------------------------------
+ * Helpers for the render tests: settle SDK promises inside act(), find
+ * rendered text and press what surrounds it.
+ * ---------------------------------------------------------------------------
+ */
+import { Text, TouchableOpacity } from 'react-native';
+import ReactTestRenderer, { ReactTestInstance } from 'react-test-renderer';
+
+const { act } = ReactTestRenderer;
+
+/**
+ * Runs `action`, then lets the SDK promises and state updates it causes
+ * settle, all inside one act().
+ */
+export const run = (action: () => void = () => {}) =>
+  act(async () => {
+    action();
+    for (let i = 0; i < 5; i++) {
+      await new Promise<void>(resolve => setTimeout(resolve, 0));
+    }
+  });
+
+export const textOf = (node: ReactTestInstance): string =>
+  node.children.map(child => (typeof child === 'string' ? child : textOf(child))).join('');
+
+export const queryAllByText = (root: ReactTestInstance, text: string) =>
+  root.findAll(item => item.type === Text && textOf(item) === text);
+
+export const getByText = (root: ReactTestInstance, text: string) => {
+  const node = queryAllByText(root, text)[0];
+  if (!node) throw new Error(`No text "${text}" is rendered`);
+  return node;
+};
+
+export const press = async (node: ReactTestInstance) => {
+  let target: ReactTestInstance | null = node;
+  while (target && target.type !== TouchableOpacity && !target.props.onPress) target = target.parent;
+  if (!target) throw new Error('Nothing pressable around the node');
+  await run(() => target!.props.onPress());
+};
+
+/**
+ * Long presses what surrounds the node, at the top left of the screen.
+ */
+export const longPress = async (node: ReactTestInstance) => {
+  let target: ReactTestInstance | null = node;
+  while (target && !target.props.onLongPress) target = target.parent;
+  if (!target) throw new Error('Nothing long-pressable around the node');
+  await run(() => target!.props.onLongPress({ nativeEvent: { pageX: 0, pageY: 0 } }));
+};